@@ -1,3 +1,32 @@
+const fs = require('fs');
+const path = require('path');
+
+// Local devnet: contract addresses from the latest `forge script DeployLocal.s.sol` broadcast
+const LOCAL_BROADCAST = path.join(
+  __dirname,
+  '../../packages/contracts/broadcast/DeployLocal.s.sol/31337/run-latest.json'
+);
+
+function readLocalDeployment() {
+  if (process.env.NEXT_PUBLIC_ENABLE_LOCAL_CHAIN !== 'true') return '';
+
+  try {
+    const broadcast = JSON.parse(fs.readFileSync(LOCAL_BROADCAST, 'utf8'));
+    const created = broadcast.transactions
+      .filter((tx) => tx.transactionType === 'CREATE')
+      .map((tx) => ({
+        contractName: tx.contractName,
+        address: tx.contractAddress,
+        // Token symbol is the second constructor argument; older forge versions keep the quotes
+        symbol: tx.arguments && tx.arguments[1] ? tx.arguments[1].replace(/"/g, '') : undefined,
+      }));
+    return JSON.stringify(created);
+  } catch (e) {
+    console.warn(`No local deployment at ${LOCAL_BROADCAST} - run packages/contracts/deploy-local.sh`);
+    return '';
+  }
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -6,6 +35,9 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  env: {
+    NEXT_PUBLIC_LOCAL_DEPLOYMENT: readLocalDeployment(),
+  },
   webpack: (config) => {
     config.externals.push('pino-pretty', 'lokijs', 'encoding');
     return config;
@@ -0,0 +1,33 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { AdminConsole } from '@/components/AdminConsole';
+
+// Owner console for the onlyOwner functions, gated on owner()
+export default function AdminPage() {
+  const [darkMode, setDarkMode] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem('darkMode');
+    setDarkMode(stored !== null ? stored === 'true' : window.matchMedia('(prefers-color-scheme: dark)').matches);
+  }, []);
+
+  return (
+    <main className={`min-h-screen p-4 ${darkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+      <div className="max-w-lg mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>Owner Console</h1>
+            <Link href="/" className={`text-xs underline ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Back to game
+            </Link>
+          </div>
+          <ConnectButton showBalance={false} chainStatus="icon" accountStatus="avatar" />
+        </div>
+        <AdminConsole darkMode={darkMode} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { HouseDashboard } from '@/components/HouseDashboard';
+
+// Operator page: payout reserves, house liquidity and entropy funding
+export default function HousePage() {
+  const [darkMode, setDarkMode] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem('darkMode');
+    setDarkMode(stored !== null ? stored === 'true' : window.matchMedia('(prefers-color-scheme: dark)').matches);
+  }, []);
+
+  return (
+    <main className={`min-h-screen p-4 ${darkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+      <div className="max-w-lg mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>House Solvency</h1>
+            <Link href="/" className={`text-xs underline ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Back to game
+            </Link>
+          </div>
+          <ConnectButton showBalance={false} chainStatus="icon" accountStatus="avatar" />
+        </div>
+        <HouseDashboard darkMode={darkMode} />
+      </div>
+    </main>
+  );
+}
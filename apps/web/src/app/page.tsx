@@ -3,14 +3,22 @@
 import dynamic from 'next/dynamic';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { TouchToStart } from '@/components/motion/TouchToStart';
-import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
-import { parseAbiItem } from 'viem';
-import { SevenElevenGame } from '@/components/SevenElevenGame';
-import { useSevenEleven, useSupportedTokens } from '@/hooks/useSevenEleven';
+import { formatUnits } from 'viem';
+import { type RollSettledArgs } from '@/lib/contracts';
+import { isWinningOutcome } from '@/lib/rules';
+import { formatContractError } from '@/lib/contractErrors';
+import { SevenElevenGame, formatTokenAmount } from '@/components/SevenElevenGame';
+import { useSevenEleven, useSupportedTokens, type SubmittedRoll, type SupportedToken } from '@/hooks/useSevenEleven';
 import { useSessionKey } from '@/hooks/useSessionKey';
-import { useSmartWallet } from '@/hooks/useSmartWallet';
+import { useRollResultSource } from '@/hooks/useRollResults';
+import { usePendingRolls, type TrackedRoll } from '@/hooks/usePendingRolls';
+import { PendingRolls } from '@/components/PendingRolls';
+import { LocalDevnetPanel } from '@/components/LocalDevnetPanel';
+import { NotDeployedNotice } from '@/components/NotDeployedNotice';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useAccountMode } from '@/hooks/useAccountMode';
 import { DebugConsole, debugLog } from '@/components/DebugConsole';
 import { GrokStats } from '@/components/GrokStats';
 import { MemeWalletBalances } from '@/components/MemeWalletBalances';
@@ -53,7 +61,6 @@ function getInitialDarkMode(): boolean {
 
 export default function Home() {
   const { isConnected, address } = useAccount();
-  const chainId = useChainId();
   const [darkMode, setDarkModeState] = useState(false);
 
   // Wrapper to persist dark mode to localStorage
@@ -85,6 +92,8 @@ export default function Home() {
   const [lossTrigger, setLossTrigger] = useState(0);
   const [gameBalanceAnimating, setGameBalanceAnimating] = useState(false);
   const [winAnimationLockout, setWinAnimationLockout] = useState(false);
+  // Decoded reason the last roll was rejected, shown above the roll button
+  const [rollError, setRollError] = useState<string | null>(null);
   // Optimistic update state for meme coins and grok
   const [optimisticPayouts, setOptimisticPayouts] = useState<{ mfer: bigint; bnkr: bigint; drb: bigint } | null>(null);
   const [optimisticSkim, setOptimisticSkim] = useState<bigint | null>(null);
@@ -94,46 +103,73 @@ export default function Home() {
   // Store playerBalance from event to apply when dice settle (not when event arrives)
   const pendingWinBalanceRef = useRef<bigint | null>(null);
 
-  // Debug: log when manualDisplayBalance changes
-  useEffect(() => {
-    if (manualDisplayBalance !== null) {
-      debugLog.debug(`manualDisplayBalance changed to: ${(Number(manualDisplayBalance) / 1e6).toFixed(2)}`);
-    } else {
-      debugLog.debug(`manualDisplayBalance changed to: null (will use polling)`);
-    }
-  }, [manualDisplayBalance]);
   const isRollingRef = useRef(false);
   const rollStartTimeRef = useRef(0);
 
-  // Get contract address and public client for event polling
-  const contractAddress = getSevenElevenAddress(chainId);
-  const publicClient = usePublicClient();
-
   // Blockchain integration
+  const { isDeployed } = useDeployment();
   const supportedTokens = useSupportedTokens();
-  const currentToken = supportedTokens[0] || {
+  // Deposit token chosen in the game menu; rolls and the Game Balance follow it
+  const [selectedTokenAddress, setSelectedTokenAddress] = useState<`0x${string}` | null>(null);
+  const currentToken = supportedTokens.find(t => t.address === selectedTokenAddress) || supportedTokens[0] || {
     address: '0x0' as `0x${string}`,
     symbol: 'USDC',
     name: 'USD Coin',
     decimals: 6,
     icon: '',
-  }; // Default to first token (USDC on testnet)
+    isDepositToken: true,
+    isPayoutToken: false,
+  }; // Default to first token (USDC)
+  const depositDecimals = currentToken.decimals;
+
+  const handleSelectToken = useCallback((token: SupportedToken) => {
+    setSelectedTokenAddress(token.address);
+    // The manual balance belongs to the previous token
+    setManualDisplayBalance(null);
+  }, []);
+
+  // Debug: log when manualDisplayBalance changes
+  useEffect(() => {
+    if (manualDisplayBalance !== null) {
+      debugLog.debug(`manualDisplayBalance changed to: ${formatUnits(manualDisplayBalance, depositDecimals)}`);
+    } else {
+      debugLog.debug(`manualDisplayBalance changed to: null (will use polling)`);
+    }
+  }, [manualDisplayBalance, depositDecimals]);
 
-  // Smart wallet and session key for gasless rolls
-  const { smartWalletAddress, isSmartWalletReady, isZeroDevAvailable } = useSmartWallet();
+  // Player account (EOA or its smart wallet) and session key for gasless rolls
+  const account = useAccountMode();
+  const { playerAddress, smartWalletClient } = account;
   const {
     hasValidSessionKey,
     hasSessionKeyStored,
     isSessionKeyExpired,
+    isSessionKeyExpiring,
     sessionKeyClient,
     sessionKeyAddress,
+    sessionKeyScope,
+    sessionKeyPreset,
+    keystore,
+    setKeystore,
+    isPasskeyAvailable,
     isCreatingSessionKey,
+    isRenewingSessionKey,
     isLoadingSessionKey,
     createSessionKey,
     clearSessionKey,
+    renewSessionKey,
+    shouldPromptRenewal,
+    dismissRenewalPrompt,
+    uninstallSessionKeyPlugin,
     error: sessionKeyError,
   } = useSessionKey();
 
+  // The call policy only accepts rollFor(player, token) for the scope the key was created with
+  const isSessionKeyInScope = !sessionKeyScope || (
+    playerAddress?.toLowerCase() === sessionKeyScope.player.toLowerCase() &&
+    currentToken.address.toLowerCase() === sessionKeyScope.token.toLowerCase()
+  );
+
   // Use session key client for rolls if available
   const {
     balance,
@@ -148,18 +184,21 @@ export default function Home() {
     authorizedRoller,
     playerStats,
     error: contractError,
+    rollBlockedReason,
     refetchBalance,
   } = useSevenEleven(currentToken, {
+    playerAddress,
+    smartWalletClient,
     // Pass session key client for gasless rolls
-    sessionKeyClient: hasValidSessionKey ? sessionKeyClient : undefined,
+    sessionKeyClient: hasValidSessionKey && isSessionKeyInScope ? sessionKeyClient : undefined,
   });
 
   // Debug: log when polled balance changes
   useEffect(() => {
     if (balance !== undefined) {
-      debugLog.debug(`POLLED balance: ${(Number(balance) / 1e6).toFixed(2)}`);
+      debugLog.debug(`POLLED balance: ${formatUnits(balance, depositDecimals)}`);
     }
-  }, [balance]);
+  }, [balance, depositDecimals]);
 
   // Determine if user has deposited (has play history)
   const hasDeposited = useMemo(() => {
@@ -172,14 +211,14 @@ export default function Home() {
   // Only updates on: roll start (deduct), roll settle win (from event), deposit, withdraw
   const displayBalance = useMemo(() => {
     if (manualDisplayBalance !== null) {
-      const val = (Number(manualDisplayBalance) / 1e6).toFixed(2);
+      const val = formatTokenAmount(formatUnits(manualDisplayBalance, depositDecimals));
       debugLog.debug(`displayBalance: using manual=${val}`);
       return val;
     }
-    const val = Number(balanceFormatted).toFixed(2);
+    const val = formatTokenAmount(balanceFormatted);
     debugLog.debug(`displayBalance: using polled=${val}`);
     return val;
-  }, [manualDisplayBalance, balanceFormatted]);
+  }, [manualDisplayBalance, balanceFormatted, depositDecimals]);
 
   // Onboarding state
   const { shouldShowOnboarding, dontShowAgainValue, completeOnboarding, skipOnboarding, showOnboarding } = useOnboarding(
@@ -215,111 +254,80 @@ export default function Home() {
     authorizedRoller &&
     authorizedRoller.toLowerCase() === sessionKeyAddress.toLowerCase();
 
-  // Poll for RollSettled events when awaiting result
-  const lastCheckedBlockRef = useRef<bigint>(BigInt(0));
-  const rollStartBlockRef = useRef<bigint>(BigInt(0));
-
-  useEffect(() => {
-    if (!awaitingBlockchainResult || !publicClient || !address) {
-      return;
+  // The renewed key lives on the same kernel, so it stays the authorized roller.
+  // A failed renewal dismisses the prompt; the game menu still offers Renew.
+  const handleRenewSessionKey = useCallback(async () => {
+    try {
+      await renewSessionKey();
+    } catch {
+      dismissRenewalPrompt();
+    }
+  }, [renewSessionKey, dismissRenewalPrompt]);
+
+  // Apply a settled roll to the UI
+  const applyRollSettled = useCallback((args: Omit<RollSettledArgs, 'sequenceNumber' | 'player'>) => {
+    const die1 = Number(args.die1);
+    const die2 = Number(args.die2);
+    const won = isWinningOutcome(args.rollOutcome);
+
+    const vrfTime = rollStartTimeRef.current > 0 ? Date.now() - rollStartTimeRef.current : 0;
+    debugLog.info(`Result: ${die1}+${die2}=${die1 + die2} ${won ? 'WIN!' : 'LOSS'} (VRF: ${vrfTime}ms)`);
+    debugLog.debug(`playerBalance from event: ${args.playerBalance?.toString() || 'undefined'}`);
+
+    // Set optimistic state for instant UI updates
+    if (won && args.mferPayout !== undefined) {
+      setOptimisticPayouts({
+        mfer: args.mferPayout,
+        bnkr: args.bnkrPayout || BigInt(0),
+        drb: args.drbPayout || BigInt(0),
+      });
+    } else if (!won && args.mferSkimmed !== undefined) {
+      setOptimisticSkim(args.mferSkimmed);
     }
 
-    debugLog.debug('Starting RollSettled event polling...');
-
-    // Record the starting block for this roll (first poll will set it)
-    const initializePolling = async () => {
-      if (rollStartBlockRef.current === BigInt(0)) {
-        const currentBlock = await publicClient.getBlockNumber();
-        // Start from current block - events for THIS roll will be in future blocks
-        rollStartBlockRef.current = currentBlock;
-        lastCheckedBlockRef.current = currentBlock;
-        debugLog.debug(`Roll started at block ${currentBlock}`);
-      }
-    };
-
-    const pollForEvents = async () => {
-      try {
-        await initializePolling();
-        const currentBlock = await publicClient.getBlockNumber();
-        // Only look at blocks from when THIS roll started
-        const fromBlock = lastCheckedBlockRef.current;
-
-        debugLog.debug(`Polling blocks ${fromBlock} to ${currentBlock}`);
-
-        const logs = await publicClient.getLogs({
-          address: contractAddress,
-          event: parseAbiItem('event RollSettled(uint64 indexed sequenceNumber, address indexed player, uint8 die1, uint8 die2, uint8 rollOutcome, uint256 mferPayout, uint256 bnkrPayout, uint256 drbPayout, uint256 mferSkimmed, uint256 playerBalance)'),
-          args: {
-            player: address,
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
-
-        lastCheckedBlockRef.current = currentBlock;
-
-        if (logs.length > 0) {
-          debugLog.info(`Found ${logs.length} RollSettled events!`);
-          const latestLog = logs[logs.length - 1];
-          const args = latestLog.args;
-
-          debugLog.debug(`die1=${args.die1} die2=${args.die2} rollOutcome=${args.rollOutcome}`);
-
-          if (args.die1 !== undefined && args.die2 !== undefined) {
-            const die1 = Number(args.die1);
-            const die2 = Number(args.die2);
-            const won = Number(args.rollOutcome) > 0; // 0=Loss, 1=Win, 2=Doubles
-
-            const vrfTime = rollStartTimeRef.current > 0 ? Date.now() - rollStartTimeRef.current : 0;
-            debugLog.info(`Result: ${die1}+${die2}=${die1 + die2} ${won ? 'WIN!' : 'LOSS'} (VRF: ${vrfTime}ms)`);
-            debugLog.debug(`playerBalance from event: ${args.playerBalance?.toString() || 'undefined'}`);
-
-            // Set optimistic state for instant UI updates
-            if (won && args.mferPayout !== undefined) {
-              setOptimisticPayouts({
-                mfer: args.mferPayout,
-                bnkr: args.bnkrPayout || BigInt(0),
-                drb: args.drbPayout || BigInt(0),
-              });
-            } else if (!won && args.mferSkimmed !== undefined) {
-              setOptimisticSkim(args.mferSkimmed);
-            }
-
-            // Update balance from event
-            if (args.playerBalance !== undefined) {
-              if (won) {
-                // For WIN: store to apply when dice settle (for animation timing)
-                debugLog.info(`EVENT WIN: storing pendingWinBalance=${(Number(args.playerBalance) / 1e6).toFixed(2)}`);
-                pendingWinBalanceRef.current = args.playerBalance;
-              } else {
-                // For LOSS: immediately sync with blockchain (no balance animation needed)
-                debugLog.info(`EVENT LOSS: setting manualDisplayBalance=${(Number(args.playerBalance) / 1e6).toFixed(2)}`);
-                setManualDisplayBalance(args.playerBalance);
-              }
-            }
-
-            // Inject target faces into ongoing animation - D6 will transition from shake to throw
-            // No need to increment rollCount - the animation is continuous
-            setTargetFaces({ die1, die2 });
-            setDiceResult({ die1, die2, won });
-            setAwaitingBlockchainResult(false);
-            // Reset roll start block for next roll
-            rollStartBlockRef.current = BigInt(0);
-            // Keep isRolling true - let animation settle naturally
-            // Win/loss animations will trigger in handleDiceSettled
-          }
-        }
-      } catch (err) {
-        debugLog.error(`Poll error: ${err}`);
+    // Update balance from event
+    if (args.playerBalance !== undefined) {
+      if (won) {
+        // For WIN: store to apply when dice settle (for animation timing)
+        debugLog.info(`EVENT WIN: storing pendingWinBalance=${formatUnits(args.playerBalance, depositDecimals)}`);
+        pendingWinBalanceRef.current = args.playerBalance;
+      } else {
+        // For LOSS: immediately sync with blockchain (no balance animation needed)
+        debugLog.info(`EVENT LOSS: setting manualDisplayBalance=${formatUnits(args.playerBalance, depositDecimals)}`);
+        setManualDisplayBalance(args.playerBalance);
       }
-    };
+    }
 
-    // Poll immediately and then every 2 seconds
-    pollForEvents();
-    const interval = setInterval(pollForEvents, 2000);
+    // Inject target faces into ongoing animation - D6 will transition from shake to throw
+    // No need to increment rollCount - the animation is continuous
+    setTargetFaces({ die1, die2 });
+    setDiceResult({ die1, die2, won });
+    setAwaitingBlockchainResult(false);
+    // Keep isRolling true - let animation settle naturally
+    // Win/loss animations will trigger in handleDiceSettled
+  }, [depositDecimals]);
+
+  // Settlements are routed by the sequence number returned from roll/rollFor
+  const rollResultSource = useRollResultSource(playerAddress);
+
+  // A roll we stopped waiting on (or one from another tab) settled - resync with the chain
+  const handleOtherRollSettled = useCallback((roll: TrackedRoll) => {
+    debugLog.info(`Background roll #${roll.sequenceNumber} ${roll.status}`);
+    if (!isRollingRef.current) {
+      setManualDisplayBalance(null);
+      refetchBalance();
+    }
+  }, [refetchBalance]);
 
-    return () => clearInterval(interval);
-  }, [awaitingBlockchainResult, publicClient, address, contractAddress]);
+  const {
+    rolls: backgroundRolls,
+    track: trackRoll,
+    detachActive: detachActiveRoll,
+    dismiss: dismissBackgroundRoll,
+  } = usePendingRolls(rollResultSource, {
+    onActiveSettled: applyRollSettled,
+    onOtherSettled: handleOtherRollSettled,
+  });
 
   // Timeout fallback: if awaiting result for too long, show dismiss option
   useEffect(() => {
@@ -338,14 +346,46 @@ export default function Home() {
     return () => clearTimeout(timeout);
   }, [awaitingBlockchainResult]);
 
+  // The dice start shaking on submission; the sequence number follows with the receipt
+  const activeSubmissionRef = useRef<SubmittedRoll | null>(null);
+  const trackSubmittedRoll = useCallback((submitted: SubmittedRoll, via: TrackedRoll['via']) => {
+    activeSubmissionRef.current = submitted;
+    submitted.sequenceNumber
+      .then(sequenceNumber => {
+        // Dismissed before inclusion: its settlement surfaces as an unmatched roll
+        if (activeSubmissionRef.current !== submitted) return;
+        activeSubmissionRef.current = null;
+        if (sequenceNumber !== undefined) {
+          trackRoll(sequenceNumber, via);
+        } else {
+          debugLog.warn('Roll receipt had no RollRequested event');
+        }
+      })
+      .catch(err => {
+        if (activeSubmissionRef.current !== submitted) return;
+        activeSubmissionRef.current = null;
+        const message = formatContractError(err);
+        debugLog.error(`Roll failed after submission: ${message}`);
+        setRollError(message);
+        setAwaitingBlockchainResult(false);
+        isRollingRef.current = false;
+        setIsRolling(false);
+        // Reset display balance to sync with on-chain state
+        setManualDisplayBalance(null);
+        refetchBalance();
+      });
+  }, [trackRoll, refetchBalance]);
+
   // Function to dismiss waiting state
   const handleDismissWaiting = useCallback(() => {
+    activeSubmissionRef.current = null;
+    detachActiveRoll();
     setAwaitingBlockchainResult(false);
     setWaitingTooLong(false);
     isRollingRef.current = false;
     setIsRolling(false);
     debugLog.info('User dismissed waiting state');
-  }, []);
+  }, [detachActiveRoll]);
 
   // Log session key state changes (not every render)
   useEffect(() => {
@@ -379,83 +419,101 @@ export default function Home() {
     // Don't auto-roll - wait for user to tap/shake
   }, []);
 
+  // Not connected (demo mode): random local targets, nothing touches the contract
+  const startDemoRoll = useCallback(() => {
+    const die1 = Math.floor(Math.random() * 6) + 1;
+    const die2 = Math.floor(Math.random() * 6) + 1;
+    isRollingRef.current = true;
+    setRollCount(c => c + 1);
+    setTargetFaces({ die1, die2 });
+    setIsRolling(true);
+    setDiceResult(null);
+  }, []);
+
   // Handle roll
   const handleRoll = useCallback(async () => {
     if (isRollingRef.current || isRolling || isContractRolling || isRollingWithSessionKey || winAnimationLockout) {
       return;
     }
 
-    // If connected, check balance and call contract
-    if (isConnected) {
-      // Use displayed balance for check (manualDisplayBalance if set, otherwise hook's balance)
-      // When manualDisplayBalance is set, it came from a RollSettled event and is authoritative
-      // When it's null, fall back to hook's balance (which may be slightly stale from polling)
-      const effectiveBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+    if (!isConnected) {
+      startDemoRoll();
+      return;
+    }
+
+    // Check balance and call contract
+    let submitted: SubmittedRoll;
+    let rollVia: TrackedRoll['via'] = 'wallet';
+    setRollError(null);
+    // Use displayed balance for check (manualDisplayBalance if set, otherwise hook's balance)
+    // When manualDisplayBalance is set, it came from a RollSettled event and is authoritative
+    // When it's null, fall back to hook's balance (which may be slightly stale from polling)
+    const effectiveBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+
+    if (!effectiveBalance || !betAmount || effectiveBalance < betAmount) {
+      debugLog.warn(`Insufficient balance: ${effectiveBalance?.toString() || 'undefined'} < ${betAmount?.toString() || 'undefined'}`);
+      setMenuOpen(true);
+      return;
+    }
 
-      if (!effectiveBalance || !betAmount || effectiveBalance < betAmount) {
-        debugLog.warn(`Insufficient balance: ${effectiveBalance?.toString() || 'undefined'} < ${betAmount?.toString() || 'undefined'}`);
-        setMenuOpen(true);
+    // Shake-to-roll bypasses the disabled button
+    if (rollBlockedReason) {
+      debugLog.warn(`Roll blocked by pre-flight: ${rollBlockedReason}`);
+      return;
+    }
+
+    // Try to use session key for gasless roll (only if authorized on contract)
+    debugLog.debug(`Roll: hasSK=${hasSessionKey} auth=${isSessionKeyAuthorized}`);
+    if (hasSessionKey && isSessionKeyAuthorized) {
+      debugLog.info('GASLESS roll');
+      rollVia = 'sessionKey';
+      try {
+        submitted = await rollWithSessionKey();
+      } catch (err) {
+        const message = formatContractError(err);
+        debugLog.error(`Session key roll failed: ${message}`);
+        setRollError(message);
+        // Reset display balance to sync with on-chain state
+        setManualDisplayBalance(null);
+        refetchBalance();
+        // Don't fall back to wallet roll - this would prompt the user unexpectedly
         return;
       }
-
-      // Try to use session key for gasless roll (only if authorized on contract)
-      debugLog.debug(`Roll: hasSK=${hasSessionKey} auth=${isSessionKeyAuthorized}`);
-      if (hasSessionKey && isSessionKeyAuthorized) {
-        debugLog.info('GASLESS roll');
-        try {
-          await rollWithSessionKey();
-        } catch (err) {
-          debugLog.error(`Session key roll failed: ${err}`);
-          // Reset display balance to sync with on-chain state
-          setManualDisplayBalance(null);
-          refetchBalance();
-          // Don't fall back to wallet roll - this would prompt the user unexpectedly
-          return;
-        }
-      } else {
-        // Regular roll with wallet signature
-        debugLog.info('WALLET roll');
-        try {
-          await contractRoll();
-        } catch (err) {
-          debugLog.error(`Contract roll failed: ${err}`);
-          // Reset display balance to sync with on-chain state
-          setManualDisplayBalance(null);
-          refetchBalance();
-          return;
-        }
+    } else {
+      // Regular roll with wallet signature
+      debugLog.info('WALLET roll');
+      try {
+        submitted = await contractRoll();
+      } catch (err) {
+        const message = formatContractError(err);
+        debugLog.error(`Contract roll failed: ${message}`);
+        setRollError(message);
+        // Reset display balance to sync with on-chain state
+        setManualDisplayBalance(null);
+        refetchBalance();
+        return;
       }
     }
 
-    // When connected, don't set target faces yet - wait for VRF result
-    // When not connected (demo mode), use random targets
-    if (isConnected) {
-      isRollingRef.current = true;
-      rollStartTimeRef.current = Date.now();
-      setRollCount(c => c + 1);
-      setTargetFaces(null); // Will be set when VRF result arrives
-      setIsRolling(true);
-      setDiceResult(null);
-      setAwaitingBlockchainResult(true);
-      // Deduct bet from current display balance (not hook's balance which may be stale)
-      if (betAmount) {
-        const currentDisplayBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
-        if (currentDisplayBalance) {
-          const newBalance = currentDisplayBalance - betAmount;
-          debugLog.info(`ROLL START: ${(Number(currentDisplayBalance) / 1e6).toFixed(2)} - ${(Number(betAmount) / 1e6).toFixed(2)} = ${(Number(newBalance) / 1e6).toFixed(2)}`);
-          setManualDisplayBalance(newBalance);
-        }
+    // Don't set target faces yet - wait for VRF result
+    isRollingRef.current = true;
+    rollStartTimeRef.current = Date.now();
+    setRollCount(c => c + 1);
+    setTargetFaces(null); // Will be set when VRF result arrives
+    setIsRolling(true);
+    setDiceResult(null);
+    setAwaitingBlockchainResult(true);
+    // Deduct bet from current display balance (not hook's balance which may be stale)
+    if (betAmount) {
+      const currentDisplayBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+      if (currentDisplayBalance) {
+        const newBalance = currentDisplayBalance - betAmount;
+        debugLog.info(`ROLL START: ${formatUnits(currentDisplayBalance, depositDecimals)} - ${formatUnits(betAmount, depositDecimals)} = ${formatUnits(newBalance, depositDecimals)}`);
+        setManualDisplayBalance(newBalance);
       }
-    } else {
-      const die1 = Math.floor(Math.random() * 6) + 1;
-      const die2 = Math.floor(Math.random() * 6) + 1;
-      isRollingRef.current = true;
-      setRollCount(c => c + 1);
-      setTargetFaces({ die1, die2 });
-      setIsRolling(true);
-      setDiceResult(null);
     }
-  }, [isRolling, isContractRolling, isRollingWithSessionKey, isConnected, balance, betAmount, contractRoll, hasSessionKey, isSessionKeyAuthorized, rollWithSessionKey, winAnimationLockout, manualDisplayBalance, refetchBalance]);
+    trackSubmittedRoll(submitted, rollVia);
+  }, [isRolling, isContractRolling, isRollingWithSessionKey, isConnected, balance, betAmount, depositDecimals, contractRoll, hasSessionKey, isSessionKeyAuthorized, rollWithSessionKey, rollBlockedReason, winAnimationLockout, manualDisplayBalance, refetchBalance, trackSubmittedRoll, startDemoRoll]);
 
   const handleDiceSettled = useCallback(() => {
     console.log('Dice animation settled with target faces:', targetFaces);
@@ -465,7 +523,7 @@ export default function Home() {
     if (!isConnected && targetFaces) {
       setDiceResult(targetFaces);
     }
-    // If connected, diceResult is already set by VRF polling
+    // If connected, diceResult is already set by the roll result source
     // Trigger win/loss animations now that dice have settled
     if (isConnected && diceResult && diceResult.won !== undefined) {
       if (diceResult.won) {
@@ -474,7 +532,7 @@ export default function Home() {
         setWinAnimationLockout(true);
         // Apply the pending win balance NOW (when animation starts)
         if (pendingWinBalanceRef.current !== null) {
-          debugLog.info(`DICE SETTLE WIN: applying pendingWinBalance=${(Number(pendingWinBalanceRef.current) / 1e6).toFixed(2)}`);
+          debugLog.info(`DICE SETTLE WIN: applying pendingWinBalance=${formatUnits(pendingWinBalanceRef.current, depositDecimals)}`);
           setManualDisplayBalance(pendingWinBalanceRef.current);
           pendingWinBalanceRef.current = null;
         } else {
@@ -494,7 +552,7 @@ export default function Home() {
         setLossTrigger(prev => prev + 1);
       }
     }
-  }, [targetFaces, isConnected, diceResult]);
+  }, [targetFaces, isConnected, diceResult, depositDecimals]);
 
   // Listen for shake (also blocked during win animation lockout)
   useShakeListener(shakeEnabled && hasStarted && !isRolling && !winAnimationLockout, handleRoll);
@@ -505,77 +563,84 @@ export default function Home() {
       return;
     }
 
-    // If connected, check balance and call contract
-    if (isConnected) {
-      // Use displayed balance for check (manualDisplayBalance if set, otherwise hook's balance)
-      // When manualDisplayBalance is set, it came from a RollSettled event and is authoritative
-      // When it's null, fall back to hook's balance (which may be slightly stale from polling)
-      const effectiveBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+    if (!isConnected) {
+      startDemoRoll();
+      return;
+    }
+
+    // Check balance and call contract
+    let submitted: SubmittedRoll;
+    let rollVia: TrackedRoll['via'] = 'wallet';
+    setRollError(null);
+    // Use displayed balance for check (manualDisplayBalance if set, otherwise hook's balance)
+    // When manualDisplayBalance is set, it came from a RollSettled event and is authoritative
+    // When it's null, fall back to hook's balance (which may be slightly stale from polling)
+    const effectiveBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+
+    if (!effectiveBalance || !betAmount || effectiveBalance < betAmount) {
+      debugLog.warn(`Insufficient balance: ${effectiveBalance?.toString() || 'undefined'} < ${betAmount?.toString() || 'undefined'}`);
+      setMenuOpen(true);
+      return;
+    }
+
+    // Shake-to-roll bypasses the disabled button
+    if (rollBlockedReason) {
+      debugLog.warn(`Roll blocked by pre-flight: ${rollBlockedReason}`);
+      return;
+    }
 
-      if (!effectiveBalance || !betAmount || effectiveBalance < betAmount) {
-        debugLog.warn(`Insufficient balance: ${effectiveBalance?.toString() || 'undefined'} < ${betAmount?.toString() || 'undefined'}`);
-        setMenuOpen(true);
+    // Try to use session key for gasless roll (only if authorized on contract)
+    debugLog.debug(`Roll: hasSK=${hasSessionKey} auth=${isSessionKeyAuthorized}`);
+    if (hasSessionKey && isSessionKeyAuthorized) {
+      debugLog.info('GASLESS roll');
+      rollVia = 'sessionKey';
+      try {
+        submitted = await rollWithSessionKey();
+      } catch (err) {
+        const message = formatContractError(err);
+        debugLog.error(`Session key roll failed: ${message}`);
+        setRollError(message);
+        // Reset display balance to sync with on-chain state
+        setManualDisplayBalance(null);
+        refetchBalance();
+        // Don't fall back to wallet roll - this would prompt the user unexpectedly
         return;
       }
-
-      // Try to use session key for gasless roll (only if authorized on contract)
-      debugLog.debug(`Roll: hasSK=${hasSessionKey} auth=${isSessionKeyAuthorized}`);
-      if (hasSessionKey && isSessionKeyAuthorized) {
-        debugLog.info('GASLESS roll');
-        try {
-          await rollWithSessionKey();
-        } catch (err) {
-          debugLog.error(`Session key roll failed: ${err}`);
-          // Reset display balance to sync with on-chain state
-          setManualDisplayBalance(null);
-          refetchBalance();
-          // Don't fall back to wallet roll - this would prompt the user unexpectedly
-          return;
-        }
-      } else {
-        // Regular roll with wallet signature
-        debugLog.info('WALLET roll');
-        try {
-          await contractRoll();
-        } catch (err) {
-          debugLog.error(`Contract roll failed: ${err}`);
-          // Reset display balance to sync with on-chain state
-          setManualDisplayBalance(null);
-          refetchBalance();
-          return;
-        }
+    } else {
+      // Regular roll with wallet signature
+      debugLog.info('WALLET roll');
+      try {
+        submitted = await contractRoll();
+      } catch (err) {
+        const message = formatContractError(err);
+        debugLog.error(`Contract roll failed: ${message}`);
+        setRollError(message);
+        // Reset display balance to sync with on-chain state
+        setManualDisplayBalance(null);
+        refetchBalance();
+        return;
       }
     }
 
-    // When connected, don't set target faces yet - wait for VRF result
-    // When not connected (demo mode), use random targets
-    if (isConnected) {
-      isRollingRef.current = true;
-      rollStartTimeRef.current = Date.now();
-      setRollCount(c => c + 1);
-      setTargetFaces(null); // Will be set when VRF result arrives
-      setIsRolling(true);
-      setDiceResult(null);
-      setAwaitingBlockchainResult(true);
-      // Deduct bet from current display balance (not hook's balance which may be stale)
-      if (betAmount) {
-        const currentDisplayBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
-        if (currentDisplayBalance) {
-          const newBalance = currentDisplayBalance - betAmount;
-          debugLog.info(`ROLL START: ${(Number(currentDisplayBalance) / 1e6).toFixed(2)} - ${(Number(betAmount) / 1e6).toFixed(2)} = ${(Number(newBalance) / 1e6).toFixed(2)}`);
-          setManualDisplayBalance(newBalance);
-        }
+    // Don't set target faces yet - wait for VRF result
+    isRollingRef.current = true;
+    rollStartTimeRef.current = Date.now();
+    setRollCount(c => c + 1);
+    setTargetFaces(null); // Will be set when VRF result arrives
+    setIsRolling(true);
+    setDiceResult(null);
+    setAwaitingBlockchainResult(true);
+    // Deduct bet from current display balance (not hook's balance which may be stale)
+    if (betAmount) {
+      const currentDisplayBalance = manualDisplayBalance !== null ? manualDisplayBalance : balance;
+      if (currentDisplayBalance) {
+        const newBalance = currentDisplayBalance - betAmount;
+        debugLog.info(`ROLL START: ${formatUnits(currentDisplayBalance, depositDecimals)} - ${formatUnits(betAmount, depositDecimals)} = ${formatUnits(newBalance, depositDecimals)}`);
+        setManualDisplayBalance(newBalance);
       }
-    } else {
-      const die1 = Math.floor(Math.random() * 6) + 1;
-      const die2 = Math.floor(Math.random() * 6) + 1;
-      isRollingRef.current = true;
-      setRollCount(c => c + 1);
-      setTargetFaces({ die1, die2 });
-      setIsRolling(true);
-      setDiceResult(null);
     }
-  }, [isRolling, isContractRolling, isRollingWithSessionKey, isConnected, balance, betAmount, contractRoll, hasSessionKey, isSessionKeyAuthorized, rollWithSessionKey, winAnimationLockout, manualDisplayBalance, refetchBalance]);
+    trackSubmittedRoll(submitted, rollVia);
+  }, [isRolling, isContractRolling, isRollingWithSessionKey, isConnected, balance, betAmount, depositDecimals, contractRoll, hasSessionKey, isSessionKeyAuthorized, rollWithSessionKey, rollBlockedReason, winAnimationLockout, manualDisplayBalance, refetchBalance, trackSubmittedRoll, startDemoRoll]);
 
   return (
     <main className="h-[100dvh] flex flex-col overflow-hidden relative">
@@ -755,6 +820,32 @@ export default function Home() {
         {/* Simple roll button and result (when connected) */}
         {hasStarted && isConnected && (
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-3 safe-bottom pb-2">
+            {/* Session key about to expire */}
+            {shouldPromptRenewal && isSessionKeyAuthorized && (
+              <div className={`rounded-xl px-4 py-2 text-sm shadow-lg flex items-center gap-3 ${
+                darkMode ? 'bg-gray-700 text-gray-200' : 'bg-white text-gray-700'
+              }`}>
+                <span>Gasless rolls expire soon</span>
+                <button
+                  onClick={handleRenewSessionKey}
+                  disabled={isRenewingSessionKey}
+                  className="text-xs px-3 py-1.5 rounded-lg font-medium bg-blue-500 hover:bg-blue-400 text-white disabled:opacity-50"
+                >
+                  {isRenewingSessionKey ? 'Renewing...' : 'Renew'}
+                </button>
+                <button
+                  onClick={dismissRenewalPrompt}
+                  disabled={isRenewingSessionKey}
+                  className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+            {/* anvil profile: reveal MockEntropy requests */}
+            <LocalDevnetPanel darkMode={darkMode} playerAddress={playerAddress} />
+            {/* Late, stale and orphaned rolls */}
+            <PendingRolls rolls={backgroundRolls} darkMode={darkMode} onDismiss={dismissBackgroundRoll} />
             {/* Waiting for blockchain result */}
             {awaitingBlockchainResult && (
               <div className="flex flex-col items-center gap-2">
@@ -795,11 +886,32 @@ export default function Home() {
                 </div>
               </div>
             )}
+            {/* Why the last roll was rejected */}
+            {rollError && !awaitingBlockchainResult && (
+              <div className={`rounded-xl px-4 py-2 text-sm shadow-lg max-w-xs flex items-center gap-3 ${
+                darkMode ? 'bg-red-900/90 text-red-100' : 'bg-red-50 text-red-700'
+              }`}>
+                <span>{rollError}</span>
+                <button onClick={() => setRollError(null)} className="text-xs underline shrink-0">
+                  Dismiss
+                </button>
+              </div>
+            )}
+            {/* No game contract on this chain */}
+            {!isDeployed && <NotDeployedNotice darkMode={darkMode} />}
+            {/* Pre-flight predicts the next roll reverts */}
+            {isDeployed && rollBlockedReason && !awaitingBlockchainResult && (
+              <div className={`rounded-xl px-4 py-2 text-sm text-center shadow-lg max-w-xs ${
+                darkMode ? 'bg-yellow-800/90 text-yellow-100' : 'bg-yellow-100 text-yellow-800'
+              }`}>
+                {rollBlockedReason}
+              </div>
+            )}
             {/* Roll button */}
-            {!awaitingBlockchainResult && (
+            {isDeployed && !awaitingBlockchainResult && (
               <button
                 onClick={handleThrowAgain}
-                disabled={isRolling || awaitingBlockchainResult}
+                disabled={isRolling || awaitingBlockchainResult || !!rollBlockedReason}
                 className={`font-medium px-6 py-3 rounded-xl transition-colors shadow-lg disabled:opacity-50 ${
                   darkMode
                     ? 'bg-gray-500 hover:bg-gray-400 text-white'
@@ -846,25 +958,43 @@ export default function Home() {
               </button>
               {/* Game UI */}
               <div className="p-4 pt-12 max-h-[80vh] overflow-y-auto">
-                <SevenElevenGame
-                  darkMode={darkMode}
-                  sessionKey={{
-                    hasValidSessionKey,
-                    hasSessionKeyStored,
-                    isSessionKeyExpired,
-                    isCreatingSessionKey,
-                    sessionKeyAddress,
-                    error: sessionKeyError,
-                    createSessionKey,
-                    clearSessionKey,
-                  }}
-                  onDepositComplete={() => setMenuOpen(false)}
-                  onBalanceChange={() => {
-                    debugLog.warn('MENU: onBalanceChange called - resetting to polling');
-                    setManualDisplayBalance(null);
-                  }}
-                  displayBalance={displayBalance}
-                />
+                {!isDeployed ? (
+                  <div className="flex justify-center">
+                    <NotDeployedNotice darkMode={darkMode} />
+                  </div>
+                ) : (
+                  <SevenElevenGame
+                    darkMode={darkMode}
+                    sessionKey={{
+                      hasValidSessionKey,
+                      hasSessionKeyStored,
+                      isSessionKeyExpired,
+                      isSessionKeyExpiring,
+                      isCreatingSessionKey,
+                      isRenewingSessionKey,
+                      sessionKeyAddress,
+                      sessionKeyScope,
+                      sessionKeyPreset,
+                      keystore,
+                      setKeystore,
+                      isPasskeyAvailable,
+                      error: sessionKeyError,
+                      createSessionKey,
+                      clearSessionKey,
+                      renewSessionKey,
+                      uninstallSessionKeyPlugin,
+                    }}
+                    onDepositComplete={() => setMenuOpen(false)}
+                    onBalanceChange={() => {
+                      debugLog.warn('MENU: onBalanceChange called - resetting to polling');
+                      setManualDisplayBalance(null);
+                    }}
+                    displayBalance={displayBalance}
+                    account={account}
+                    selectedToken={currentToken}
+                    onSelectToken={handleSelectToken}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -883,6 +1013,7 @@ export default function Home() {
       {/* Meme token wallet balances - lower right */}
       <MemeWalletBalances
         darkMode={darkMode}
+        playerAddress={playerAddress}
         winTrigger={winTrigger}
         optimisticPayouts={optimisticPayouts}
         onOptimisticPayoutsCleared={() => setOptimisticPayouts(null)}
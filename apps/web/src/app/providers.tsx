@@ -5,8 +5,31 @@ import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit';
 import { base } from 'wagmi/chains';
 import { wagmiConfig } from '@/lib/wagmi';
+import { loadDeployments } from '@/lib/deployments';
 import '@rainbow-me/rainbowkit/styles.css';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+// Every hook reads addresses from the deployment manifest, so nothing renders until it has loaded
+function DeploymentsGate({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<'loading' | 'ready' | { error: string }>('loading');
+
+  useEffect(() => {
+    loadDeployments()
+      .then(() => setStatus('ready'))
+      .catch((e) => {
+        console.error('Failed to load deployment manifest:', e);
+        setStatus({ error: e instanceof Error ? e.message : String(e) });
+      });
+  }, []);
+
+  if (status === 'ready') return <>{children}</>;
+  if (status === 'loading') return null;
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 text-center text-sm text-red-500">
+      {status.error}
+    </div>
+  );
+}
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient());
@@ -22,7 +45,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
             borderRadius: 'medium',
           })}
         >
-          {children}
+          <DeploymentsGate>{children}</DeploymentsGate>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { formatEther, formatUnits, isAddress, parseUnits } from 'viem';
+import { useAdminConsole, describeAdminAction, isWithdrawalAction, type AdminAction } from '@/hooks/useAdminConsole';
+import { useHouseSolvency } from '@/hooks/useHouseSolvency';
+import { CHAIN_ID } from '@/lib/contracts';
+
+interface AdminConsoleProps {
+  darkMode: boolean;
+}
+
+interface PendingConfirmation {
+  action: AdminAction;
+  current: string;
+}
+
+function parseAmount(value: string, decimals: number): bigint | undefined {
+  try {
+    const amount = parseUnits(value.trim(), decimals);
+    return amount > BigInt(0) ? amount : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getExplorerTxUrl(chainId: number, hash: string): string {
+  const base = chainId === CHAIN_ID.BASE_MAINNET ? 'https://basescan.org' : 'https://sepolia.basescan.org';
+  return `${base}/tx/${hash}`;
+}
+
+export function AdminConsole({ darkMode }: AdminConsoleProps) {
+  const chainId = useChainId();
+  const { address } = useAccount();
+  const {
+    isAvailable,
+    owner,
+    isOwner,
+    isOwnerLoading,
+    supportedTokens,
+    readAffectedValue,
+    execute,
+    pendingAction,
+    error,
+    auditLog,
+    clearAuditLog,
+  } = useAdminConsole();
+  const { payoutReserves, houseLiquidity, entropyBalance, refetch } = useHouseSolvency();
+
+  // Form state
+  const [tokenInput, setTokenInput] = useState('');
+  const [poolInput, setPoolInput] = useState('');
+  const [mockTokenInput, setMockTokenInput] = useState('');
+  const [mockFlag, setMockFlag] = useState(true);
+  const [reserveIndex, setReserveIndex] = useState(0);
+  const [reserveAmount, setReserveAmount] = useState('');
+  const [liquidityIndex, setLiquidityIndex] = useState(0);
+  const [liquidityAmount, setLiquidityAmount] = useState('');
+  const [entropyAmount, setEntropyAmount] = useState('');
+  const [confirming, setConfirming] = useState<PendingConfirmation | null>(null);
+
+  const cardClass = `rounded-xl p-4 ${darkMode ? 'bg-gray-800' : 'bg-white shadow'}`;
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+  const inputClass = `w-full px-3 py-1.5 rounded-lg border text-sm ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const buttonClass = (variant: 'primary' | 'danger') =>
+    `flex-1 py-1.5 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${
+      variant === 'danger' ? 'bg-red-600 hover:bg-red-500' : 'bg-purple-600 hover:bg-purple-500'
+    }`;
+
+  if (!isAvailable) {
+    return (
+      <div className={`${cardClass} text-center text-sm ${labelClass}`}>
+        No SevenEleven contract on this network (or test mode is on).
+      </div>
+    );
+  }
+
+  if (!address || isOwnerLoading || !isOwner) {
+    return (
+      <div className={`${cardClass} text-center text-sm ${labelClass}`}>
+        {!address
+          ? 'Connect the owner wallet to manage the contract.'
+          : isOwnerLoading
+            ? 'Checking owner...'
+            : `Connected wallet is not the owner${owner ? ` (${owner})` : ''}.`}
+      </div>
+    );
+  }
+
+  const busy = pendingAction !== null;
+  const reserve = payoutReserves[reserveIndex];
+  const liquidity = houseLiquidity[liquidityIndex];
+  const token = tokenInput.trim();
+  const pool = poolInput.trim();
+  const mockToken = mockTokenInput.trim();
+
+  const run = async (action: AdminAction) => {
+    if (isWithdrawalAction(action)) {
+      setConfirming({ action, current: await readAffectedValue(action) });
+      return;
+    }
+    const entry = await execute(action);
+    if (entry) refetch();
+  };
+
+  const confirm = async () => {
+    if (!confirming) return;
+    const { action } = confirming;
+    setConfirming(null);
+    const entry = await execute(action);
+    if (entry) refetch();
+  };
+
+  const reserveAction = (name: 'depositPayoutReserves' | 'withdrawPayoutReserves'): AdminAction | undefined => {
+    const amount = reserve ? parseAmount(reserveAmount, reserve.token.decimals) : undefined;
+    if (!reserve || amount === undefined) return undefined;
+    return { name, token: reserve.token.address, symbol: reserve.token.symbol, decimals: reserve.token.decimals, amount };
+  };
+
+  const liquidityAction = (name: 'depositHouseLiquidity' | 'withdrawHouseLiquidity'): AdminAction | undefined => {
+    const amount = liquidity ? parseAmount(liquidityAmount, liquidity.decimals) : undefined;
+    if (!liquidity || amount === undefined) return undefined;
+    return { name, token: liquidity.address, symbol: liquidity.symbol, decimals: liquidity.decimals, amount };
+  };
+
+  const entropyAction = (name: 'depositEntropyFunds' | 'withdrawEntropyFunds'): AdminAction | undefined => {
+    const amount = parseAmount(entropyAmount, 18);
+    return amount !== undefined ? { name, amount } : undefined;
+  };
+
+  const actionButton = (label: string, action: AdminAction | undefined, variant: 'primary' | 'danger' = 'primary') => (
+    <button onClick={() => action && run(action)} disabled={busy || !action} className={buttonClass(variant)}>
+      {action && pendingAction === action.name ? 'Pending...' : label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-xs text-red-500 break-words">{error}</div>}
+
+      {/* Deposit tokens */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-2 ${valueClass}`}>Deposit Tokens</h2>
+        <div className={`text-xs mb-3 space-y-0.5 ${labelClass}`}>
+          {supportedTokens.length === 0 ? 'No tokens supported' : supportedTokens.map(t => <div key={t} className="font-mono">{t}</div>)}
+        </div>
+        <div className="space-y-2">
+          <input placeholder="Token address" value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} className={inputClass} />
+          <input placeholder="Uniswap V3 token/WETH pool (addToken only)" value={poolInput} onChange={(e) => setPoolInput(e.target.value)} className={inputClass} />
+          <div className="flex gap-2">
+            {actionButton('addWeth', { name: 'addWeth' })}
+            {actionButton('addStablecoin', isAddress(token) ? { name: 'addStablecoin', token } : undefined)}
+          </div>
+          <div className="flex gap-2">
+            {actionButton('addToken', isAddress(token) && isAddress(pool) ? { name: 'addToken', token, pool } : undefined)}
+            {actionButton('removeToken', isAddress(token) ? { name: 'removeToken', token } : undefined, 'danger')}
+          </div>
+        </div>
+      </div>
+
+      {/* Mock pricing */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>Mock Token Pricing</h2>
+        <div className="space-y-2">
+          <input placeholder="Token address" value={mockTokenInput} onChange={(e) => setMockTokenInput(e.target.value)} className={inputClass} />
+          <label className={`flex items-center gap-2 text-sm ${valueClass}`}>
+            <input type="checkbox" checked={mockFlag} onChange={(e) => setMockFlag(e.target.checked)} />
+            Use fixed testnet pricing
+          </label>
+          <div className="flex gap-2">
+            {actionButton('setMockToken', isAddress(mockToken) ? { name: 'setMockToken', token: mockToken, isMock: mockFlag } : undefined)}
+          </div>
+        </div>
+      </div>
+
+      {/* Payout reserves */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>Payout Reserves</h2>
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <select value={reserveIndex} onChange={(e) => setReserveIndex(Number(e.target.value))} className={inputClass}>
+            {payoutReserves.map((r, i) => <option key={r.token.address} value={i}>{r.token.symbol}</option>)}
+          </select>
+          <input inputMode="decimal" placeholder="Amount" value={reserveAmount} onChange={(e) => setReserveAmount(e.target.value)} className={inputClass} />
+        </div>
+        <div className={`text-xs mb-2 ${labelClass}`}>
+          Current: {reserve ? `${formatUnits(reserve.amount, reserve.token.decimals)} ${reserve.token.symbol}` : '—'}
+        </div>
+        <div className="flex gap-2">
+          {actionButton('Deposit', reserveAction('depositPayoutReserves'))}
+          {actionButton('Withdraw', reserveAction('withdrawPayoutReserves'), 'danger')}
+        </div>
+      </div>
+
+      {/* House liquidity */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>House Liquidity</h2>
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <select value={liquidityIndex} onChange={(e) => setLiquidityIndex(Number(e.target.value))} className={inputClass}>
+            {houseLiquidity.map((l, i) => <option key={l.address} value={i}>{l.symbol}</option>)}
+          </select>
+          <input inputMode="decimal" placeholder="Amount" value={liquidityAmount} onChange={(e) => setLiquidityAmount(e.target.value)} className={inputClass} />
+        </div>
+        <div className={`text-xs mb-2 ${labelClass}`}>
+          Current: {liquidity ? `${formatUnits(liquidity.amount, liquidity.decimals)} ${liquidity.symbol}` : '—'}
+        </div>
+        <div className="flex gap-2">
+          {actionButton('Deposit', liquidityAction('depositHouseLiquidity'))}
+          {actionButton('Withdraw', liquidityAction('withdrawHouseLiquidity'), 'danger')}
+        </div>
+      </div>
+
+      {/* Entropy funds */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>Entropy Funds</h2>
+        <input inputMode="decimal" placeholder="Amount (ETH)" value={entropyAmount} onChange={(e) => setEntropyAmount(e.target.value)} className={`${inputClass} mb-2`} />
+        <div className={`text-xs mb-2 ${labelClass}`}>
+          Current: {entropyBalance !== undefined ? `${formatEther(entropyBalance)} ETH` : '—'}
+        </div>
+        <div className="flex gap-2">
+          {actionButton('Deposit', entropyAction('depositEntropyFunds'))}
+          {actionButton('Withdraw', entropyAction('withdrawEntropyFunds'), 'danger')}
+        </div>
+      </div>
+
+      {/* Audit log */}
+      <div className={cardClass}>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className={`font-bold ${valueClass}`}>Audit Log</h2>
+          {auditLog.length > 0 && (
+            <button onClick={clearAuditLog} className={`text-xs underline ${labelClass}`}>Clear</button>
+          )}
+        </div>
+        {auditLog.length === 0 && <div className={`text-sm ${labelClass}`}>No admin transactions from this browser yet</div>}
+        <div className="space-y-2">
+          {auditLog.map((entry) => (
+            <div key={entry.transactionHash} className={`rounded-lg px-3 py-2 text-xs ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div className="flex justify-between gap-2">
+                <span className={`font-mono break-all ${valueClass}`}>{entry.summary}</span>
+                <a
+                  href={getExplorerTxUrl(chainId, entry.transactionHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`shrink-0 ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-500'}`}
+                >
+                  {new Date(entry.timestamp).toLocaleString()}
+                </a>
+              </div>
+              <div className={labelClass}>{entry.before} → {entry.after}</div>
+              {entry.events.map((event, i) => (
+                <div key={i} className={labelClass}>
+                  {event.name}({Object.values(event.args).join(', ')})
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Withdrawal confirmation */}
+      {confirming && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => setConfirming(null)}>
+          <div
+            className={`rounded-2xl p-6 max-w-sm w-full ${darkMode ? 'bg-gray-800' : 'bg-white'}`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className={`text-lg font-bold mb-2 ${valueClass}`}>Confirm Withdrawal</h3>
+            <p className={`text-sm font-mono break-all mb-2 ${valueClass}`}>{describeAdminAction(confirming.action)}</p>
+            <p className={`text-sm mb-4 ${labelClass}`}>Current: {confirming.current}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setConfirming(null)}
+                className={`flex-1 py-2 rounded-lg font-medium ${
+                  darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-900 hover:bg-gray-300'
+                }`}
+              >
+                Cancel
+              </button>
+              <button onClick={confirm} className="flex-1 py-2 rounded-lg font-medium text-white bg-red-600 hover:bg-red-500">
+                Withdraw
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import type { WritePreview } from '@/lib/preflight';
+import { formatTokenAmount } from './SevenElevenGame';
+
+interface ConfirmWriteSheetProps {
+  darkMode: boolean;
+  title: string;
+  confirmLabel: string;
+  preview: WritePreview | null;        // null while the simulation runs
+  error: string | null;                // Predicted revert; blocks confirming
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Shows the balances a write is simulated to leave behind before the wallet prompts
+export function ConfirmWriteSheet({ darkMode, title, confirmLabel, preview, error, onConfirm, onCancel }: ConfirmWriteSheetProps) {
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div
+        className={`rounded-2xl p-6 max-w-sm w-full ${darkMode ? 'bg-gray-800' : 'bg-white'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className={`text-lg font-bold mb-4 ${valueClass}`}>{title}</h3>
+
+        {!preview && !error && (
+          <p className={`text-sm mb-4 ${labelClass}`}>Simulating...</p>
+        )}
+
+        {preview && preview.changes.length > 0 && (
+          <div className="mb-4 space-y-1">
+            {preview.changes.map(change => {
+              const delta = change.after - change.before;
+              return (
+                <div key={`${change.label}-${change.symbol}`} className="flex justify-between text-sm">
+                  <span className={labelClass}>{change.label} {change.symbol}</span>
+                  <span className={`font-mono ${valueClass}`}>
+                    {formatTokenAmount(formatUnits(change.before, change.decimals))}
+                    {' → '}
+                    <span className={delta >= BigInt(0) ? 'text-green-500' : 'text-red-500'}>
+                      {formatTokenAmount(formatUnits(change.after, change.decimals))}
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {preview && !preview.simulated && (
+          <p className={`text-xs mb-4 ${labelClass}`}>
+            This network can&apos;t preview balance changes. The transaction is still checked before your wallet prompts.
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 text-red-500 text-sm">This would fail: {error}</div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className={`flex-1 py-2 rounded-lg font-medium ${
+              darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-900 hover:bg-gray-300'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!preview || !!error}
+            className={`flex-1 py-2 rounded-lg font-medium disabled:opacity-50 ${
+              darkMode ? 'bg-green-600 text-white hover:bg-green-500' : 'bg-green-500 text-white hover:bg-green-400'
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
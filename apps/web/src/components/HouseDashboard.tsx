@@ -0,0 +1,170 @@
+'use client';
+
+import { useChainId } from 'wagmi';
+import { formatEther, formatUnits } from 'viem';
+import { useHouseSolvency } from '@/hooks/useHouseSolvency';
+import { CHAIN_ID } from '@/lib/contracts';
+
+interface HouseDashboardProps {
+  darkMode: boolean;
+}
+
+// Max payouts a reserve should cover before we top it up
+const LOW_COVERAGE_PAYOUTS = BigInt(100);
+
+function formatTokens(amount: bigint, decimals: number): string {
+  const value = Number(formatUnits(amount, decimals));
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  return value.toFixed(value < 1 ? 6 : 2);
+}
+
+function formatCents(cents: bigint | undefined): string {
+  if (cents === undefined) return '—';
+  return `$${(Number(cents) / 100).toFixed(2)}`;
+}
+
+function getExplorerTxUrl(chainId: number, hash: string): string {
+  const base = chainId === CHAIN_ID.BASE_MAINNET ? 'https://basescan.org' : 'https://sepolia.basescan.org';
+  return `${base}/tx/${hash}`;
+}
+
+export function HouseDashboard({ darkMode }: HouseDashboardProps) {
+  const chainId = useChainId();
+  const {
+    isAvailable,
+    payoutReserves,
+    houseLiquidity,
+    entropyBalance,
+    entropyFee,
+    entropyRollsCovered,
+    thresholdCents,
+    lowEvents,
+    isLoading,
+    isLoadingEvents,
+    eventsError,
+    refetch,
+  } = useHouseSolvency();
+
+  const cardClass = `rounded-xl p-4 ${darkMode ? 'bg-gray-800' : 'bg-white shadow'}`;
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+
+  if (!isAvailable) {
+    return (
+      <div className={`${cardClass} text-center text-sm ${labelClass}`}>
+        No SevenEleven contract on this network (or test mode is on).
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className={`text-xs ${labelClass}`}>
+          Low below {formatCents(thresholdCents / BigInt(3))} per token
+        </span>
+        <button
+          onClick={refetch}
+          className={`text-xs px-3 py-1 rounded-lg ${darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-900 hover:bg-gray-300'}`}
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {/* Payout reserves */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>Payout Reserves</h2>
+        <div className="space-y-2">
+          {payoutReserves.map((reserve) => {
+            const lowCoverage = reserve.payoutsCovered !== undefined && reserve.payoutsCovered < LOW_COVERAGE_PAYOUTS;
+            return (
+              <div key={reserve.token.address} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <img src={reserve.token.icon} alt={reserve.token.symbol} className="w-6 h-6 rounded-full" />
+                  <span className={`font-medium ${valueClass}`}>{reserve.token.symbol}</span>
+                  {reserve.isLow && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-red-500 text-white">LOW</span>
+                  )}
+                </div>
+                <div className="text-right">
+                  <div className={valueClass}>
+                    {formatTokens(reserve.amount, reserve.token.decimals)} <span className={labelClass}>({formatCents(reserve.valueCents)})</span>
+                  </div>
+                  <div className={`text-xs ${lowCoverage ? 'text-red-500' : labelClass}`}>
+                    {reserve.payoutsCovered !== undefined ? `${reserve.payoutsCovered.toString()} max doubles payouts` : 'coverage unknown'}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* House liquidity */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>House Liquidity</h2>
+        <div className="space-y-1 text-sm">
+          {houseLiquidity.map((liquidity) => (
+            <div key={liquidity.address} className="flex justify-between">
+              <span className={labelClass}>{liquidity.symbol}</span>
+              <span className={valueClass}>{formatTokens(liquidity.amount, liquidity.decimals)}</span>
+            </div>
+          ))}
+        </div>
+        <div className={`text-xs mt-2 ${labelClass}`}>Lost bets accumulated per deposit token</div>
+      </div>
+
+      {/* Entropy funding */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-3 ${valueClass}`}>Entropy Funding</h2>
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className={labelClass}>Contract ETH</span>
+            <span className={valueClass}>{entropyBalance !== undefined ? `${formatEther(entropyBalance)} ETH` : '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className={labelClass}>Fee per roll</span>
+            <span className={valueClass}>{entropyFee !== undefined ? `${formatEther(entropyFee)} ETH` : '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className={labelClass}>Rolls funded</span>
+            <span className={entropyRollsCovered !== undefined && entropyRollsCovered < LOW_COVERAGE_PAYOUTS ? 'text-red-500 font-bold' : valueClass}>
+              {entropyRollsCovered !== undefined ? entropyRollsCovered.toString() : '—'}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {/* Low reserve history */}
+      <div className={cardClass}>
+        <h2 className={`font-bold mb-1 ${valueClass}`}>Low Reserve Crossings</h2>
+        <div className={`text-xs mb-3 ${labelClass}`}>
+          The deployed contract never emits ReservesLow, so these are worked out from payouts, skims and reserve top-ups at today&apos;s prices
+        </div>
+        {isLoadingEvents && <div className={`text-xs animate-pulse ${labelClass}`}>Scanning logs...</div>}
+        {eventsError && <div className="text-xs text-red-500">{eventsError}</div>}
+        {!isLoadingEvents && lowEvents.length === 0 && (
+          <div className={`text-sm ${labelClass}`}>No reserve dropped below its threshold in the recent block range</div>
+        )}
+        <div className="space-y-1">
+          {lowEvents.map((event) => (
+            <div key={`${event.transactionHash}-${event.token}`} className="flex justify-between text-xs">
+              <span className={valueClass}>
+                {event.symbol}: {formatTokens(event.amount, 18)} / {formatTokens(event.threshold, 18)}
+              </span>
+              <a
+                href={getExplorerTxUrl(chainId, event.transactionHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-500'}
+              >
+                #{event.blockNumber.toString()}
+              </a>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
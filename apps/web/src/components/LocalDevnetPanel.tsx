@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocalDevnet } from '@/hooks/useLocalDevnet';
+
+interface LocalDevnetPanelProps {
+  darkMode: boolean;
+  playerAddress: `0x${string}` | undefined;
+}
+
+// Only on the anvil profile: MockEntropy never calls back on its own, so rolls are revealed from here
+export function LocalDevnetPanel({ darkMode, playerAddress }: LocalDevnetPanelProps) {
+  const { isAvailable, pendingRolls, reveal, mintUsdc, refreshPriceFeed, busyAction, error } =
+    useLocalDevnet(playerAddress);
+  const [showTools, setShowTools] = useState(false);
+
+  if (!isAvailable) return null;
+
+  const buttonClass = `px-2 py-1 rounded font-medium disabled:opacity-50 ${
+    darkMode ? 'bg-purple-700 hover:bg-purple-600 text-white' : 'bg-purple-500 hover:bg-purple-400 text-white'
+  }`;
+
+  return (
+    <div className={`flex flex-col items-center gap-1 max-w-xs rounded-lg px-3 py-1.5 text-xs shadow ${
+      darkMode ? 'bg-gray-700/90 text-gray-100' : 'bg-white/90 text-gray-700'
+    }`}>
+      {pendingRolls.map((sequenceNumber) => (
+        <div key={sequenceNumber.toString()} className="flex items-center gap-2">
+          <span>Roll #{sequenceNumber.toString()} awaiting entropy</span>
+          <button onClick={() => reveal(sequenceNumber)} disabled={!!busyAction} className={buttonClass}>
+            Reveal
+          </button>
+          <button onClick={() => reveal(sequenceNumber, [3, 4])} disabled={!!busyAction} className={buttonClass}>
+            As 7
+          </button>
+          <button onClick={() => reveal(sequenceNumber, [2, 2])} disabled={!!busyAction} className={buttonClass}>
+            As 2+2
+          </button>
+        </div>
+      ))}
+      <button onClick={() => setShowTools(!showTools)} className="underline opacity-70">
+        {showTools ? 'Hide devnet tools' : 'Devnet tools'}
+      </button>
+      {showTools && (
+        <div className="flex gap-2">
+          <button onClick={mintUsdc} disabled={!!busyAction} className={buttonClass}>
+            Mint 100 USDC
+          </button>
+          <button onClick={refreshPriceFeed} disabled={!!busyAction} className={buttonClass}>
+            Refresh ETH price
+          </button>
+        </div>
+      )}
+      {busyAction && <div className="opacity-70">{busyAction}...</div>}
+      {error && <div className="text-red-500 break-all">{error}</div>}
+    </div>
+  );
+}
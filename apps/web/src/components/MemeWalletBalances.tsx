@@ -7,6 +7,8 @@ import { GoldCoinExplosion } from './GoldCoinExplosion';
 
 interface MemeWalletBalancesProps {
   darkMode: boolean;
+  /** Player account whose wallet receives payouts (defaults to the connected wallet) */
+  playerAddress?: `0x${string}`;
   /** Trigger animation immediately on win (increment to trigger) */
   winTrigger?: number;
   /** Optimistic payouts from RollSettled event for instant display */
@@ -107,12 +109,13 @@ function AnimatedBalanceItem({
 
 export function MemeWalletBalances({
   darkMode,
+  playerAddress,
   winTrigger = 0,
   optimisticPayouts,
   onOptimisticPayoutsCleared,
 }: MemeWalletBalancesProps) {
   const { isConnected } = useAccount();
-  const { balances } = useMemeWalletBalances();
+  const { balances } = useMemeWalletBalances(playerAddress);
 
   // Track previous win trigger to detect new wins
   const prevWinTriggerRef = useRef(winTrigger);
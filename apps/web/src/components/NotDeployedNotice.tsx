@@ -0,0 +1,42 @@
+'use client';
+
+import { useSwitchChain } from 'wagmi';
+import { useDeployment } from '@/hooks/useDeployment';
+import { isSevenElevenDeployed } from '@/lib/deployments';
+
+interface NotDeployedNoticeProps {
+  darkMode: boolean;
+}
+
+// Shown instead of the game when the deployment manifest has no SevenEleven for the connected chain
+export function NotDeployedNotice({ darkMode }: NotDeployedNoticeProps) {
+  const { chainId, deployment } = useDeployment();
+  const { chains, switchChain, isPending } = useSwitchChain();
+  const deployedChains = chains.filter(chain => chain.id !== chainId && isSevenElevenDeployed(chain.id));
+  const networkName = deployment?.name ?? chains.find(chain => chain.id === chainId)?.name ?? `chain ${chainId}`;
+
+  return (
+    <div className={`rounded-xl px-4 py-3 text-sm text-center shadow-lg max-w-xs ${
+      darkMode ? 'bg-gray-700 text-gray-200' : 'bg-white text-gray-700'
+    }`}>
+      <div className="font-medium">Not deployed on {networkName}</div>
+      <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        The game contract isn&apos;t live on this network yet.
+      </div>
+      {deployedChains.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mt-3">
+          {deployedChains.map(chain => (
+            <button
+              key={chain.id}
+              onClick={() => switchChain({ chainId: chain.id })}
+              disabled={isPending}
+              className="text-xs px-3 py-1.5 rounded-lg font-medium bg-blue-500 hover:bg-blue-400 text-white disabled:opacity-50"
+            >
+              Switch to {chain.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useGameEconomics } from '@/hooks/useGameEconomics';
+import { usePayoutTokens, useTokenPrices } from '@/hooks/useSevenEleven';
+import { getExpectedValue, getOutcomeOdds, simulateBankroll, type BankrollSimulation } from '@/lib/odds';
+import { splitPayoutCents, WINNING_COMBINATIONS } from '@/lib/rules';
+
+interface OddsPanelProps {
+  darkMode: boolean;
+  onClose: () => void;
+  /** Live getBetAmount for the selected deposit token */
+  betAmountFormatted: string;
+  betTokenSymbol: string;
+}
+
+const SIMULATION_TRIALS = 500;
+const MAX_ROLLS = 1000;
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 60;
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toFixed(Math.abs(value) < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  return value.toFixed(2);
+}
+
+// p10-p90 and p25-p75 bands with the median and mean drawn on top
+function BankrollChart({ simulation, darkMode }: { simulation: BankrollSimulation; darkMode: boolean }) {
+  const steps = simulation.p50.length - 1;
+  const max = Math.max(...simulation.p90, ...simulation.expected) || 1;
+  const x = (step: number) => (steps > 0 ? (step / steps) * CHART_WIDTH : 0);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+
+  const line = (values: number[]) => values.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+  const band = (lower: number[], upper: number[]) =>
+    [...upper.map((v, i) => `${x(i)},${y(v)}`), ...lower.map((v, i) => `${x(i)},${y(v)}`).reverse()].join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32">
+      <polygon points={band(simulation.p10, simulation.p90)} className={darkMode ? 'fill-purple-500/20' : 'fill-purple-300/30'} />
+      <polygon points={band(simulation.p25, simulation.p75)} className={darkMode ? 'fill-purple-500/40' : 'fill-purple-400/40'} />
+      <polyline
+        points={line(simulation.p50)}
+        fill="none"
+        vectorEffect="non-scaling-stroke"
+        strokeWidth={1.5}
+        className={darkMode ? 'stroke-purple-300' : 'stroke-purple-700'}
+      />
+      <polyline
+        points={line(simulation.expected)}
+        fill="none"
+        strokeDasharray="2 1"
+        vectorEffect="non-scaling-stroke"
+        className={darkMode ? 'stroke-yellow-300' : 'stroke-yellow-600'}
+      />
+    </svg>
+  );
+}
+
+export function OddsPanel({ darkMode, onClose, betAmountFormatted, betTokenSymbol }: OddsPanelProps) {
+  const { economics, isLive } = useGameEconomics();
+  const payoutTokens = usePayoutTokens();
+  const { prices } = useTokenPrices();
+  const [bankrollInput, setBankrollInput] = useState('4.00');
+  const [rollsInput, setRollsInput] = useState('100');
+
+  const odds = getOutcomeOdds();
+  const ev = useMemo(() => getExpectedValue(economics), [economics]);
+
+  const bankrollUsd = Math.max(0, parseFloat(bankrollInput) || 0);
+  const rolls = Math.min(MAX_ROLLS, Math.max(1, parseInt(rollsInput, 10) || 1));
+
+  const simulation = useMemo(
+    () => simulateBankroll({ bankrollUsd, rolls, trials: SIMULATION_TRIALS, ev }),
+    [bankrollUsd, rolls, ev]
+  );
+
+  // Meme tokens a win pays at the current price (profit split in thirds)
+  const memePayout = (profitCents: bigint) => {
+    const split = splitPayoutCents(profitCents);
+    const parts = [split.mfer, split.bnkr, split.drb];
+    return payoutTokens.slice(0, 3).map((token, i) => {
+      const priceCents = prices[token.symbol]?.priceUsdCents;
+      return {
+        symbol: token.symbol,
+        amount: priceCents && priceCents > BigInt(0) ? Number(parts[i]) / Number(priceCents) : undefined,
+      };
+    });
+  };
+
+  const doublesProfitCents = (economics.betUsdCents * economics.winDoublesBps) / economics.bpsDenominator;
+  const sevenOrElevenProfitCents = (economics.betUsdCents * economics.win711Bps) / economics.bpsDenominator;
+  const lossCombinations = WINNING_COMBINATIONS.total - WINNING_COMBINATIONS.doubles - WINNING_COMBINATIONS.sevenOrEleven;
+
+  const rows = [
+    {
+      label: 'Doubles',
+      combinations: WINNING_COMBINATIONS.doubles,
+      probability: odds.doubles,
+      result: `+${formatUsd(ev.doublesProfitUsd)}`,
+      tokens: memePayout(doublesProfitCents),
+    },
+    {
+      label: '7 or 11',
+      combinations: WINNING_COMBINATIONS.sevenOrEleven,
+      probability: odds.sevenOrEleven,
+      result: `+${formatUsd(ev.sevenOrElevenProfitUsd)}`,
+      tokens: memePayout(sevenOrElevenProfitCents),
+    },
+    {
+      label: 'Loss',
+      combinations: lossCombinations,
+      probability: odds.loss,
+      result: formatUsd(-ev.betUsd),
+      tokens: [],
+    },
+  ];
+
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+  const inputClass = `w-full px-3 py-1.5 rounded-lg border text-sm ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const finalIndex = simulation.p50.length - 1;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto ${darkMode ? 'bg-gray-800' : 'bg-white'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className={`text-lg font-bold mb-1 ${valueClass}`}>Odds &amp; Expected Value</h3>
+        <p className={`text-xs mb-4 ${labelClass}`}>
+          Bet {formatUsd(ev.betUsd)} ({betAmountFormatted} {betTokenSymbol})
+          {isLive ? ' · read from the contract' : ' · default rules'}
+        </p>
+
+        {/* Outcome table */}
+        <div className="space-y-2 mb-4">
+          {rows.map((row) => (
+            <div key={row.label} className={`rounded-lg px-3 py-2 text-sm ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div className="flex justify-between">
+                <span className={`font-medium ${valueClass}`}>{row.label}</span>
+                <span className={labelClass}>
+                  {row.combinations}/{WINNING_COMBINATIONS.total} = {(row.probability * 100).toFixed(2)}%
+                </span>
+                <span className={row.label === 'Loss' ? 'text-red-500' : darkMode ? 'text-green-400' : 'text-green-600'}>
+                  {row.result}
+                </span>
+              </div>
+              {row.tokens.length > 0 && (
+                <div className={`text-xs mt-1 ${labelClass}`}>
+                  {row.tokens.map(t => `${t.amount !== undefined ? formatTokens(t.amount) : '—'} ${t.symbol}`).join(' + ')}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className={`text-sm text-center mb-4 ${valueClass}`}>
+          Expected return per roll: <strong className="text-red-500">{formatUsd(ev.expectedUsdPerRoll)}</strong>
+          <span className={`ml-1 ${labelClass}`}>(house edge {(ev.houseEdge * 100).toFixed(2)}%)</span>
+        </div>
+
+        {/* Bankroll simulation */}
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <label className={`text-xs ${labelClass}`}>
+            Bankroll (USD)
+            <input type="text" inputMode="decimal" value={bankrollInput} onChange={(e) => setBankrollInput(e.target.value)} className={inputClass} />
+          </label>
+          <label className={`text-xs ${labelClass}`}>
+            Rolls (max {MAX_ROLLS})
+            <input type="text" inputMode="numeric" value={rollsInput} onChange={(e) => setRollsInput(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        <BankrollChart simulation={simulation} darkMode={darkMode} />
+        <div className={`flex justify-between text-[10px] mt-1 mb-3 ${labelClass}`}>
+          <span>Bands: 10-90% / 25-75%</span>
+          <span>Line: median</span>
+          <span>Dashed: mean</span>
+        </div>
+
+        <div className={`grid grid-cols-3 gap-2 text-center text-xs mb-4 ${labelClass}`}>
+          <div>
+            <div className={`font-bold text-sm ${valueClass}`}>{formatUsd(simulation.p50[finalIndex])}</div>
+            Median after {rolls}
+          </div>
+          <div>
+            <div className={`font-bold text-sm ${valueClass}`}>
+              {formatUsd(simulation.p10[finalIndex])} – {formatUsd(simulation.p90[finalIndex])}
+            </div>
+            10-90% range
+          </div>
+          <div>
+            <div className={`font-bold text-sm ${valueClass}`}>{(simulation.bustRate * 100).toFixed(0)}%</div>
+            Ran out of balance
+          </div>
+        </div>
+        <p className={`text-xs mb-4 ${labelClass}`}>
+          Value = Game Balance + meme winnings at today&apos;s prices. {SIMULATION_TRIALS} simulated players.
+        </p>
+
+        <button
+          onClick={onClose}
+          className={`w-full py-2 rounded-lg font-medium ${
+            darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-900 hover:bg-gray-300'
+          }`}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import type { TrackedRoll } from '@/hooks/usePendingRolls';
+import { isWinningOutcome } from '@/lib/rules';
+
+interface PendingRollsProps {
+  rolls: TrackedRoll[];
+  darkMode: boolean;
+  onDismiss: (sequenceNumber: bigint) => void;
+}
+
+function describeRoll(roll: TrackedRoll): string {
+  if (roll.result) {
+    const { die1, die2, rollOutcome } = roll.result;
+    const outcome = isWinningOutcome(rollOutcome) ? 'WIN' : 'loss';
+    const label = roll.status === 'orphaned' ? 'from another session' : 'settled late';
+    return `Roll #${roll.sequenceNumber} ${label}: ${die1}+${die2}=${die1 + die2} ${outcome}`;
+  }
+  if (roll.status === 'stale') {
+    const minutes = Math.floor((Date.now() - roll.requestedAt) / 60000);
+    return `Roll #${roll.sequenceNumber} still unsettled after ${minutes}m`;
+  }
+  return `Roll #${roll.sequenceNumber} waiting for result`;
+}
+
+// Rolls that settled (or stalled) outside the current dice animation
+export function PendingRolls({ rolls, darkMode, onDismiss }: PendingRollsProps) {
+  if (rolls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-1 max-w-xs">
+      {rolls.map((roll) => (
+        <div
+          key={roll.sequenceNumber.toString()}
+          className={`flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs shadow ${
+            roll.status === 'stale' || roll.status === 'orphaned'
+              ? darkMode ? 'bg-yellow-800/90 text-yellow-100' : 'bg-yellow-100 text-yellow-800'
+              : darkMode ? 'bg-gray-600/90 text-gray-100' : 'bg-white/90 text-gray-700'
+          }`}
+        >
+          <span>{describeRoll(roll)}</span>
+          {roll.status !== 'pending' && (
+            <button
+              onClick={() => onDismiss(roll.sequenceNumber)}
+              className="font-bold opacity-70 hover:opacity-100"
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
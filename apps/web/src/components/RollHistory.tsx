@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { formatUnits } from 'viem';
+import { useRollHistory } from '@/hooks/useRollHistory';
+import { useLedgerExport } from '@/hooks/useLedgerExport';
+import { useDepositTokens, type SupportedToken } from '@/hooks/useSevenEleven';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { SessionHistory } from './SessionHistory';
+import { RollOutcome } from '@/lib/contracts';
+import type { RollHistoryEntry } from '@/lib/rollHistory';
+
+interface RollHistoryProps {
+  darkMode: boolean;
+  playerAddress?: `0x${string}`;  // Smart wallet in account mode; defaults to the connected wallet
+}
+
+// Rows rendered in the panel (newest first)
+const PAGE_SIZE = 20;
+
+function formatMeme(amount: bigint): string {
+  const value = Number(formatUnits(amount, 18));
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  return value.toFixed(2);
+}
+
+function formatTime(ms: number | undefined): string {
+  if (!ms) return '';
+  const date = new Date(ms);
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+// Game Balance left in the rolled token
+function formatBalance(amount: bigint, token: SupportedToken): string {
+  return `${Number(formatUnits(amount, token.decimals)).toFixed(token.isStablecoin ? 2 : 5)} ${token.symbol}`;
+}
+
+function outcomeLabel(entry: RollHistoryEntry): string {
+  if (!entry.settled) return 'Pending';
+  if (entry.settled.rollOutcome === RollOutcome.Doubles) return 'Doubles';
+  if (entry.settled.rollOutcome === RollOutcome.Win) return '7/11';
+  return 'Loss';
+}
+
+// Every roll the player has made, newest first
+export function RollHistory({ darkMode, playerAddress }: RollHistoryProps) {
+  const { entries, sessions, isSyncing, error } = useRollHistory(playerAddress);
+  const depositTokens = useDepositTokens();
+  // Balance in RollSettled is the Game Balance of the token the roll was placed with
+  const tokenOf = (entry: RollHistoryEntry) =>
+    entry.token && depositTokens.find(token => token.address.toLowerCase() === entry.token!.toLowerCase());
+  const [view, setView] = useState<'rolls' | 'sessions'>('rolls');
+  const { exportLedger, isExporting, progress, error: exportError } = useLedgerExport(playerAddress);
+
+  const summary = useMemo(() => {
+    let wins = 0;
+    let doubles = 0;
+    let losses = 0;
+    for (const entry of entries) {
+      if (!entry.settled) continue;
+      if (entry.settled.rollOutcome === RollOutcome.Doubles) doubles++;
+      else if (entry.settled.rollOutcome === RollOutcome.Win) wins++;
+      else losses++;
+    }
+    const total = wins + doubles + losses;
+    return { wins, doubles, losses, winRate: total > 0 ? ((wins + doubles) * 100) / total : 0 };
+  }, [entries]);
+
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`rounded-xl p-4 mt-2 ${darkMode ? 'bg-gray-700/80' : 'bg-gray-100'}`}>
+      {/* Summary row */}
+      <div className="grid grid-cols-4 gap-2 text-center text-xs mb-3">
+        <div>
+          <div className={`font-bold text-sm ${darkMode ? 'text-green-400' : 'text-green-600'}`}>{summary.wins}</div>
+          <div className={labelClass}>7/11</div>
+        </div>
+        <div>
+          <div className={`font-bold text-sm ${darkMode ? 'text-purple-400' : 'text-purple-600'}`}>{summary.doubles}</div>
+          <div className={labelClass}>Doubles</div>
+        </div>
+        <div>
+          <div className={`font-bold text-sm ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{summary.losses}</div>
+          <div className={labelClass}>Losses</div>
+        </div>
+        <div>
+          <div className={`font-bold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>{summary.winRate.toFixed(1)}%</div>
+          <div className={labelClass}>Win Rate</div>
+        </div>
+      </div>
+
+      {/* Rolls / Sessions tabs */}
+      <div className="flex justify-center gap-2 mb-3 text-xs">
+        {(['rolls', 'sessions'] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setView(tab)}
+            className={`px-3 py-1 rounded-full font-medium capitalize ${
+              view === tab
+                ? 'bg-purple-600 text-white'
+                : darkMode ? 'bg-gray-600 text-gray-300' : 'bg-white text-gray-600'
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+
+      {isSyncing && (
+        <div className={`text-xs text-center mb-2 animate-pulse ${labelClass}`}>Loading history from chain...</div>
+      )}
+      {error && <div className="text-xs text-center mb-2 text-red-500">{error}</div>}
+
+      {view === 'sessions' ? (
+        <SessionHistory sessions={sessions} rolls={entries} darkMode={darkMode} depositTokens={depositTokens} />
+      ) : entries.length === 0 && !isSyncing ? (
+        <div className={`text-sm text-center ${labelClass}`}>No rolls yet</div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {entries.slice(0, PAGE_SIZE).map((entry) => (
+            <div
+              key={entry.id}
+              className={`flex items-center justify-between text-xs rounded-lg px-2 py-1.5 ${
+                darkMode ? 'bg-gray-800/60' : 'bg-white'
+              }`}
+            >
+              <div className="flex flex-col">
+                <span className={`font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                  {entry.settled ? `${entry.settled.die1} + ${entry.settled.die2}` : '…'}
+                  <span
+                    className={`ml-2 ${
+                      !entry.settled ? labelClass
+                        : entry.settled.rollOutcome === RollOutcome.Loss
+                        ? darkMode ? 'text-red-400' : 'text-red-600'
+                        : darkMode ? 'text-green-400' : 'text-green-600'
+                    }`}
+                  >
+                    {outcomeLabel(entry)}
+                  </span>
+                </span>
+                <span className={labelClass}>#{entry.sequenceNumber.toString()} {formatTime(entry.requestedAt)}</span>
+              </div>
+              <div className={`text-right ${labelClass}`}>
+                {entry.settled && entry.settled.rollOutcome !== RollOutcome.Loss && (
+                  <div>
+                    +{formatMeme(entry.settled.mferPayout)} / {formatMeme(entry.settled.bnkrPayout)} / {formatMeme(entry.settled.drbPayout)}
+                  </div>
+                )}
+                {entry.settled && entry.settled.rollOutcome === RollOutcome.Loss && entry.settled.mferSkimmed > BigInt(0) && (
+                  <div>{formatMeme(entry.settled.mferSkimmed)} MFER to Grok</div>
+                )}
+                {entry.settled && tokenOf(entry) && (
+                  <div>Bal {formatBalance(entry.settled.playerBalance, tokenOf(entry)!)}</div>
+                )}
+              </div>
+            </div>
+          ))}
+          {entries.length > PAGE_SIZE && (
+            <div className={`text-xs text-center pt-1 ${labelClass}`}>
+              Showing latest {PAGE_SIZE} of {entries.length} rolls
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Ledger export (on-chain events only, so unavailable in test mode) */}
+      {!IS_TEST_MODE && (
+        <div className="mt-3 flex items-center justify-center gap-2 text-xs">
+          <span className={labelClass}>{isExporting ? `Exporting... ${progress}%` : 'Export ledger:'}</span>
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => exportLedger(format)}
+              disabled={isExporting}
+              className={`px-2 py-1 rounded font-medium uppercase disabled:opacity-50 ${
+                darkMode ? 'bg-gray-600 hover:bg-gray-500 text-white' : 'bg-white hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      )}
+      {exportError && <div className="text-xs text-center mt-2 text-red-500">{exportError}</div>}
+    </div>
+  );
+}
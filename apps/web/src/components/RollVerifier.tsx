@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { useChainId } from 'wagmi';
+import { useRollVerification } from '@/hooks/useRollVerification';
+import { CHAIN_ID, RollOutcome } from '@/lib/contracts';
+
+interface RollVerifierProps {
+  darkMode: boolean;
+  onClose: () => void;
+  /** Prefill with a known roll (e.g. the last settled one) */
+  initialSequenceNumber?: bigint;
+}
+
+const OUTCOME_LABELS: Record<RollOutcome, string> = {
+  [RollOutcome.Loss]: 'Loss',
+  [RollOutcome.Win]: '7/11 Win',
+  [RollOutcome.Doubles]: 'Doubles',
+};
+
+function getExplorerTxUrl(chainId: number, hash: string): string {
+  const base = chainId === CHAIN_ID.BASE_MAINNET ? 'https://basescan.org' : 'https://sepolia.basescan.org';
+  return `${base}/tx/${hash}`;
+}
+
+function shortHex(hex: string): string {
+  return `${hex.slice(0, 10)}...${hex.slice(-8)}`;
+}
+
+export function RollVerifier({ darkMode, onClose, initialSequenceNumber }: RollVerifierProps) {
+  const chainId = useChainId();
+  const { verify, result, isVerifying, error } = useRollVerification();
+  const [input, setInput] = useState(initialSequenceNumber?.toString() ?? '');
+
+  const isValidInput = /^\d+$/.test(input.trim());
+
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+  const linkClass = darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`rounded-2xl p-6 max-w-sm w-full ${darkMode ? 'bg-gray-800' : 'bg-white'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className={`text-lg font-bold mb-1 ${valueClass}`}>Verify a Roll</h3>
+        <p className={`text-xs mb-4 ${labelClass}`}>
+          Recomputes the dice from the Pyth Entropy random number:
+          die1 = rand % 6 + 1, die2 = (rand &gt;&gt; 128) % 6 + 1
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Sequence number"
+            className={`flex-1 px-3 py-2 rounded-lg border ${
+              darkMode
+                ? 'bg-gray-700 border-gray-600 text-white'
+                : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          />
+          <button
+            onClick={() => verify(BigInt(input.trim()))}
+            disabled={!isValidInput || isVerifying}
+            className={`py-2 px-4 rounded-lg font-medium disabled:opacity-50 ${
+              darkMode
+                ? 'bg-blue-600 text-white hover:bg-blue-500'
+                : 'bg-blue-500 text-white hover:bg-blue-400'
+            }`}
+          >
+            {isVerifying ? 'Checking...' : 'Verify'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 text-red-500 text-sm text-center">{error}</div>
+        )}
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className={labelClass}>Requested</span>
+              <a
+                href={getExplorerTxUrl(chainId, result.requestTxHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`font-mono text-xs ${linkClass}`}
+              >
+                {shortHex(result.requestTxHash)}
+              </a>
+            </div>
+
+            {result.isPending && (
+              <div className={`text-center ${labelClass}`}>Waiting for the entropy callback...</div>
+            )}
+
+            {result.settled && (
+              <>
+                <div className="flex justify-between">
+                  <span className={labelClass}>Settled</span>
+                  <a
+                    href={getExplorerTxUrl(chainId, result.settled.txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`font-mono text-xs ${linkClass}`}
+                  >
+                    {shortHex(result.settled.txHash)}
+                  </a>
+                </div>
+                <div className="flex justify-between">
+                  <span className={labelClass}>Emitted</span>
+                  <span className={`font-bold ${valueClass}`}>
+                    {result.settled.die1} + {result.settled.die2} ({OUTCOME_LABELS[result.settled.rollOutcome]})
+                  </span>
+                </div>
+              </>
+            )}
+
+            {result.reveal && (
+              <div className="flex justify-between">
+                <span className={labelClass}>
+                  Random number{result.reveal.source === 'mock' ? ' (mock)' : ''}
+                </span>
+                <span className={`font-mono text-xs ${valueClass}`} title={result.reveal.randomNumber}>
+                  {shortHex(result.reveal.randomNumber)}
+                </span>
+              </div>
+            )}
+
+            {result.recomputed && (
+              <div className="flex justify-between">
+                <span className={labelClass}>Recomputed</span>
+                <span className={`font-bold ${valueClass}`}>
+                  {result.recomputed.die1} + {result.recomputed.die2} ({OUTCOME_LABELS[result.recomputed.rollOutcome]})
+                </span>
+              </div>
+            )}
+
+            {result.settled && !result.reveal && (
+              <div className={`text-center ${labelClass}`}>Entropy reveal not found for this roll</div>
+            )}
+
+            {result.diceMatch !== undefined && (
+              <div
+                className={`mt-3 rounded-lg py-2 text-center font-bold ${
+                  result.diceMatch && result.outcomeMatch
+                    ? darkMode ? 'bg-green-900/40 text-green-400' : 'bg-green-100 text-green-700'
+                    : darkMode ? 'bg-red-900/40 text-red-400' : 'bg-red-100 text-red-700'
+                }`}
+              >
+                {result.diceMatch && result.outcomeMatch ? 'Verified: dice match' : 'Mismatch: dice do not match'}
+              </div>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className={`w-full mt-4 py-2 px-4 rounded-lg font-medium ${
+            darkMode
+              ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
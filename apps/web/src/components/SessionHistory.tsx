@@ -0,0 +1,157 @@
+'use client';
+
+import { useMemo } from 'react';
+import { formatUnits } from 'viem';
+import { buildSessionSummaries, type SessionSummary } from '@/lib/sessions';
+import { THEORETICAL_WIN_RATE, WINNING_COMBINATIONS } from '@/lib/rules';
+import type { RollHistoryEntry, SessionHistoryEntry } from '@/lib/rollHistory';
+import type { SupportedToken } from '@/hooks/useSevenEleven';
+
+interface SessionHistoryProps {
+  sessions: SessionHistoryEntry[];
+  rolls: RollHistoryEntry[];
+  darkMode: boolean;
+  depositTokens: SupportedToken[];
+}
+
+// Sessions drawn in the chart (most recent)
+const CHART_SESSIONS = 30;
+const CHART_HEIGHT = 80;
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '—';
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatMeme(amount: bigint): string {
+  const value = Number(formatUnits(amount, 18));
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toFixed(1);
+}
+
+// Net change of one deposit token, in that token
+function formatDelta(amount: bigint, token: SupportedToken | undefined): string {
+  const magnitude = amount < BigInt(0) ? -amount : amount;
+  const value = Number(formatUnits(magnitude, token?.decimals ?? 18));
+  return `${amount < BigInt(0) ? '-' : '+'}${value.toFixed(token?.isStablecoin ? 2 : 5)} ${token?.symbol ?? '?'}`;
+}
+
+// Per-session win rate bars, cumulative win rate line, theoretical 14/36 reference
+function WinRateChart({ summaries, darkMode }: { summaries: SessionSummary[]; darkMode: boolean }) {
+  const shown = summaries.filter(s => s.rolls > 0).slice(-CHART_SESSIONS);
+  if (shown.length === 0) return null;
+
+  const barWidth = 100 / shown.length;
+  const y = (rate: number) => CHART_HEIGHT - rate * CHART_HEIGHT;
+  const cumulative = shown
+    .map((s, i) => `${i * barWidth + barWidth / 2},${y(s.cumulativeWinRate)}`)
+    .join(' ');
+
+  return (
+    <div className="mb-3">
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20">
+        {shown.map((s, i) => (
+          <rect
+            key={s.sessionNumber.toString()}
+            x={i * barWidth + barWidth * 0.15}
+            y={y(s.winRate)}
+            width={barWidth * 0.7}
+            height={s.winRate * CHART_HEIGHT}
+            className={s.winRate >= THEORETICAL_WIN_RATE
+              ? darkMode ? 'fill-green-500/70' : 'fill-green-500/60'
+              : darkMode ? 'fill-red-500/70' : 'fill-red-400/60'}
+          />
+        ))}
+        <line
+          x1={0}
+          x2={100}
+          y1={y(THEORETICAL_WIN_RATE)}
+          y2={y(THEORETICAL_WIN_RATE)}
+          strokeDasharray="2 1"
+          vectorEffect="non-scaling-stroke"
+          className={darkMode ? 'stroke-yellow-300' : 'stroke-yellow-600'}
+        />
+        {shown.length > 1 && (
+          <polyline
+            points={cumulative}
+            fill="none"
+            vectorEffect="non-scaling-stroke"
+            strokeWidth={1.5}
+            className={darkMode ? 'stroke-white' : 'stroke-gray-800'}
+          />
+        )}
+      </svg>
+      <div className={`flex justify-between text-[10px] mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <span>Bars: session win rate</span>
+        <span>Line: cumulative</span>
+        <span>Dashed: {(THEORETICAL_WIN_RATE * 100).toFixed(1)}% ({WINNING_COMBINATIONS.doubles + WINNING_COMBINATIONS.sevenOrEleven}/{WINNING_COMBINATIONS.total})</span>
+      </div>
+    </div>
+  );
+}
+
+// Every past session, newest first
+export function SessionHistory({ sessions, rolls, darkMode, depositTokens }: SessionHistoryProps) {
+  const summaries = useMemo(
+    () => buildSessionSummaries(sessions, rolls, depositTokens),
+    [sessions, rolls, depositTokens]
+  );
+  const tokenOf = (key: string) => depositTokens.find(token => token.address.toLowerCase() === key);
+
+  const labelClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  if (summaries.length === 0) {
+    return <div className={`text-sm text-center ${labelClass}`}>No sessions yet</div>;
+  }
+
+  return (
+    <div>
+      <WinRateChart summaries={summaries} darkMode={darkMode} />
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {[...summaries].reverse().map((session) => (
+          <div
+            key={session.sessionNumber.toString()}
+            className={`text-xs rounded-lg px-2 py-1.5 ${darkMode ? 'bg-gray-800/60' : 'bg-white'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className={`font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                Session {session.sessionNumber.toString()}
+                {session.isCurrent && <span className="ml-1 text-green-500">(current)</span>}
+              </span>
+              <span className={labelClass}>
+                {session.startedAt
+                  ? new Date(session.startedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                  : ''}
+                {' · '}{formatDuration(session.durationMs)}
+              </span>
+            </div>
+            <div className={`flex items-center justify-between mt-0.5 ${labelClass}`}>
+              <span>
+                {session.rolls} rolls · {(session.winRate * 100).toFixed(0)}% won · {session.doubles} doubles
+              </span>
+              <span className="text-right">
+                {Object.entries(session.netDeltas).map(([key, amount]) => (
+                  <span key={key} className={`ml-2 ${amount < BigInt(0) ? 'text-red-500' : ''}`}>
+                    {formatDelta(amount, tokenOf(key))}
+                  </span>
+                ))}
+                {session.untrackedLosses > 0 && (
+                  <span className="ml-2">{session.untrackedLosses} untracked {session.untrackedLosses === 1 ? 'loss' : 'losses'}</span>
+                )}
+              </span>
+            </div>
+            {(session.memeWinnings.mfer > BigInt(0) || session.memeWinnings.bnkr > BigInt(0) || session.memeWinnings.drb > BigInt(0)) && (
+              <div className={`mt-0.5 ${darkMode ? 'text-green-400' : 'text-green-600'}`}>
+                +{formatMeme(session.memeWinnings.mfer)} MFER · {formatMeme(session.memeWinnings.bnkr)} BNKR · {formatMeme(session.memeWinnings.drb)} DRB
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useRollerHistory, type RollerOwner } from '@/hooks/useRollerHistory';
+
+interface SessionKeyManagerProps {
+  darkMode: boolean;
+  playerAddress: `0x${string}` | undefined;
+  localRoller: `0x${string}` | undefined;  // This device's session key kernel, if it has one
+  canTakeOver: boolean;                     // Local key is valid and scoped to this player/token
+  isTakingOver: boolean;
+  onTakeOver: () => Promise<void>;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatAgo(timestamp: number | undefined): string {
+  if (timestamp === undefined) return '';
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+const OWNER_EXPLANATIONS: Record<RollerOwner, string> = {
+  none: 'No device is authorized for gasless rolls.',
+  thisKey: 'This device holds the active session key.',
+  olderKeyOnThisDevice: 'An older session key from this device is still authorized.',
+  otherDevice: 'Another device or browser authorized its own session key. Gasless rolls here fall back to wallet rolls until you take over.',
+};
+
+// The contract keeps one authorized roller per player: shows which key holds it and lets this device take it back
+export function SessionKeyManager({
+  darkMode,
+  playerAddress,
+  localRoller,
+  canTakeOver,
+  isTakingOver,
+  onTakeOver,
+}: SessionKeyManagerProps) {
+  const {
+    isAvailable,
+    authorizedRoller,
+    rollerOwner,
+    activeSince,
+    events,
+    isLoadingEvents,
+    eventsError,
+    reload,
+  } = useRollerHistory(playerAddress, localRoller);
+
+  if (!isAvailable) return null;
+
+  const handleTakeOver = async () => {
+    await onTakeOver();
+    reload();
+  };
+
+  return (
+    <div className={`mt-2 pt-2 border-t text-xs space-y-2 ${darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-200 text-gray-600'}`}>
+      <div>
+        <div className="flex justify-between">
+          <span>Active roller</span>
+          <span className="font-mono">
+            {authorizedRoller && rollerOwner !== 'none' ? shortAddress(authorizedRoller) : '—'}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>This device</span>
+          <span className="font-mono">{localRoller ? shortAddress(localRoller) : 'no key'}</span>
+        </div>
+        <div className={`mt-1 ${rollerOwner === 'otherDevice' ? 'text-yellow-500' : darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {OWNER_EXPLANATIONS[rollerOwner]}
+          {activeSince && rollerOwner !== 'none' && ` Authorized ${formatAgo(activeSince.timestamp)}.`}
+        </div>
+      </div>
+
+      {rollerOwner !== 'thisKey' && localRoller && (
+        <button
+          onClick={handleTakeOver}
+          disabled={!canTakeOver || isTakingOver}
+          className={`w-full py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${
+            darkMode
+              ? 'bg-yellow-600 hover:bg-yellow-500 text-white'
+              : 'bg-yellow-500 hover:bg-yellow-400 text-white'
+          }`}
+        >
+          {isTakingOver ? 'Authorizing...' : 'Take over on this device'}
+        </button>
+      )}
+      {rollerOwner !== 'thisKey' && localRoller && !canTakeOver && (
+        <div className={darkMode ? 'text-gray-500' : 'text-gray-400'}>
+          This device&apos;s key has expired or is for another token. Enable a new one instead.
+        </div>
+      )}
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <span className="font-medium">Authorization history</span>
+          <button onClick={reload} disabled={isLoadingEvents} className="underline disabled:opacity-50">
+            {isLoadingEvents ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+        {eventsError && <div className="text-red-500">{eventsError}</div>}
+        {!isLoadingEvents && events.length === 0 && !eventsError && (
+          <div className={darkMode ? 'text-gray-500' : 'text-gray-400'}>No roller changes in recent blocks</div>
+        )}
+        <div className="space-y-0.5 max-h-32 overflow-y-auto">
+          {events.map((event) => (
+            <div key={`${event.transactionHash}:${event.kind}`} className="flex justify-between gap-2">
+              <span className={event.kind === 'authorized' ? 'text-green-500' : 'text-red-400'}>
+                {event.kind === 'authorized' ? 'Authorized' : 'Revoked'}
+              </span>
+              <span className="font-mono">
+                {shortAddress(event.roller)}
+                {localRoller && event.roller.toLowerCase() === localRoller.toLowerCase() && ' (this device)'}
+              </span>
+              <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{formatAgo(event.timestamp)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,12 +10,28 @@ import {
   useTokenPrices,
   parseTokenAmount,
   type SupportedToken,
+  type RollerRevokedEvent,
 } from '@/hooks/useSevenEleven';
 import { SEVEN_ELEVEN_CONSTANTS } from '@/lib/contracts';
-import { isZeroDevConfigured } from '@/lib/zerodev';
+import { formatContractError } from '@/lib/contractErrors';
+import type { WritePreview } from '@/lib/preflight';
+import { SESSION_KEY_PRESETS, DEFAULT_SESSION_KEY_PRESET, type SessionKeyPreset } from '@/lib/zerodev';
+import { isAccountAbstractionConfigured } from '@/lib/accountAbstraction';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { RollVerifier } from './RollVerifier';
+import { RollHistory } from './RollHistory';
+import { OddsPanel } from './OddsPanel';
+import { SessionKeyManager } from './SessionKeyManager';
+import { ConfirmWriteSheet } from './ConfirmWriteSheet';
+import { useWrapEth } from '@/hooks/useWrapEth';
+import { useGameBalances } from '@/hooks/useGameBalances';
+import { useWritePreview } from '@/hooks/useWritePreview';
+import type { AccountModeState } from '@/hooks/useAccountMode';
+import type { SessionKeyScope } from '@/hooks/useSessionKey';
+import type { KeystoreKind } from '@/lib/sessionKeyStore';
 
 // Format a token amount consistently
-function formatTokenAmount(amount: string): string {
+export function formatTokenAmount(amount: string): string {
   const num = Number(amount);
   if (num === 0) return '0.00';
 
@@ -42,11 +58,20 @@ interface SessionKeyState {
   hasValidSessionKey: boolean;
   hasSessionKeyStored: boolean;
   isSessionKeyExpired: boolean;
+  isSessionKeyExpiring: boolean;
   isCreatingSessionKey: boolean;
+  isRenewingSessionKey: boolean;
   sessionKeyAddress: `0x${string}` | undefined;
+  sessionKeyScope: SessionKeyScope | undefined;
+  sessionKeyPreset: SessionKeyPreset | undefined;
+  keystore: KeystoreKind;
+  setKeystore: (kind: KeystoreKind) => void;
+  isPasskeyAvailable: boolean;
   error: Error | null;
-  createSessionKey: () => Promise<`0x${string}`>;
+  createSessionKey: (scope: SessionKeyScope, preset?: SessionKeyPreset) => Promise<`0x${string}`>;
   clearSessionKey: () => void;
+  renewSessionKey: () => Promise<void>;
+  uninstallSessionKeyPlugin: () => Promise<`0x${string}` | undefined>;
 }
 
 interface SevenElevenGameProps {
@@ -55,6 +80,9 @@ interface SevenElevenGameProps {
   onDepositComplete?: () => void;
   onBalanceChange?: () => void;
   displayBalance?: string;  // Pass from parent to keep header and menu in sync
+  account?: AccountModeState;  // Player account; defaults to the connected wallet
+  selectedToken?: SupportedToken;  // Deposit token the parent rolls with
+  onSelectToken?: (token: SupportedToken) => void;
 }
 
 export function SevenElevenGame({
@@ -63,29 +91,51 @@ export function SevenElevenGame({
   onDepositComplete,
   onBalanceChange,
   displayBalance: parentDisplayBalance,
+  account,
+  selectedToken: parentSelectedToken,
+  onSelectToken,
 }: SevenElevenGameProps) {
   const { isConnected } = useAccount();
   const depositTokens = useDepositTokens();
   const payoutTokens = usePayoutTokens();
   const { prices: tokenPrices } = useTokenPrices();
-  const [selectedToken, setSelectedToken] = useState<SupportedToken | null>(null);
+  const [localSelectedToken, setLocalSelectedToken] = useState<SupportedToken | null>(null);
+  const selectedToken = parentSelectedToken ?? localSelectedToken;
+  const setSelectedToken = onSelectToken ?? setLocalSelectedToken;
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [depositAmount, setDepositAmount] = useState('4.00');
   const [showStats, setShowStats] = useState(false);
   const [showWinnings, setShowWinnings] = useState(true);
   const [copiedToken, setCopiedToken] = useState<string | null>(null);
   const [selectedPayoutToken, setSelectedPayoutToken] = useState<SupportedToken | null>(null);
+  const [showVerifier, setShowVerifier] = useState(false);
+  const [showOdds, setShowOdds] = useState(false);
 
   // Use first deposit token as default
   const currentToken = selectedToken && depositTokens.find(t => t.address === selectedToken.address)
     ? selectedToken
     : depositTokens[0];
 
+  // WETH deposits can be paid in native ETH, wrapped first
+  const { wethAddress, ethBalanceFormatted, wrap } = useWrapEth();
+  const isWethToken = currentToken.address.toLowerCase() === wethAddress?.toLowerCase();
+  const [payWithEth, setPayWithEth] = useState(true);
+
+  // In smart wallet mode the smart wallet deposits from its own token balance, topped up from the connected wallet
+  const playerAddress = account?.playerAddress;
+  const smartWalletClient = account?.smartWalletClient;
+  const isSmartWalletPlayer = !!smartWalletClient;
+  const wrapsEth = isWethToken && payWithEth && !IS_TEST_MODE;
+
+  const { balances: gameBalances, hasAnyBalance, refetch: refetchGameBalances } = useGameBalances(playerAddress);
+
   const {
+    address,
     balance,
     balanceFormatted,
     walletBalance,
     walletBalanceFormatted,
+    eoaWalletBalance,
     playerStats,
     memeWinnings,
     playerSkimPaidFormatted,
@@ -94,17 +144,22 @@ export function SevenElevenGame({
     minDepositFormatted,
     allowance,
     needsApproval,
+    supportsPermit,
     approve,
     deposit,
+    depositAndAuthorize,
+    depositWithPermit,
     withdrawAll,
     authorizeRoller,
+    revokeRoller,
+    isRollerRevoked,
     authorizedRoller,
     isApproving,
     isDepositing,
     isWithdrawing,
     isAuthorizing,
-    error,
-  } = useSevenEleven(currentToken);
+    errorMessage,
+  } = useSevenEleven(currentToken, { playerAddress, smartWalletClient });
 
   // Use parent's display balance if provided (keeps header and menu in sync)
   // Otherwise fall back to hook's polled balance
@@ -114,50 +169,116 @@ export function SevenElevenGame({
     hasValidSessionKey,
     hasSessionKeyStored,
     isSessionKeyExpired,
+    isSessionKeyExpiring,
     isCreatingSessionKey,
+    isRenewingSessionKey,
     createSessionKey,
     clearSessionKey,
-    sessionKeyAddress,
+    renewSessionKey,
+    uninstallSessionKeyPlugin,
+    sessionKeyAddress: storedSessionKeyAddress,
+    sessionKeyScope,
+    sessionKeyPreset,
+    keystore,
+    setKeystore,
+    isPasskeyAvailable,
     error: sessionKeyError,
   } = sessionKey;
 
+  // A key scoped to another player or token can't roll here, so treat it as absent
+  const isSessionKeyInScope = !sessionKeyScope || (
+    address?.toLowerCase() === sessionKeyScope.player.toLowerCase() &&
+    currentToken.address.toLowerCase() === sessionKeyScope.token.toLowerCase()
+  );
+  const sessionKeyAddress = isSessionKeyInScope ? storedSessionKeyAddress : undefined;
+  const [sessionKeyPresetId, setSessionKeyPresetId] = useState(DEFAULT_SESSION_KEY_PRESET.id);
+
   const isSessionKeyAuthorized = hasValidSessionKey &&
     sessionKeyAddress &&
     authorizedRoller &&
     authorizedRoller.toLowerCase() === sessionKeyAddress.toLowerCase();
 
   const needsAuthorization = hasValidSessionKey && sessionKeyAddress && !isSessionKeyAuthorized;
-  const showEnableButton = !hasSessionKeyStored || isSessionKeyExpired;
-  const isZeroDevEnabled = isZeroDevConfigured();
+  // One authorized roller per player: another device's key replaced this one
+  const isRollerOnOtherKey = !!needsAuthorization && !!authorizedRoller &&
+    authorizedRoller !== '0x0000000000000000000000000000000000000000';
+  const [showSessionManager, setShowSessionManager] = useState(false);
+  const showEnableButton = !hasSessionKeyStored || isSessionKeyExpired || !isSessionKeyInScope;
+  // Session keys need a real contract, so test mode hides them
+  const isZeroDevEnabled = isAccountAbstractionConfigured() && !IS_TEST_MODE;
 
   const [depositError, setDepositError] = useState<string | null>(null);
 
-  type DepositStep = 'idle' | 'approving' | 'depositing' | 'authorizing' | 'done' | 'waiting_for_update';
+  type DepositStep = 'idle' | 'wrapping' | 'signing' | 'approving' | 'depositing' | 'authorizing' | 'done' | 'waiting_for_update';
   const [depositStep, setDepositStep] = useState<DepositStep>('idle');
   const [balanceAtDepositStart, setBalanceAtDepositStart] = useState<bigint | null>(null);
 
+  // What a deposit can draw on before wrapping ETH: the smart wallet also pulls from the connected wallet
+  const spendableWalletBalance = (walletBalance ?? BigInt(0)) + (isSmartWalletPlayer ? eoaWalletBalance ?? BigInt(0) : BigInt(0));
+
+  // Permit tokens deposit and authorize the session key with one signature and one transaction
+  const usesPermit = supportsPermit && !wrapsEth && isZeroDevEnabled && !!sessionKeyAddress;
+
   const minAmountNeeded = minDeposit && balance !== undefined
     ? (balance >= minDeposit ? BigInt(0) : minDeposit - balance)
     : undefined;
 
+  // Null when the amount is enough to reach the minimum Game Balance
+  const checkDepositAmount = useCallback((amount: bigint): string | null => {
+    const currentBalance = balance || BigInt(0);
+    if (!minDeposit || currentBalance + amount >= minDeposit) return null;
+    const neededFormatted = formatUnits(minDeposit - currentBalance, currentToken.decimals);
+    return `Deposit at least ${Number(neededFormatted).toFixed(2)} ${currentToken.symbol} to reach $${SEVEN_ELEVEN_CONSTANTS.MIN_DEPOSIT_USD.toFixed(2)} game balance`;
+  }, [balance, minDeposit, currentToken.decimals, currentToken.symbol]);
+
   const handleDeposit = useCallback(async () => {
     setDepositError(null);
     const amount = parseTokenAmount(depositAmount, currentToken.decimals);
     if (amount <= BigInt(0)) return;
 
-    const currentBalance = balance || BigInt(0);
-    const balanceAfterDeposit = currentBalance + amount;
-    if (minDeposit && balanceAfterDeposit < minDeposit) {
-      const neededAmount = minDeposit - currentBalance;
-      const neededFormatted = formatUnits(neededAmount, currentToken.decimals);
-      setDepositError(`Deposit at least ${Number(neededFormatted).toFixed(2)} ${currentToken.symbol} to reach $${SEVEN_ELEVEN_CONSTANTS.MIN_DEPOSIT_USD.toFixed(2)} game balance`);
+    const amountError = checkDepositAmount(amount);
+    if (amountError) {
+      setDepositError(amountError);
       return;
     }
 
+    const currentBalance = balance || BigInt(0);
     // Store starting balance to detect when it updates
     setBalanceAtDepositStart(currentBalance);
 
     try {
+      // Wrap only the ETH needed on top of any WETH already in the wallet (ETH is wrapped in the
+      // connected wallet, which then funds the smart wallet)
+      const walletWeth = spendableWalletBalance;
+      if (wrapsEth && walletWeth < amount) {
+        setDepositStep('wrapping');
+        await wrap(amount - walletWeth);
+      }
+
+      if (usesPermit && sessionKeyAddress) {
+        setDepositStep('signing');
+        if (await depositWithPermit(amount, sessionKeyAddress)) {
+          setDepositStep('waiting_for_update');
+          setDepositAmount('');
+          setShowDepositModal(false);
+          return;
+        }
+      }
+
+      // The smart wallet batches approve, deposit and authorization into one UserOperation
+      if (isSmartWalletPlayer) {
+        setDepositStep('depositing');
+        if (isZeroDevEnabled && sessionKeyAddress && !isSessionKeyAuthorized) {
+          await depositAndAuthorize(amount, sessionKeyAddress);
+        } else {
+          await deposit(amount);
+        }
+        setDepositStep('waiting_for_update');
+        setDepositAmount('');
+        setShowDepositModal(false);
+        return;
+      }
+
       if (needsApproval || (allowance !== undefined && allowance < amount)) {
         setDepositStep('approving');
         await approve(amount);
@@ -178,10 +299,11 @@ export function SevenElevenGame({
       // Don't set to idle here - the useEffect will do it when balance updates
     } catch (err) {
       console.error('Deposit flow failed:', err);
+      setDepositError(formatContractError(err));
       setDepositStep('idle');
       setBalanceAtDepositStart(null);
     }
-  }, [depositAmount, currentToken.decimals, currentToken.symbol, balance, minDeposit, needsApproval, allowance, approve, deposit, isZeroDevEnabled, sessionKeyAddress, isSessionKeyAuthorized, authorizeRoller]);
+  }, [depositAmount, currentToken.decimals, checkDepositAmount, balance, spendableWalletBalance, wrapsEth, wrap, usesPermit, depositWithPermit, isSmartWalletPlayer, depositAndAuthorize, needsApproval, allowance, approve, deposit, isZeroDevEnabled, sessionKeyAddress, isSessionKeyAuthorized, authorizeRoller]);
 
   // Watch for balance updates after deposit to hide the overlay
   useEffect(() => {
@@ -190,32 +312,155 @@ export function SevenElevenGame({
         // Balance has updated, hide the overlay
         setDepositStep('idle');
         setBalanceAtDepositStart(null);
+        refetchGameBalances();
         // Reset display balance to sync with new balance
         onBalanceChange?.();
         // Close the menu after successful deposit
         onDepositComplete?.();
       }
     }
-  }, [balance, depositStep, balanceAtDepositStart, onDepositComplete, onBalanceChange]);
+  }, [balance, depositStep, balanceAtDepositStart, onDepositComplete, onBalanceChange, refetchGameBalances]);
 
   const handleCreateSessionKey = useCallback(async () => {
+    if (!address) return;
     try {
-      const kernelAddress = await createSessionKey();
+      const preset = SESSION_KEY_PRESETS.find(p => p.id === sessionKeyPresetId) ?? DEFAULT_SESSION_KEY_PRESET;
+      const kernelAddress = await createSessionKey({ player: address, token: currentToken.address }, preset);
       console.log('Session key created, kernel address:', kernelAddress);
       await authorizeRoller(kernelAddress);
       console.log('Session key authorized on contract');
     } catch (err) {
       console.error('Failed to create/authorize session key:', err);
     }
-  }, [createSessionKey, authorizeRoller]);
+  }, [address, sessionKeyPresetId, currentToken.address, createSessionKey, authorizeRoller]);
+
+  type RevokeStep = 'idle' | 'revoking' | 'uninstalling' | 'confirming';
+  const [revokeStep, setRevokeStep] = useState<RevokeStep>('idle');
+  const [revokedEvent, setRevokedEvent] = useState<RollerRevokedEvent | null>(null);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+
+  // Local key material is only dropped once the contract no longer accepts this key
+  const handleRevokeGasless = useCallback(async () => {
+    if (!storedSessionKeyAddress) return;
+    setRevokeError(null);
+    setRevokedEvent(null);
+
+    try {
+      // Another device's key may be the authorized roller; leave it alone
+      let event: RollerRevokedEvent | undefined;
+      if (authorizedRoller && authorizedRoller.toLowerCase() === storedSessionKeyAddress.toLowerCase()) {
+        setRevokeStep('revoking');
+        event = await revokeRoller();
+      }
+
+      setRevokeStep('uninstalling');
+      await uninstallSessionKeyPlugin();
+
+      setRevokeStep('confirming');
+      if (!(await isRollerRevoked(storedSessionKeyAddress))) {
+        throw new Error('Contract still accepts this session key');
+      }
+
+      clearSessionKey();
+      if (event) setRevokedEvent(event);
+    } catch (err) {
+      console.error('Failed to revoke session key:', err);
+      setRevokeError(formatContractError(err));
+    } finally {
+      setRevokeStep('idle');
+    }
+  }, [storedSessionKeyAddress, authorizedRoller, revokeRoller, uninstallSessionKeyPlugin, isRollerRevoked, clearSessionKey]);
+
+  // withdrawAll empties every deposit token, not just the selected one
+  const canWithdraw = hasAnyBalance || (!!balance && balance > BigInt(0));
+
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
 
   const handleWithdrawAll = useCallback(async () => {
-    if (balance && balance > BigInt(0)) {
+    if (!canWithdraw) return;
+    setWithdrawError(null);
+    try {
       await withdrawAll();
+      refetchGameBalances();
       // Reset display balance to sync with new balance (0 after withdraw)
       onBalanceChange?.();
+    } catch (err) {
+      console.error('Withdraw all failed:', err);
+      setWithdrawError(formatContractError(err));
+    }
+  }, [canWithdraw, withdrawAll, refetchGameBalances, onBalanceChange]);
+
+  // Deposits and Withdraw All are simulated first; the sheet shows the resulting balances and the
+  // wallet only prompts once the player confirms
+  const { previewDeposit, previewWithdrawAll } = useWritePreview(playerAddress);
+  const [confirmSheet, setConfirmSheet] = useState<{
+    action: 'deposit' | 'withdrawAll';
+    preview: WritePreview | null;
+    error: string | null;
+  } | null>(null);
+
+  const showPreview = useCallback(async (action: 'deposit' | 'withdrawAll', simulate: () => Promise<WritePreview>) => {
+    setConfirmSheet({ action, preview: null, error: null });
+    try {
+      const preview = await simulate();
+      setConfirmSheet(sheet => sheet?.action === action ? { ...sheet, preview } : sheet);
+    } catch (err) {
+      console.warn('Failed to preview write:', err);
+      setConfirmSheet(sheet => sheet?.action === action ? { ...sheet, error: formatContractError(err) } : sheet);
     }
-  }, [balance, withdrawAll, onBalanceChange]);
+  }, []);
+
+  const reviewDeposit = useCallback(async () => {
+    setDepositError(null);
+    const amount = parseTokenAmount(depositAmount, currentToken.decimals);
+    if (amount <= BigInt(0)) return;
+
+    const amountError = checkDepositAmount(amount);
+    if (amountError) {
+      setDepositError(amountError);
+      return;
+    }
+    // The test mode engine has nothing to simulate against, and a smart wallet that still has to be
+    // funded can't simulate its deposit yet; the funding transfer prompts in the wallet instead
+    if (IS_TEST_MODE || (isSmartWalletPlayer && (walletBalance ?? BigInt(0)) < amount)) {
+      await handleDeposit();
+      return;
+    }
+
+    const walletWeth = walletBalance ?? BigInt(0);
+    await showPreview('deposit', () => previewDeposit(currentToken, {
+      amount,
+      // A permit or the smart wallet's batch covers the approval the same way an approve call does
+      approve: needsApproval || allowance === undefined || allowance < amount,
+      wrapAmount: wrapsEth && walletWeth < amount ? amount - walletWeth : undefined,
+      roller: isZeroDevEnabled && sessionKeyAddress && !isSessionKeyAuthorized ? sessionKeyAddress : undefined,
+    }));
+  }, [depositAmount, currentToken, checkDepositAmount, handleDeposit, isSmartWalletPlayer, walletBalance, showPreview, previewDeposit, needsApproval, allowance, wrapsEth, isZeroDevEnabled, sessionKeyAddress, isSessionKeyAuthorized]);
+
+  const reviewWithdrawAll = useCallback(async () => {
+    if (!canWithdraw) return;
+    setWithdrawError(null);
+    if (IS_TEST_MODE) {
+      await handleWithdrawAll();
+      return;
+    }
+    await showPreview('withdrawAll', previewWithdrawAll);
+  }, [canWithdraw, handleWithdrawAll, showPreview, previewWithdrawAll]);
+
+  const confirmWrite = useCallback(() => {
+    const action = confirmSheet?.action;
+    setConfirmSheet(null);
+    if (action === 'deposit') handleDeposit();
+    if (action === 'withdrawAll') handleWithdrawAll();
+  }, [confirmSheet?.action, handleDeposit, handleWithdrawAll]);
+
+  const openDepositModal = useCallback(() => {
+    // Stablecoin default is the $4 minimum; other tokens start at their minimum deposit
+    if (!currentToken.isStablecoin && minDeposit !== undefined) {
+      setDepositAmount(formatUnits(minDeposit, currentToken.decimals));
+    }
+    setShowDepositModal(true);
+  }, [currentToken.isStablecoin, currentToken.decimals, minDeposit]);
 
   const handleCopyAddress = useCallback((address: string, symbol: string) => {
     navigator.clipboard.writeText(address);
@@ -223,12 +468,6 @@ export function SevenElevenGame({
     setTimeout(() => setCopiedToken(null), 2000);
   }, []);
 
-  const winRate =
-    playerStats && (playerStats.totalWins + playerStats.totalLosses) > BigInt(0)
-      ? Number(playerStats.totalWins * BigInt(100)) /
-        Number(playerStats.totalWins + playerStats.totalLosses)
-      : 0;
-
   // Check if player has any meme winnings
   const hasMemeWinnings = memeWinnings &&
     (memeWinnings.mfer > BigInt(0) || memeWinnings.bnkr > BigInt(0) || memeWinnings.drb > BigInt(0));
@@ -274,6 +513,8 @@ export function SevenElevenGame({
             </div>
             {/* Status text */}
             <div className="text-white text-xl font-medium">
+              {depositStep === 'wrapping' && 'Wrapping ETH...'}
+              {depositStep === 'signing' && 'Sign permit in wallet...'}
               {depositStep === 'approving' && 'Approving...'}
               {depositStep === 'depositing' && 'Depositing...'}
               {depositStep === 'authorizing' && 'Authorizing...'}
@@ -337,6 +578,16 @@ export function SevenElevenGame({
             <img src={currentToken.icon} alt={currentToken.symbol} className="w-5 h-5 rounded-full" />
           </span>
         </div>
+        {depositTokens.length > 1 && (
+          <div className={`flex justify-end gap-3 text-xs mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {gameBalances.map(({ token, formatted }) => (
+              <span key={token.address} className="flex items-center gap-1">
+                {formatTokenAmount(formatted)}
+                <img src={token.icon} alt={token.symbol} className="w-3.5 h-3.5 rounded-full" />
+              </span>
+            ))}
+          </div>
+        )}
         <div className="flex justify-between items-center mb-3">
           <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
             Bet per roll
@@ -348,7 +599,7 @@ export function SevenElevenGame({
         </div>
         <div className="flex gap-2">
           <button
-            onClick={() => setShowDepositModal(true)}
+            onClick={openDepositModal}
             className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
               darkMode
                 ? 'bg-green-600 hover:bg-green-500 text-white'
@@ -358,8 +609,8 @@ export function SevenElevenGame({
             Deposit
           </button>
           <button
-            onClick={handleWithdrawAll}
-            disabled={!balance || balance === BigInt(0) || isWithdrawing}
+            onClick={reviewWithdrawAll}
+            disabled={!canWithdraw || isWithdrawing}
             className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
               darkMode
                 ? 'bg-gray-600 hover:bg-gray-500 text-white disabled:opacity-50'
@@ -369,6 +620,9 @@ export function SevenElevenGame({
             {isWithdrawing ? 'Withdrawing...' : 'Withdraw All'}
           </button>
         </div>
+        {withdrawError && (
+          <div className="mt-2 text-red-500 text-sm text-center">{withdrawError}</div>
+        )}
       </div>
 
       {/* V2: Cumulative Meme Token Winnings - always show for Grok skim */}
@@ -447,6 +701,65 @@ export function SevenElevenGame({
         </div>
       </div>
 
+      {/* Account mode: play from the connected wallet or its smart wallet */}
+      {account?.isSmartWalletAvailable && (
+        <div
+          className={`rounded-xl p-3 mb-4 ${
+            darkMode ? 'bg-gray-700/80' : 'bg-gray-100'
+          }`}
+        >
+          <div className="flex justify-between items-center">
+            <span className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>Play from</span>
+            <div className="flex gap-1">
+              {(['eoa', 'smartWallet'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => account.setAccountMode(mode)}
+                  disabled={mode === 'smartWallet' && !account.isSmartWalletReady}
+                  className={`text-xs px-3 py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${
+                    account.accountMode === mode
+                      ? darkMode ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                      : darkMode ? 'bg-gray-600 text-gray-300 hover:bg-gray-500' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {mode === 'eoa' ? 'Wallet' : 'Smart Wallet'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {account.smartWalletAddress && (
+            <div className={`text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              {account.accountMode === 'smartWallet'
+                ? `Sponsored gas from ${account.smartWalletAddress.slice(0, 6)}...${account.smartWalletAddress.slice(-4)}. Deposits top it up from your wallet; withdrawals go back to your wallet.`
+                : `Smart wallet ${account.smartWalletAddress.slice(0, 6)}...${account.smartWalletAddress.slice(-4)}`}
+            </div>
+          )}
+          {account.sweepableBalances.length > 0 && (
+            <div className="flex justify-between items-center mt-2">
+              <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {account.sweepableBalances.map(b => `${b.balanceFormatted} ${b.token.symbol}`).join(' + ')}
+              </span>
+              <button
+                onClick={account.sweepToWallet}
+                disabled={account.isSweeping}
+                className={`text-xs px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                  darkMode
+                    ? 'bg-green-600 hover:bg-green-500 text-white disabled:opacity-50'
+                    : 'bg-green-500 hover:bg-green-400 text-white disabled:opacity-50'
+                }`}
+              >
+                {account.isSweeping ? 'Sweeping...' : 'Sweep to Wallet'}
+              </button>
+            </div>
+          )}
+          {account.error && (
+            <div className="text-xs mt-1 text-red-500">
+              {account.error.message}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Session Key Status (when ZeroDev is enabled) */}
       {isZeroDevEnabled && (
         <div
@@ -470,10 +783,14 @@ export function SevenElevenGame({
               <span className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
                 {isSessionKeyAuthorized
                   ? 'Gasless Rolls Active'
+                  : isRollerOnOtherKey
+                  ? 'Active On Another Device'
                   : needsAuthorization
                   ? 'Needs Authorization'
                   : isSessionKeyExpired
                   ? 'Session Expired'
+                  : !isSessionKeyInScope
+                  ? 'Key Is For Another Token'
                   : 'Gasless Rolls Available'}
               </span>
             </div>
@@ -500,125 +817,134 @@ export function SevenElevenGame({
                     : 'bg-yellow-500 hover:bg-yellow-400 text-white disabled:opacity-50'
                 }`}
               >
-                {isAuthorizing ? 'Authorizing...' : 'Authorize'}
+                {isAuthorizing ? 'Authorizing...' : isRollerOnOtherKey ? 'Take Over' : 'Authorize'}
               </button>
             )}
             {isSessionKeyAuthorized && (
               <button
-                onClick={clearSessionKey}
-                className={`text-xs px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                onClick={handleRevokeGasless}
+                disabled={revokeStep !== 'idle'}
+                className={`text-xs px-3 py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${
                   darkMode
                     ? 'bg-gray-600 hover:bg-gray-500 text-white'
                     : 'bg-gray-300 hover:bg-gray-400 text-gray-700'
                 }`}
               >
-                Disable
+                {revokeStep === 'revoking'
+                  ? 'Revoking...'
+                  : revokeStep === 'uninstalling'
+                  ? 'Uninstalling...'
+                  : revokeStep === 'confirming'
+                  ? 'Confirming...'
+                  : 'Revoke'}
               </button>
             )}
           </div>
           {isSessionKeyAuthorized && (
             <div className={`text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-              No wallet prompts when rolling
+              No wallet prompts when rolling{sessionKeyPreset && ` (${sessionKeyPreset.label})`}. Revoke clears it on-chain (2 wallet prompts)
+            </div>
+          )}
+          {isSessionKeyAuthorized && isSessionKeyExpiring && (
+            <div className={`text-xs mt-1 flex justify-between items-center ${darkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
+              <span>Session key expires soon. Renewing keeps this device authorized</span>
+              <button
+                onClick={() => renewSessionKey().catch(() => {})}
+                disabled={isRenewingSessionKey}
+                className="underline disabled:opacity-50"
+              >
+                {isRenewingSessionKey ? 'Renewing...' : 'Renew'}
+              </button>
+            </div>
+          )}
+          {revokedEvent && (
+            <div className={`text-xs mt-1 ${darkMode ? 'text-green-400' : 'text-green-600'}`}>
+              RollerRevoked: {revokedEvent.previousRoller.slice(0, 6)}...{revokedEvent.previousRoller.slice(-4)} in block {revokedEvent.blockNumber.toString()} (tx {revokedEvent.transactionHash.slice(0, 10)}...)
+            </div>
+          )}
+          {revokeError && (
+            <div className="text-xs mt-1 text-red-500">
+              {revokeError}
             </div>
           )}
           {needsAuthorization && (
             <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Wallet will ask to authorize this device for gasless rolls
+              {isRollerOnOtherKey
+                ? 'Gasless rolls moved to another device; taking over switches them back here'
+                : 'Wallet will ask to authorize this device for gasless rolls'}
             </div>
           )}
           {showEnableButton && !needsAuthorization && (
-            <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Creates a session key for this device (1 wallet prompt)
-            </div>
+            <>
+              <div className="flex gap-1 mt-2">
+                {SESSION_KEY_PRESETS.map((preset) => (
+                  <button
+                    key={preset.id}
+                    onClick={() => setSessionKeyPresetId(preset.id)}
+                    className={`flex-1 text-xs py-1 rounded-lg font-medium ${
+                      sessionKeyPresetId === preset.id
+                        ? darkMode ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                        : darkMode ? 'bg-gray-600 text-gray-300' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Creates a session key for this device, limited on-chain to {currentToken.symbol} rolls (1 wallet prompt)
+              </div>
+              {isPasskeyAvailable && (
+                <label className={`flex items-center gap-2 text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  <input
+                    type="checkbox"
+                    checked={keystore === 'passkey'}
+                    onChange={(e) => setKeystore(e.target.checked ? 'passkey' : 'webcrypto')}
+                  />
+                  Lock the key with a passkey (asks for it when the game loads)
+                </label>
+              )}
+            </>
           )}
           {sessionKeyError && (
             <div className="text-xs mt-1 text-red-500">
               {sessionKeyError.message}
             </div>
           )}
+          <button
+            onClick={() => setShowSessionManager(!showSessionManager)}
+            className={`text-xs mt-1 underline ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-600'}`}
+          >
+            {showSessionManager ? 'Hide devices' : 'Manage devices'}
+          </button>
+          {showSessionManager && (
+            <SessionKeyManager
+              darkMode={darkMode}
+              playerAddress={address}
+              localRoller={storedSessionKeyAddress}
+              canTakeOver={hasValidSessionKey && !!sessionKeyAddress}
+              isTakingOver={isAuthorizing}
+              onTakeOver={async () => {
+                if (sessionKeyAddress) await authorizeRoller(sessionKeyAddress);
+              }}
+            />
+          )}
         </div>
       )}
 
-      {/* Stats toggle */}
+      {/* History toggle */}
       <button
         onClick={() => setShowStats(!showStats)}
         className={`w-full text-center text-sm py-2 ${
           darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-600'
         }`}
       >
-        {showStats ? 'Hide Stats' : 'Show Stats'}
+        {showStats ? 'Hide History' : 'Show History'}
       </button>
 
-      {/* Player stats */}
-      {showStats && playerStats && (
-        <div
-          className={`rounded-xl p-4 mt-2 ${
-            darkMode ? 'bg-gray-700/80' : 'bg-gray-100'
-          }`}
-        >
-          {/* Header row */}
-          <div className="grid grid-cols-3 gap-2 text-xs mb-2">
-            <div></div>
-            <div className={`text-center font-medium ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
-              Session
-            </div>
-            <div className={`text-center font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Overall
-            </div>
-          </div>
-
-          {/* Stats rows */}
-          <div className="space-y-2 text-sm">
-            {/* 7/11 Won */}
-            <div className="grid grid-cols-3 gap-2 items-center">
-              <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>7/11 Won</span>
-              <div className={`text-center font-bold ${darkMode ? 'text-green-400' : 'text-green-600'}`}>
-                {(playerStats.sessionWins - playerStats.sessionDoublesWon).toString()}
-              </div>
-              <div className={`text-center font-bold ${darkMode ? 'text-green-400/60' : 'text-green-600/60'}`}>
-                {(playerStats.totalWins - playerStats.totalDoublesWon).toString()}
-              </div>
-            </div>
-
-            {/* Doubles */}
-            <div className="grid grid-cols-3 gap-2 items-center">
-              <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>Doubles</span>
-              <div className={`text-center font-bold ${darkMode ? 'text-purple-400' : 'text-purple-600'}`}>
-                {playerStats.sessionDoublesWon.toString()}
-              </div>
-              <div className={`text-center font-bold ${darkMode ? 'text-purple-400/60' : 'text-purple-600/60'}`}>
-                {playerStats.totalDoublesWon.toString()}
-              </div>
-            </div>
-
-            {/* Losses */}
-            <div className="grid grid-cols-3 gap-2 items-center">
-              <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>Losses</span>
-              <div className={`text-center font-bold ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
-                {playerStats.sessionLosses.toString()}
-              </div>
-              <div className={`text-center font-bold ${darkMode ? 'text-red-400/60' : 'text-red-600/60'}`}>
-                {playerStats.totalLosses.toString()}
-              </div>
-            </div>
-
-            {/* Win Rate */}
-            <div className="grid grid-cols-3 gap-2 items-center">
-              <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>Win Rate</span>
-              <div className={`text-center font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-                {(() => {
-                  const sessionTotal = playerStats.sessionWins + playerStats.sessionLosses;
-                  if (sessionTotal === BigInt(0)) return '—';
-                  const rate = Number(playerStats.sessionWins * BigInt(100)) / Number(sessionTotal);
-                  return `${rate.toFixed(1)}%`;
-                })()}
-              </div>
-              <div className={`text-center font-bold ${darkMode ? 'text-white/60' : 'text-gray-900/60'}`}>
-                {winRate.toFixed(1)}%
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Roll history */}
+      {showStats && (
+        <RollHistory darkMode={darkMode} playerAddress={playerAddress} />
       )}
 
       {/* V2 Game rules */}
@@ -630,8 +956,39 @@ export function SevenElevenGame({
         <div>Win 7/11: {SEVEN_ELEVEN_CONSTANTS.WIN_7_11_MULTIPLIER}x | Win Doubles: {SEVEN_ELEVEN_CONSTANTS.WIN_DOUBLES_MULTIPLIER}x</div>
         <div>Winnings: MFER + BNKR + DRB to wallet</div>
         <div>${SEVEN_ELEVEN_CONSTANTS.LOSS_SKIM_USD.toFixed(2)} MFER to Grok on loss</div>
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={() => setShowOdds(true)}
+            className={`underline ${darkMode ? 'hover:text-gray-300' : 'hover:text-gray-600'}`}
+          >
+            Odds &amp; EV
+          </button>
+          {!IS_TEST_MODE && (
+            <button
+              onClick={() => setShowVerifier(true)}
+              className={`underline ${darkMode ? 'hover:text-gray-300' : 'hover:text-gray-600'}`}
+            >
+              Verify a roll
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Odds & EV Modal */}
+      {showOdds && (
+        <OddsPanel
+          darkMode={darkMode}
+          onClose={() => setShowOdds(false)}
+          betAmountFormatted={formatTokenAmount(betAmountFormatted)}
+          betTokenSymbol={currentToken.symbol}
+        />
+      )}
+
+      {/* Roll Verifier Modal */}
+      {showVerifier && (
+        <RollVerifier darkMode={darkMode} onClose={() => setShowVerifier(false)} />
+      )}
+
       {/* Token Info Modal */}
       {selectedPayoutToken && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => setSelectedPayoutToken(null)}>
@@ -745,6 +1102,24 @@ export function SevenElevenGame({
               <img src={currentToken.icon} alt={currentToken.symbol} className="w-6 h-6 rounded-full" />
             </h3>
 
+            {isWethToken && !IS_TEST_MODE && (
+              <div className="flex gap-2 mb-4">
+                {[true, false].map((useEth) => (
+                  <button
+                    key={String(useEth)}
+                    onClick={() => setPayWithEth(useEth)}
+                    className={`flex-1 py-1.5 rounded-lg text-sm font-medium ${
+                      payWithEth === useEth
+                        ? darkMode ? 'bg-green-600 text-white' : 'bg-green-500 text-white'
+                        : darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {useEth ? 'Pay with ETH' : 'Use WETH'}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="mb-4">
               <label
                 className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
@@ -773,8 +1148,10 @@ export function SevenElevenGame({
                 }`}
               >
                 <div className="flex items-center gap-1">
-                  Wallet: {formatTokenAmount(walletBalanceFormatted)}
+                  {isSmartWalletPlayer ? 'Smart Wallet' : 'Wallet'}: {formatTokenAmount(walletBalanceFormatted)}
+                  {isSmartWalletPlayer && <span>+ {formatTokenAmount(formatUnits(eoaWalletBalance ?? BigInt(0), currentToken.decimals))} in wallet</span>}
                   <img src={currentToken.icon} alt={currentToken.symbol} className="w-3.5 h-3.5 rounded-full" />
+                  {wrapsEth && <span>+ {formatTokenAmount(ethBalanceFormatted)} ETH</span>}
                 </div>
                 <div className="flex items-center gap-1">
                   Game Balance: {displayBalance}
@@ -799,15 +1176,19 @@ export function SevenElevenGame({
                 Cancel
               </button>
               <button
-                onClick={handleDeposit}
-                disabled={depositStep !== 'idle' || !depositAmount}
+                onClick={reviewDeposit}
+                disabled={depositStep !== 'idle' || !depositAmount || !!confirmSheet}
                 className={`flex-1 py-2 px-4 rounded-lg font-medium disabled:opacity-50 ${
                   darkMode
                     ? 'bg-green-600 text-white hover:bg-green-500'
                     : 'bg-green-500 text-white hover:bg-green-400'
                 }`}
               >
-                {depositStep === 'approving'
+                {depositStep === 'wrapping'
+                  ? 'Wrapping...'
+                  : depositStep === 'signing'
+                  ? 'Signing...'
+                  : depositStep === 'approving'
                   ? 'Approving...'
                   : depositStep === 'depositing'
                   ? 'Depositing...'
@@ -819,21 +1200,37 @@ export function SevenElevenGame({
 
             {depositStep === 'idle' && depositAmount && (
               <div className={`mt-3 text-xs text-center ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                {needsApproval && !isSessionKeyAuthorized && 'Wallet will prompt: Approve → Deposit → Authorize device'}
-                {needsApproval && isSessionKeyAuthorized && 'Wallet will prompt: Approve → Deposit'}
-                {!needsApproval && !isSessionKeyAuthorized && 'Wallet will prompt: Deposit → Authorize device'}
-                {!needsApproval && isSessionKeyAuthorized && 'Wallet will prompt: Deposit'}
+                {wrapsEth && 'ETH is wrapped to WETH first if needed. '}
+                {isSmartWalletPlayer && (walletBalance ?? BigInt(0)) < parseTokenAmount(depositAmount, currentToken.decimals) && 'Wallet will prompt: Fund smart wallet → Sign one sponsored UserOp'}
+                {isSmartWalletPlayer && (walletBalance ?? BigInt(0)) >= parseTokenAmount(depositAmount, currentToken.decimals) && 'Wallet will prompt: Sign one sponsored UserOp from your smart wallet'}
+                {!isSmartWalletPlayer && usesPermit && 'Wallet will prompt: Sign permit → Deposit'}
+                {!isSmartWalletPlayer && !usesPermit && needsApproval && !isSessionKeyAuthorized && 'Wallet will prompt: Approve → Deposit → Authorize device'}
+                {!isSmartWalletPlayer && !usesPermit && needsApproval && isSessionKeyAuthorized && 'Wallet will prompt: Approve → Deposit'}
+                {!isSmartWalletPlayer && !usesPermit && !needsApproval && !isSessionKeyAuthorized && 'Wallet will prompt: Deposit → Authorize device'}
+                {!isSmartWalletPlayer && !usesPermit && !needsApproval && isSessionKeyAuthorized && 'Wallet will prompt: Deposit'}
               </div>
             )}
 
-            {(error || depositError) && (
+            {(errorMessage || depositError) && (
               <div className="mt-3 text-red-500 text-sm text-center">
-                {depositError || error?.message}
+                {depositError || errorMessage}
               </div>
             )}
           </div>
         </div>
       )}
+
+      {confirmSheet && (
+        <ConfirmWriteSheet
+          darkMode={darkMode}
+          title={confirmSheet.action === 'deposit' ? 'Confirm Deposit' : 'Confirm Withdraw All'}
+          confirmLabel={confirmSheet.action === 'deposit' ? 'Deposit' : 'Withdraw'}
+          preview={confirmSheet.preview}
+          error={confirmSheet.error}
+          onConfirm={confirmWrite}
+          onCancel={() => setConfirmSheet(null)}
+        />
+      )}
     </div>
   );
 }
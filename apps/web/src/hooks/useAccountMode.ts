@@ -0,0 +1,147 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAccount, useReadContracts } from 'wagmi';
+import { encodeFunctionData, formatUnits } from 'viem';
+import { ERC20_ABI } from '@/lib/contracts';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+import { useSmartWallet } from './useSmartWallet';
+import { useDepositTokens, useMemeWalletBalances, type MemeWalletBalance, type UserOperationClient } from './useSevenEleven';
+
+// Which account is the player: the connected wallet, or its ZeroDev smart wallet
+export type AccountMode = 'eoa' | 'smartWallet';
+
+const ACCOUNT_MODE_STORAGE_KEY = 'mferroll_account_mode_v1';
+
+function loadAccountMode(): AccountMode {
+  if (typeof window === 'undefined') return 'eoa';
+
+  try {
+    return localStorage.getItem(ACCOUNT_MODE_STORAGE_KEY) === 'smartWallet' ? 'smartWallet' : 'eoa';
+  } catch (e) {
+    console.warn('Failed to load account mode:', e);
+  }
+  return 'eoa';
+}
+
+function saveAccountMode(mode: AccountMode): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(ACCOUNT_MODE_STORAGE_KEY, mode);
+  } catch (e) {
+    console.warn('Failed to save account mode:', e);
+  }
+}
+
+export interface AccountModeState {
+  accountMode: AccountMode;
+  setAccountMode: (mode: AccountMode) => void;
+  isSmartWalletAvailable: boolean;
+  isSmartWalletReady: boolean;
+  smartWalletAddress: `0x${string}` | undefined;
+
+  // The player account and, in smart wallet mode, the client its writes go through
+  playerAddress: `0x${string}` | undefined;
+  smartWalletClient: UserOperationClient | undefined;
+
+  // Meme winnings and deposit tokens left in the smart wallet, swept back to the connected wallet
+  sweepableBalances: MemeWalletBalance[];
+  sweepToWallet: () => Promise<void>;
+  isSweeping: boolean;
+  error: Error | null;
+}
+
+// Account mode: persists the player's choice and falls back to the EOA until the smart wallet is ready
+export function useAccountMode(): AccountModeState {
+  const { address: eoaAddress } = useAccount();
+  const { smartWalletAddress, isSmartWalletReady, isZeroDevAvailable, kernelClient, error: smartWalletError } = useSmartWallet();
+
+  const [preferredMode, setPreferredMode] = useState<AccountMode>('eoa');
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [sweepError, setSweepError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setPreferredMode(loadAccountMode());
+  }, []);
+
+  const setAccountMode = useCallback((mode: AccountMode) => {
+    setPreferredMode(mode);
+    saveAccountMode(mode);
+    debugLog.info(`Account mode: ${mode}`);
+  }, []);
+
+  // Smart wallet writes need a real bundler, so test mode always plays from the EOA
+  const isSmartWalletAvailable = isZeroDevAvailable && !IS_TEST_MODE;
+  const accountMode: AccountMode =
+    preferredMode === 'smartWallet' && isSmartWalletAvailable && isSmartWalletReady ? 'smartWallet' : 'eoa';
+
+  const smartWalletClient: UserOperationClient | undefined =
+    accountMode === 'smartWallet' ? kernelClient : undefined;
+  const playerAddress = accountMode === 'smartWallet' ? smartWalletAddress : eoaAddress;
+
+  // Without a smart wallet address the balances hook reads the EOA, which has nothing to sweep
+  const { balances: smartWalletBalances, refetch: refetchSmartWalletBalances } = useMemeWalletBalances(smartWalletAddress);
+
+  // Withdrawals forward to the connected wallet, but a deposit that failed after funding leaves tokens behind
+  const depositTokens = useDepositTokens();
+  const { data: depositTokenBalances, refetch: refetchDepositTokenBalances } = useReadContracts({
+    contracts: depositTokens.map(token => ({
+      address: token.address,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf' as const,
+      args: smartWalletAddress ? [smartWalletAddress] as const : undefined,
+    })),
+    query: { enabled: !!smartWalletAddress && isSmartWalletAvailable, refetchInterval: 10000 },
+  });
+
+  const sweepableBalances = useMemo((): MemeWalletBalance[] => {
+    if (!smartWalletAddress || !isSmartWalletAvailable) return [];
+    const deposits = depositTokens.map((token, i) => {
+      const balance = (depositTokenBalances?.[i]?.result as bigint | undefined) ?? BigInt(0);
+      return { token, balance, balanceFormatted: formatUnits(balance, token.decimals) };
+    });
+    return [...smartWalletBalances, ...deposits].filter(b => b.balance > BigInt(0));
+  }, [smartWalletAddress, isSmartWalletAvailable, smartWalletBalances, depositTokens, depositTokenBalances]);
+
+  const sweepToWallet = useCallback(async () => {
+    if (!kernelClient || !eoaAddress || sweepableBalances.length === 0) return;
+
+    setIsSweeping(true);
+    setSweepError(null);
+    try {
+      // One UserOperation transfers every token balance back to the connected wallet
+      const userOpHash = await kernelClient.sendUserOperation({
+        calls: sweepableBalances.map(b => ({
+          to: b.token.address,
+          data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [eoaAddress, b.balance] }),
+        })),
+      });
+      debugLog.info(`Sweep submitted: ${userOpHash.slice(0, 10)}...`);
+      await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+      debugLog.info(`Swept ${sweepableBalances.map(b => `${b.balanceFormatted} ${b.token.symbol}`).join(', ')} to ${eoaAddress.slice(0, 10)}`);
+      refetchSmartWalletBalances();
+      refetchDepositTokenBalances();
+    } catch (err) {
+      console.error('Sweep failed:', err);
+      setSweepError(err instanceof Error ? err : new Error('Failed to sweep balances'));
+    } finally {
+      setIsSweeping(false);
+    }
+  }, [kernelClient, eoaAddress, sweepableBalances, refetchSmartWalletBalances, refetchDepositTokenBalances]);
+
+  return {
+    accountMode,
+    setAccountMode,
+    isSmartWalletAvailable,
+    isSmartWalletReady,
+    smartWalletAddress,
+    playerAddress,
+    smartWalletClient,
+    sweepableBalances,
+    sweepToWallet,
+    isSweeping,
+    error: sweepError ?? smartWalletError,
+  };
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, useConfig, usePublicClient, useReadContract, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { formatEther, formatUnits } from 'viem';
+import { ERC20_ABI, SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import {
+  appendAdminAuditEntry,
+  clearAdminAuditLog,
+  loadAdminAuditLog,
+  parseAdminEvents,
+  type AdminActionName,
+  type AdminAuditEntry,
+} from '@/lib/adminAudit';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+import { useTokenRegistry } from './useTokenRegistry';
+
+interface TokenAmount {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+}
+
+// Typed arguments for every owner-facing function
+export type AdminAction =
+  | { name: 'addWeth' }
+  | { name: 'addStablecoin' | 'removeToken'; token: `0x${string}` }
+  | { name: 'addToken'; token: `0x${string}`; pool: `0x${string}` }
+  | { name: 'setMockToken'; token: `0x${string}`; isMock: boolean }
+  | ({ name: 'depositPayoutReserves' | 'withdrawPayoutReserves' | 'depositHouseLiquidity' | 'withdrawHouseLiquidity' } & TokenAmount)
+  | { name: 'depositEntropyFunds' | 'withdrawEntropyFunds'; amount: bigint };
+
+export function isWithdrawalAction(action: AdminAction): boolean {
+  return action.name.startsWith('withdraw');
+}
+
+export function describeAdminAction(action: AdminAction): string {
+  switch (action.name) {
+    case 'addWeth':
+      return 'addWeth()';
+    case 'addStablecoin':
+    case 'removeToken':
+      return `${action.name}(${action.token})`;
+    case 'addToken':
+      return `addToken(${action.token}, ${action.pool})`;
+    case 'setMockToken':
+      return `setMockToken(${action.token}, ${action.isMock})`;
+    case 'depositEntropyFunds':
+    case 'withdrawEntropyFunds':
+      return `${action.name}(${formatEther(action.amount)} ETH)`;
+    default:
+      return `${action.name}(${formatUnits(action.amount, action.decimals)} ${action.symbol})`;
+  }
+}
+
+// Owner console: gated on owner(), records what each call changed
+export function useAdminConsole() {
+  const chainId = useChainId();
+  const config = useConfig();
+  const publicClient = usePublicClient();
+  const { address } = useAccount();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const enabled = !IS_TEST_MODE && contractAddress !== '0x0000000000000000000000000000000000000000';
+
+  const { data: owner, isLoading: isOwnerLoading } = useReadContract({
+    address: contractAddress,
+    abi: SEVEN_ELEVEN_ABI,
+    functionName: 'owner',
+    query: { enabled },
+  });
+
+  const { data: supportedTokens, refetch: refetchSupportedTokens } = useReadContract({
+    address: contractAddress,
+    abi: SEVEN_ELEVEN_ABI,
+    functionName: 'getSupportedTokens',
+    query: { enabled },
+  });
+
+  const { refetch: refetchRegistry } = useTokenRegistry();
+
+  const isOwner = !!address && !!owner && address.toLowerCase() === owner.toLowerCase();
+
+  const { writeContractAsync } = useWriteContract();
+  const [pendingAction, setPendingAction] = useState<AdminActionName | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<AdminAuditEntry[]>([]);
+
+  useEffect(() => {
+    setAuditLog(enabled ? loadAdminAuditLog(chainId, contractAddress) : []);
+  }, [enabled, chainId, contractAddress]);
+
+  // The on-chain value an action changes, as display text
+  const readAffectedValue = useCallback(async (action: AdminAction): Promise<string> => {
+    if (!publicClient) return '—';
+    const contract = { address: contractAddress, abi: SEVEN_ELEVEN_ABI } as const;
+
+    switch (action.name) {
+      case 'addWeth': {
+        const weth = await publicClient.readContract({ ...contract, functionName: 'WETH' });
+        const supported = await publicClient.readContract({ ...contract, functionName: 'isTokenSupported', args: [weth] });
+        return `WETH supported: ${supported}`;
+      }
+      case 'addStablecoin':
+      case 'addToken':
+      case 'removeToken': {
+        const supported = await publicClient.readContract({ ...contract, functionName: 'isTokenSupported', args: [action.token] });
+        return `supported: ${supported}`;
+      }
+      case 'setMockToken': {
+        const isMock = await publicClient.readContract({ ...contract, functionName: 'isMockToken', args: [action.token] });
+        return `mock: ${isMock}`;
+      }
+      case 'depositPayoutReserves':
+      case 'withdrawPayoutReserves': {
+        const reserve = await publicClient.readContract({ ...contract, functionName: 'payoutReserves', args: [action.token] });
+        return `${formatUnits(reserve, action.decimals)} ${action.symbol}`;
+      }
+      case 'depositHouseLiquidity':
+      case 'withdrawHouseLiquidity': {
+        const liquidity = await publicClient.readContract({ ...contract, functionName: 'houseLiquidity', args: [action.token] });
+        return `${formatUnits(liquidity, action.decimals)} ${action.symbol}`;
+      }
+      case 'depositEntropyFunds':
+      case 'withdrawEntropyFunds': {
+        const balance = await publicClient.getBalance({ address: contractAddress });
+        return `${formatEther(balance)} ETH`;
+      }
+    }
+  }, [publicClient, contractAddress]);
+
+  // Deposits pull tokens with transferFrom, so top up the allowance first
+  const ensureAllowance = useCallback(async (token: `0x${string}`, amount: bigint) => {
+    if (!publicClient || !address) return;
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [address, contractAddress],
+    });
+    if (allowance >= amount) return;
+
+    const hash = await writeContractAsync({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [contractAddress, amount],
+    });
+    await waitForTransactionReceipt(config, { hash });
+  }, [publicClient, address, contractAddress, writeContractAsync, config]);
+
+  const send = useCallback(async (action: AdminAction): Promise<`0x${string}`> => {
+    const contract = { address: contractAddress, abi: SEVEN_ELEVEN_ABI } as const;
+
+    switch (action.name) {
+      case 'addWeth':
+        return writeContractAsync({ ...contract, functionName: 'addWeth', args: [] });
+      case 'addStablecoin':
+        return writeContractAsync({ ...contract, functionName: 'addStablecoin', args: [action.token] });
+      case 'removeToken':
+        return writeContractAsync({ ...contract, functionName: 'removeToken', args: [action.token] });
+      case 'addToken':
+        return writeContractAsync({ ...contract, functionName: 'addToken', args: [action.token, action.pool] });
+      case 'setMockToken':
+        return writeContractAsync({ ...contract, functionName: 'setMockToken', args: [action.token, action.isMock] });
+      case 'depositPayoutReserves':
+        await ensureAllowance(action.token, action.amount);
+        return writeContractAsync({ ...contract, functionName: 'depositPayoutReserves', args: [action.token, action.amount] });
+      case 'withdrawPayoutReserves':
+        return writeContractAsync({ ...contract, functionName: 'withdrawPayoutReserves', args: [action.token, action.amount] });
+      case 'depositHouseLiquidity':
+        await ensureAllowance(action.token, action.amount);
+        return writeContractAsync({ ...contract, functionName: 'depositHouseLiquidity', args: [action.token, action.amount] });
+      case 'withdrawHouseLiquidity':
+        return writeContractAsync({ ...contract, functionName: 'withdrawHouseLiquidity', args: [action.token, action.amount] });
+      case 'depositEntropyFunds':
+        return writeContractAsync({ ...contract, functionName: 'depositEntropyFunds', args: [], value: action.amount });
+      case 'withdrawEntropyFunds':
+        return writeContractAsync({ ...contract, functionName: 'withdrawEntropyFunds', args: [action.amount] });
+    }
+  }, [contractAddress, writeContractAsync, ensureAllowance]);
+
+  const execute = useCallback(async (action: AdminAction): Promise<AdminAuditEntry | undefined> => {
+    if (!enabled || !isOwner) return undefined;
+    const summary = describeAdminAction(action);
+    setPendingAction(action.name);
+    setError(null);
+
+    try {
+      const before = await readAffectedValue(action);
+      debugLog.info(`Admin: ${summary}`);
+      const hash = await send(action);
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      if (receipt.status !== 'success') throw new Error(`Transaction reverted: ${hash}`);
+      const after = await readAffectedValue(action);
+
+      const entry: AdminAuditEntry = {
+        action: action.name,
+        summary,
+        before,
+        after,
+        transactionHash: hash,
+        blockNumber: receipt.blockNumber.toString(),
+        timestamp: Date.now(),
+        events: parseAdminEvents(receipt.logs, contractAddress),
+      };
+      setAuditLog(appendAdminAuditEntry(chainId, contractAddress, entry));
+      debugLog.info(`Admin: ${action.name} confirmed (${before} -> ${after})`);
+      refetchSupportedTokens();
+      refetchRegistry();
+      return entry;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Admin ${action.name} failed: ${message}`);
+      setError(message);
+      return undefined;
+    } finally {
+      setPendingAction(null);
+    }
+  }, [enabled, isOwner, readAffectedValue, send, config, chainId, contractAddress, refetchSupportedTokens, refetchRegistry]);
+
+  const clearAuditLog = useCallback(() => {
+    clearAdminAuditLog(chainId, contractAddress);
+    setAuditLog([]);
+  }, [chainId, contractAddress]);
+
+  return {
+    isAvailable: enabled,
+    owner,
+    isOwner,
+    isOwnerLoading,
+    supportedTokens: supportedTokens ?? [],
+    readAffectedValue,
+    execute,
+    pendingAction,
+    error,
+    auditLog,
+    clearAuditLog,
+  };
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { getDeployment } from '@/lib/deployments';
+import { IS_TEST_MODE } from '@/lib/testMode';
+
+// The deployment manifest entry for the connected chain
+export function useDeployment() {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    const deployment = getDeployment(chainId);
+    return {
+      chainId,
+      deployment,
+      // Test mode plays against the in-browser engine, so there is always a game to play
+      isDeployed: IS_TEST_MODE || !!deployment?.sevenEleven,
+    };
+  }, [chainId]);
+}
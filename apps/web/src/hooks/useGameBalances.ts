@@ -0,0 +1,48 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAccount, useChainId, useReadContracts } from 'wagmi';
+import { formatUnits } from 'viem';
+import { SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { useDepositTokens, type SupportedToken } from './useSevenEleven';
+
+export interface GameBalance {
+  token: SupportedToken;
+  amount: bigint;
+  formatted: string;
+}
+
+// Game Balance per deposit token, straight from playerBalances
+export function useGameBalances(playerAddress?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const chainId = useChainId();
+  const depositTokens = useDepositTokens();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const address = playerAddress || eoaAddress;
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: depositTokens.map(token => ({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      functionName: 'playerBalances' as const,
+      args: [address ?? '0x0000000000000000000000000000000000000000', token.address] as const,
+    })),
+    query: {
+      enabled: !IS_TEST_MODE && !!address && contractAddress !== '0x0000000000000000000000000000000000000000',
+      refetchInterval: 10000,
+    },
+  });
+
+  const balances = useMemo((): GameBalance[] => depositTokens.map((token, i) => {
+    const amount = (data?.[i]?.result as bigint | undefined) ?? BigInt(0);
+    return { token, amount, formatted: formatUnits(amount, token.decimals) };
+  }), [depositTokens, data]);
+
+  return {
+    balances,
+    hasAnyBalance: balances.some(b => b.amount > BigInt(0)),
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useChainId, useReadContracts } from 'wagmi';
+import { SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import { BET_USD_CENTS, BPS_DENOMINATOR, WIN_7_11_BPS, WIN_DOUBLES_BPS } from '@/lib/rules';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import type { GameEconomics } from '@/lib/odds';
+
+// Bet size and payout BPS read from the deployed contract (rules.ts constants in test mode)
+export function useGameEconomics(): { economics: GameEconomics; isLive: boolean; isLoading: boolean } {
+  const chainId = useChainId();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const enabled = !IS_TEST_MODE && contractAddress !== '0x0000000000000000000000000000000000000000';
+
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      { address: contractAddress, abi: SEVEN_ELEVEN_ABI, functionName: 'BET_USD_CENTS' },
+      { address: contractAddress, abi: SEVEN_ELEVEN_ABI, functionName: 'WIN_7_11_BPS' },
+      { address: contractAddress, abi: SEVEN_ELEVEN_ABI, functionName: 'WIN_DOUBLES_BPS' },
+      { address: contractAddress, abi: SEVEN_ELEVEN_ABI, functionName: 'BPS_DENOMINATOR' },
+    ],
+    query: { enabled },
+  });
+
+  return useMemo(() => {
+    const [bet, win711, winDoubles, denominator] = data ?? [];
+    const isLive = enabled && [bet, win711, winDoubles, denominator].every(r => r?.status === 'success');
+    return {
+      economics: {
+        betUsdCents: (bet?.result as bigint | undefined) ?? BET_USD_CENTS,
+        win711Bps: (win711?.result as bigint | undefined) ?? WIN_7_11_BPS,
+        winDoublesBps: (winDoubles?.result as bigint | undefined) ?? WIN_DOUBLES_BPS,
+        bpsDenominator: (denominator?.result as bigint | undefined) ?? BPS_DENOMINATOR,
+      },
+      isLive,
+      isLoading: enabled && isLoading,
+    };
+  }, [data, enabled, isLoading]);
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useChainId, usePublicClient, useReadContracts } from 'wagmi';
+import {
+  SEVEN_ELEVEN_ABI,
+  getSevenElevenAddress,
+} from '@/lib/contracts';
+import {
+  RESERVE_WARNING_THRESHOLD_CENTS,
+  getMaxPayoutNeeds,
+  getReserveWarningAmount,
+  type TokenPricing,
+} from '@/lib/rules';
+import { collectLogs } from '@/lib/logs';
+import { findReserveLowCrossings, type ReserveChange, type ReserveLowCrossing } from '@/lib/reserveHistory';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { usePayoutTokens, type SupportedToken } from './useSevenEleven';
+import { useDeployment } from './useDeployment';
+import { debugLog } from '@/components/DebugConsole';
+
+export interface PayoutReserveStatus {
+  token: SupportedToken;
+  amount: bigint;
+  valueCents: bigint | undefined;
+  maxPayoutNeed: bigint | undefined;     // Tokens one max (doubles) payout takes from this reserve
+  payoutsCovered: bigint | undefined;    // Whole max payouts before _checkPayoutReserves reverts
+  warningAmount: bigint | undefined;     // Tokens below which the reserve counts as low
+  isLow: boolean;
+}
+
+export interface HouseLiquidityStatus {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  amount: bigint;
+}
+
+export type ReservesLowEvent = ReserveLowCrossing & { symbol: string };
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Operator view of everything that keeps the house able to pay out
+export function useHouseSolvency() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const enabled = !IS_TEST_MODE && contractAddress !== ZERO_ADDRESS;
+
+  const payoutTokens = usePayoutTokens();
+  const { deployment } = useDeployment();
+  const depositTokens = useMemo(() => {
+    // Reads stay disabled without a deployment, so the zero placeholders are never queried
+    const tokens = deployment?.tokens;
+    return [
+      { symbol: 'USDC', address: tokens?.USDC ?? ZERO_ADDRESS, decimals: 6 },
+      { symbol: 'WETH', address: tokens?.WETH ?? ZERO_ADDRESS, decimals: 18 },
+    ];
+  }, [deployment]);
+
+  const contract = { address: contractAddress, abi: SEVEN_ELEVEN_ABI } as const;
+
+  const { data: globals, isLoading: globalsLoading, refetch: refetchGlobals } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: 'getPayoutReserves' },
+      { ...contract, functionName: 'RESERVE_WARNING_THRESHOLD' },
+      { ...contract, functionName: 'getEntropyBalance' },
+      { ...contract, functionName: 'getEntropyFee' },
+      { ...contract, functionName: 'getEthUsdPrice' },
+      { ...contract, functionName: 'houseLiquidity', args: [depositTokens[0].address] },
+      { ...contract, functionName: 'houseLiquidity', args: [depositTokens[1].address] },
+    ],
+    query: { enabled, refetchInterval: REFRESH_INTERVAL_MS },
+  });
+
+  const [reservesRaw, thresholdRaw, entropyBalanceRaw, entropyFeeRaw, ethUsdRaw, usdcLiquidityRaw, wethLiquidityRaw] = globals ?? [];
+  const reserves = reservesRaw?.result as readonly [bigint, bigint, bigint] | undefined;
+
+  // Per-token pricing inputs, so coverage uses the contract's own _centsToTokenAmount math
+  const { data: pricingRaw, isLoading: pricingLoading, refetch: refetchPricing } = useReadContracts({
+    contracts: payoutTokens.flatMap((token, i) => [
+      { ...contract, functionName: 'isMockToken' as const, args: [token.address] as const },
+      { ...contract, functionName: 'getTokenEthPrice' as const, args: [token.address] as const },
+      { ...contract, functionName: 'getTokenValueInCents' as const, args: [token.address, reserves?.[i] ?? BigInt(0)] as const },
+    ]),
+    query: { enabled: enabled && !!reserves, refetchInterval: REFRESH_INTERVAL_MS },
+  });
+
+  const thresholdCents = (thresholdRaw?.result as bigint | undefined) ?? RESERVE_WARNING_THRESHOLD_CENTS;
+
+  const payoutReserves = useMemo((): PayoutReserveStatus[] => {
+    if (!reserves) return [];
+    const ethUsdPrice = ethUsdRaw?.result as bigint | undefined;
+
+    const pricings = payoutTokens.map((token, i): TokenPricing | undefined => {
+      const isMock = pricingRaw?.[i * 3]?.result as boolean | undefined;
+      const tokenEthPriceX96 = pricingRaw?.[i * 3 + 1]?.result as bigint | undefined;
+      if (isMock) return { kind: 'mock' };
+      if (tokenEthPriceX96 === undefined || ethUsdPrice === undefined) return undefined;
+      return { kind: 'oracle', decimals: token.decimals, tokenEthPriceX96, ethUsdPrice };
+    });
+
+    const [mfer, bnkr, drb] = pricings;
+    const needs = mfer && bnkr && drb ? getMaxPayoutNeeds({ mfer, bnkr, drb }) : undefined;
+    const needList = needs ? [needs.mfer, needs.bnkr, needs.drb] : [];
+
+    return payoutTokens.slice(0, 3).map((token, i) => {
+      const amount = reserves[i] ?? BigInt(0);
+      const maxPayoutNeed = needList[i];
+      const warningAmount = pricings[i] ? getReserveWarningAmount(pricings[i] as TokenPricing, thresholdCents) : undefined;
+      return {
+        token,
+        amount,
+        valueCents: pricingRaw?.[i * 3 + 2]?.result as bigint | undefined,
+        maxPayoutNeed,
+        payoutsCovered: maxPayoutNeed && maxPayoutNeed > BigInt(0) ? amount / maxPayoutNeed : undefined,
+        warningAmount,
+        isLow: warningAmount !== undefined && amount < warningAmount,
+      };
+    });
+  }, [reserves, ethUsdRaw, pricingRaw, payoutTokens, thresholdCents]);
+
+  const houseLiquidity = useMemo((): HouseLiquidityStatus[] => [
+    { ...depositTokens[0], amount: (usdcLiquidityRaw?.result as bigint | undefined) ?? BigInt(0) },
+    { ...depositTokens[1], amount: (wethLiquidityRaw?.result as bigint | undefined) ?? BigInt(0) },
+  ], [depositTokens, usdcLiquidityRaw, wethLiquidityRaw]);
+
+  const entropyBalance = entropyBalanceRaw?.result as bigint | undefined;
+  const entropyFee = entropyFeeRaw?.result as bigint | undefined;
+
+  // ReservesLow history, rebuilt from the logs that move payout reserves since the contract never emits it
+  const [reserveHistory, setReserveHistory] = useState<{ reservesAtEnd: Map<`0x${string}`, bigint>; changes: ReserveChange[] } | null>(null);
+  const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    if (!enabled || !publicClient) return;
+    setIsLoadingEvents(true);
+    setEventsError(null);
+    try {
+      const toBlock = await publicClient.getBlockNumber();
+      // Reserves at the scan's last block, so later rolls can't skew the walk back
+      const [mfer, bnkr, drb] = await publicClient.readContract({
+        address: contractAddress,
+        abi: SEVEN_ELEVEN_ABI,
+        functionName: 'getPayoutReserves',
+        blockNumber: toBlock,
+      });
+      const [mferToken, bnkrToken, drbToken] = payoutTokens.map(t => t.address);
+
+      const logs = await collectLogs({
+        publicClient,
+        toBlock,
+        fetchChunk: (fromBlock, chunkEnd) => publicClient.getContractEvents({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          fromBlock,
+          toBlock: chunkEnd,
+        }),
+      });
+
+      const changes: ReserveChange[] = [];
+      for (const log of logs) {
+        const at = { blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash };
+        if (log.eventName === 'RollSettled') {
+          const { mferPayout, bnkrPayout, drbPayout, mferSkimmed } = log.args;
+          const mferOut = (mferPayout ?? BigInt(0)) + (mferSkimmed ?? BigInt(0));
+          if (mferOut > BigInt(0)) changes.push({ token: mferToken, delta: -mferOut, ...at });
+          if (bnkrPayout) changes.push({ token: bnkrToken, delta: -bnkrPayout, ...at });
+          if (drbPayout) changes.push({ token: drbToken, delta: -drbPayout, ...at });
+        } else if (log.eventName === 'PayoutReservesDeposited' || log.eventName === 'PayoutReservesWithdrawn') {
+          const { token, amount } = log.args;
+          if (token === undefined || amount === undefined) continue;
+          changes.push({ token, delta: log.eventName === 'PayoutReservesDeposited' ? amount : -amount, ...at });
+        }
+      }
+
+      setReserveHistory({
+        reservesAtEnd: new Map([[mferToken, mfer], [bnkrToken, bnkr], [drbToken, drb]]),
+        changes,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Failed to load payout reserve history: ${message}`);
+      setEventsError(message);
+    } finally {
+      setIsLoadingEvents(false);
+    }
+  }, [enabled, publicClient, contractAddress, payoutTokens]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const lowEvents = useMemo((): ReservesLowEvent[] => {
+    if (!reserveHistory) return [];
+    const thresholds = new Map<`0x${string}`, bigint>();
+    for (const reserve of payoutReserves) {
+      if (reserve.warningAmount !== undefined) thresholds.set(reserve.token.address, reserve.warningAmount);
+    }
+    return findReserveLowCrossings(reserveHistory.reservesAtEnd, thresholds, reserveHistory.changes).map(crossing => ({
+      ...crossing,
+      symbol: payoutTokens.find(t => t.address.toLowerCase() === crossing.token.toLowerCase())?.symbol ?? crossing.token,
+    }));
+  }, [reserveHistory, payoutReserves, payoutTokens]);
+
+  const refetch = useCallback(() => {
+    refetchGlobals();
+    refetchPricing();
+    loadEvents();
+  }, [refetchGlobals, refetchPricing, loadEvents]);
+
+  return {
+    isAvailable: enabled,
+    payoutReserves,
+    houseLiquidity,
+    entropyBalance,
+    entropyFee,
+    // Rolls the entropy balance can still pay for at the current fee
+    entropyRollsCovered: entropyBalance !== undefined && entropyFee && entropyFee > BigInt(0) ? entropyBalance / entropyFee : undefined,
+    thresholdCents,
+    lowEvents,
+    isLoading: globalsLoading || pricingLoading,
+    isLoadingEvents,
+    eventsError,
+    refetch,
+  };
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import {
+  SEVEN_ELEVEN_ABI,
+  getSevenElevenAddress,
+  type RollOutcome,
+} from '@/lib/contracts';
+import { getDeployment } from '@/lib/deployments';
+import { LOG_CHUNK_SIZE, findDeploymentBlock } from '@/lib/logs';
+import {
+  buildLedger,
+  downloadFile,
+  ledgerToCsv,
+  ledgerToJson,
+  type LedgerLogEvent,
+  type LedgerToken,
+  type TimestampedLedgerEvent,
+} from '@/lib/ledger';
+import { usePayoutTokens } from './useSevenEleven';
+import { debugLog } from '@/components/DebugConsole';
+
+export type LedgerFormat = 'csv' | 'json';
+
+// Build the player's ledger from contract logs and download it
+export function useLedgerExport(playerAddress?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const address = playerAddress ?? eoaAddress;
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const payoutTokens = usePayoutTokens();
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportLedger = useCallback(async (format: LedgerFormat) => {
+    if (!publicClient || !address) return;
+    const deployment = getDeployment(chainId);
+    if (!deployment?.sevenEleven) {
+      setError('Contract not deployed on this network');
+      return;
+    }
+
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const usdc: LedgerToken = { address: deployment.tokens.USDC, symbol: 'USDC', decimals: 6 };
+      const weth: LedgerToken = { address: deployment.tokens.WETH, symbol: 'WETH', decimals: 18 };
+
+      // The whole history since deployment, so the file reconciles to the current Game Balance
+      const toBlock = await publicClient.getBlockNumber();
+      let fromBlock: bigint;
+      if (deployment.sevenElevenDeployBlock !== null) {
+        fromBlock = BigInt(deployment.sevenElevenDeployBlock);
+      } else {
+        try {
+          fromBlock = await findDeploymentBlock(publicClient, deployment.sevenEleven, toBlock);
+        } catch (err) {
+          console.warn('Failed to find the SevenEleven deployment block:', err);
+          throw new Error('Deployment block unknown: set sevenElevenDeployBlock in deployments.json');
+        }
+      }
+      debugLog.info(`Exporting ledger for blocks ${fromBlock}-${toBlock}`);
+
+      // Collect every event touching the player's Game Balance
+      const events: LedgerLogEvent[] = [];
+      let start = fromBlock;
+      while (start <= toBlock) {
+        const end = start + LOG_CHUNK_SIZE - BigInt(1) < toBlock ? start + LOG_CHUNK_SIZE - BigInt(1) : toBlock;
+        const range = { address: contractAddress, abi: SEVEN_ELEVEN_ABI, fromBlock: start, toBlock: end } as const;
+
+        const [deposited, withdrawn, withdrawnAll, requested, settled] = await Promise.all([
+          publicClient.getContractEvents({ ...range, eventName: 'Deposited', args: { player: address } }),
+          publicClient.getContractEvents({ ...range, eventName: 'Withdrawn', args: { player: address } }),
+          publicClient.getContractEvents({ ...range, eventName: 'WithdrawnAll', args: { player: address } }),
+          publicClient.getContractEvents({ ...range, eventName: 'RollRequested', args: { player: address } }),
+          publicClient.getContractEvents({ ...range, eventName: 'RollSettled', args: { player: address } }),
+        ]);
+
+        for (const log of deposited) {
+          const { token, amount } = log.args;
+          if (token === undefined || amount === undefined) continue;
+          events.push({ kind: 'deposit', token, amount, blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash });
+        }
+        for (const log of withdrawn) {
+          const { token, amount } = log.args;
+          if (token === undefined || amount === undefined) continue;
+          events.push({ kind: 'withdraw', token, amount, blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash });
+        }
+        for (const log of withdrawnAll) {
+          const { usdcAmount, wethAmount } = log.args;
+          if (usdcAmount === undefined || wethAmount === undefined) continue;
+          events.push({ kind: 'withdrawAll', usdcAmount, wethAmount, blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash });
+        }
+        for (const log of requested) {
+          const { sequenceNumber, token, betAmount } = log.args;
+          if (sequenceNumber === undefined || token === undefined || betAmount === undefined) continue;
+          events.push({ kind: 'rollRequested', sequenceNumber, token, betAmount, blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash });
+        }
+        for (const log of settled) {
+          const { sequenceNumber, die1, die2, rollOutcome, mferPayout, bnkrPayout, drbPayout, mferSkimmed, playerBalance } = log.args;
+          if (
+            sequenceNumber === undefined || die1 === undefined || die2 === undefined || rollOutcome === undefined ||
+            mferPayout === undefined || bnkrPayout === undefined || drbPayout === undefined ||
+            mferSkimmed === undefined || playerBalance === undefined
+          ) {
+            continue;
+          }
+          events.push({
+            kind: 'rollSettled',
+            sequenceNumber,
+            die1,
+            die2,
+            rollOutcome: rollOutcome as RollOutcome,
+            mferPayout,
+            bnkrPayout,
+            drbPayout,
+            mferSkimmed,
+            playerBalance,
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+            transactionHash: log.transactionHash,
+          });
+        }
+
+        setProgress(Number(((end - fromBlock + BigInt(1)) * BigInt(100)) / (toBlock - fromBlock + BigInt(1))));
+        start = end + BigInt(1);
+      }
+
+      // Value meme amounts at the settlement block (needs an archive RPC; left blank otherwise)
+      const valueAt = async (token: `0x${string}` | undefined, amount: bigint, blockNumber: bigint) => {
+        if (!token || amount === BigInt(0)) return BigInt(0);
+        try {
+          return await publicClient.readContract({
+            address: contractAddress,
+            abi: SEVEN_ELEVEN_ABI,
+            functionName: 'getTokenValueInCents',
+            args: [token, amount],
+            blockNumber,
+          });
+        } catch {
+          return undefined;
+        }
+      };
+
+      let missingPrices = 0;
+      const blockTimes = new Map<bigint, number>();
+      const timestamped: TimestampedLedgerEvent[] = [];
+      for (const event of events) {
+        if (!blockTimes.has(event.blockNumber)) {
+          const block = await publicClient.getBlock({ blockNumber: event.blockNumber });
+          blockTimes.set(event.blockNumber, Number(block.timestamp) * 1000);
+        }
+        const timestamp = blockTimes.get(event.blockNumber) ?? 0;
+
+        if (event.kind === 'rollSettled') {
+          const [mferValueCents, bnkrValueCents, drbValueCents, skimValueCents] = await Promise.all([
+            valueAt(payoutTokens[0]?.address, event.mferPayout, event.blockNumber),
+            valueAt(payoutTokens[1]?.address, event.bnkrPayout, event.blockNumber),
+            valueAt(payoutTokens[2]?.address, event.drbPayout, event.blockNumber),
+            valueAt(payoutTokens[0]?.address, event.mferSkimmed, event.blockNumber),
+          ]);
+          if ([mferValueCents, bnkrValueCents, drbValueCents, skimValueCents].includes(undefined)) missingPrices++;
+          timestamped.push({ ...event, timestamp, mferValueCents, bnkrValueCents, drbValueCents, skimValueCents });
+        } else {
+          timestamped.push({ ...event, timestamp });
+        }
+      }
+      if (missingPrices > 0) {
+        debugLog.warn(`No historical price for ${missingPrices} rolls (RPC has no archive state)`);
+      }
+
+      const [usdcBalance, wethBalance] = await Promise.all([usdc, weth].map(token =>
+        publicClient.readContract({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'getBalance',
+          args: [address, token.address],
+          blockNumber: toBlock,
+        })
+      ));
+
+      const ledger = buildLedger({
+        player: address,
+        chainId,
+        fromBlock,
+        toBlock,
+        usdc,
+        weth,
+        closingBalances: {
+          [usdc.address.toLowerCase()]: usdcBalance,
+          [weth.address.toLowerCase()]: wethBalance,
+        },
+        events: timestamped,
+      });
+
+      const filename = `mferroll-ledger-${chainId}-${address.slice(0, 8)}-${toBlock}`;
+      if (format === 'csv') {
+        downloadFile(`${filename}.csv`, ledgerToCsv(ledger), 'text/csv');
+      } else {
+        downloadFile(`${filename}.json`, ledgerToJson(ledger), 'application/json');
+      }
+      debugLog.info(`Exported ${ledger.rows.length} ledger rows`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Ledger export failed: ${message}`);
+      setError(message);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [publicClient, address, chainId, contractAddress, payoutTokens]);
+
+  return { exportLedger, isExporting, progress, error };
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, useConfig, usePublicClient, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { bytesToHex, parseUnits } from 'viem';
+import { CHAIN_ID, PYTH_ENTROPY_ABI, SEVEN_ELEVEN_ABI } from '@/lib/contracts';
+import {
+  LOCAL_DEPLOYMENT,
+  MOCK_ERC20_ABI,
+  MOCK_PRICE_FEED_ABI,
+  randomnessForDice,
+} from '@/lib/localDevnet';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const PENDING_POLL_MS = 2000;
+const MINT_USDC_AMOUNT = parseUnits('100', 6);
+
+// Dev-only controls for the anvil profile: reveal MockEntropy requests, mint mock USDC, refresh the price feed
+export function useLocalDevnet(playerAddress?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const chainId = useChainId();
+  const config = useConfig();
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const player = playerAddress || eoaAddress;
+  const deployment = chainId === CHAIN_ID.LOCAL && !IS_TEST_MODE ? LOCAL_DEPLOYMENT : null;
+
+  const [pendingRolls, setPendingRolls] = useState<bigint[]>([]);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rolls requested by the player whose entropy callback hasn't run yet.
+  // anvil has no Multicall3, so pendingRolls is read one call at a time.
+  const loadPendingRolls = useCallback(async () => {
+    if (!deployment || !publicClient || !player) return;
+    try {
+      const requested = await publicClient.getContractEvents({
+        address: deployment.sevenEleven,
+        abi: SEVEN_ELEVEN_ABI,
+        eventName: 'RollRequested',
+        args: { player },
+        fromBlock: BigInt(0),
+      });
+      const pending: bigint[] = [];
+      for (const log of requested) {
+        const sequenceNumber = log.args.sequenceNumber;
+        if (sequenceNumber === undefined) continue;
+        const [rollPlayer] = await publicClient.readContract({
+          address: deployment.sevenEleven,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'pendingRolls',
+          args: [sequenceNumber],
+        });
+        if (rollPlayer !== ZERO_ADDRESS) pending.push(sequenceNumber);
+      }
+      setPendingRolls(pending);
+    } catch (err) {
+      debugLog.error(`Failed to load pending rolls: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [deployment, publicClient, player]);
+
+  useEffect(() => {
+    if (!deployment) {
+      setPendingRolls([]);
+      return;
+    }
+    loadPendingRolls();
+    const interval = setInterval(loadPendingRolls, PENDING_POLL_MS);
+    return () => clearInterval(interval);
+  }, [deployment, loadPendingRolls]);
+
+  const runAction = useCallback(async (name: string, send: () => Promise<`0x${string}`>) => {
+    setBusyAction(name);
+    setError(null);
+    try {
+      const hash = await send();
+      await waitForTransactionReceipt(config, { hash });
+      debugLog.info(`Devnet ${name}: ${hash.slice(0, 10)}...`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Devnet ${name} failed: ${message}`);
+      setError(message);
+    } finally {
+      setBusyAction(null);
+    }
+  }, [config]);
+
+  // Calls MockEntropy.fulfillRandomness, which runs SevenEleven's entropy callback and settles the roll.
+  // With dice, the randomness is chosen so the roll lands on them.
+  const reveal = useCallback(async (sequenceNumber: bigint, dice?: [number, number]) => {
+    if (!deployment) return;
+    const randomNumber = dice
+      ? randomnessForDice(dice[0], dice[1])
+      : bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+    await runAction(`reveal #${sequenceNumber}`, () => writeContractAsync({
+      address: deployment.entropy,
+      abi: PYTH_ENTROPY_ABI,
+      functionName: 'fulfillRandomness',
+      args: [sequenceNumber, randomNumber],
+    }));
+    loadPendingRolls();
+  }, [deployment, runAction, writeContractAsync, loadPendingRolls]);
+
+  // Mock USDC goes to the connected wallet, which funds deposits in either account mode
+  const mintUsdc = useCallback(async () => {
+    if (!deployment || !eoaAddress) return;
+    await runAction('mint USDC', () => writeContractAsync({
+      address: deployment.tokens.USDC,
+      abi: MOCK_ERC20_ABI,
+      functionName: 'mint',
+      args: [eoaAddress, MINT_USDC_AMOUNT],
+    }));
+  }, [deployment, eoaAddress, runAction, writeContractAsync]);
+
+  // SevenEleven reverts with PriceStale once the feed is an hour old; re-set the same price
+  const refreshPriceFeed = useCallback(async () => {
+    if (!deployment || !publicClient) return;
+    const price = await publicClient.readContract({
+      address: deployment.ethUsdFeed,
+      abi: MOCK_PRICE_FEED_ABI,
+      functionName: 'price',
+    });
+    await runAction('refresh price', () => writeContractAsync({
+      address: deployment.ethUsdFeed,
+      abi: MOCK_PRICE_FEED_ABI,
+      functionName: 'setPrice',
+      args: [price],
+    }));
+  }, [deployment, publicClient, runAction, writeContractAsync]);
+
+  return {
+    isAvailable: !!deployment,
+    pendingRolls,
+    reveal,
+    mintUsdc,
+    refreshPriceFeed,
+    busyAction,
+    error,
+  };
+}
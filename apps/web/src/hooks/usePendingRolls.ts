@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RollResult, RollResultSource } from '@/lib/rollResults';
+import { debugLog } from '@/components/DebugConsole';
+
+// A dismissed roll with no result after this long is flagged as stale
+const STALE_ROLL_MS = 2 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 10 * 1000;
+
+// The callback can land before our receipt wait returns, so unmatched results wait this long before counting as orphans
+const ORPHAN_GRACE_MS = 30 * 1000;
+
+export type TrackedRollStatus =
+  | 'pending'    // Waiting for the entropy callback
+  | 'settled'    // Result arrived (late if it wasn't the active roll)
+  | 'stale'      // No result long after the request
+  | 'orphaned';  // Result for a roll this page never requested (another tab or device)
+
+export interface TrackedRoll {
+  sequenceNumber: bigint;
+  via: 'wallet' | 'sessionKey' | 'unknown';
+  requestedAt: number;
+  status: TrackedRollStatus;
+  result?: RollResult;
+}
+
+interface UsePendingRollsOptions {
+  // Result for the roll the dice animation is waiting on
+  onActiveSettled: (result: RollResult) => void;
+  // Result for any other roll (late, or orphaned)
+  onOtherSettled?: (roll: TrackedRoll) => void;
+}
+
+// Per-roll queue keyed by sequence number: routes each settlement to the roll that requested it
+export function usePendingRolls(
+  source: RollResultSource | undefined,
+  { onActiveSettled, onOtherSettled }: UsePendingRollsOptions
+) {
+  const rollsRef = useRef<Map<string, TrackedRoll>>(new Map());
+  const activeRef = useRef<string | null>(null);
+  const unmatchedRef = useRef<Map<string, { result: RollResult; timer: ReturnType<typeof setTimeout> }>>(new Map());
+  const [rolls, setRolls] = useState<TrackedRoll[]>([]);
+
+  const onActiveSettledRef = useRef(onActiveSettled);
+  const onOtherSettledRef = useRef(onOtherSettled);
+  onActiveSettledRef.current = onActiveSettled;
+  onOtherSettledRef.current = onOtherSettled;
+
+  const publish = useCallback(() => {
+    setRolls(Array.from(rollsRef.current.values()));
+  }, []);
+
+  const surface = useCallback((roll: TrackedRoll) => {
+    rollsRef.current.set(roll.sequenceNumber.toString(), roll);
+    publish();
+    onOtherSettledRef.current?.(roll);
+  }, [publish]);
+
+  useEffect(() => {
+    if (!source) return;
+
+    return source.subscribe((result) => {
+      const key = result.sequenceNumber.toString();
+      const tracked = rollsRef.current.get(key);
+
+      if (tracked && activeRef.current === key) {
+        // The active roll is done - it no longer needs a queue entry
+        rollsRef.current.delete(key);
+        activeRef.current = null;
+        publish();
+        onActiveSettledRef.current(result);
+        return;
+      }
+
+      if (tracked) {
+        debugLog.warn(`Roll #${key} settled late`);
+        surface({ ...tracked, status: 'settled', result });
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        unmatchedRef.current.delete(key);
+        debugLog.warn(`Roll #${key} settled without a matching request`);
+        surface({
+          sequenceNumber: result.sequenceNumber,
+          via: 'unknown',
+          requestedAt: Date.now(),
+          status: 'orphaned',
+          result,
+        });
+      }, ORPHAN_GRACE_MS);
+      unmatchedRef.current.set(key, { result, timer });
+    });
+  }, [source, publish, surface]);
+
+  useEffect(() => {
+    const unmatched = unmatchedRef.current;
+    return () => {
+      unmatched.forEach(({ timer }) => clearTimeout(timer));
+      unmatched.clear();
+    };
+  }, []);
+
+  // Flag dismissed rolls that never settled
+  useEffect(() => {
+    const interval = setInterval(() => {
+      let changed = false;
+      rollsRef.current.forEach((roll, key) => {
+        if (roll.status === 'pending' && key !== activeRef.current && Date.now() - roll.requestedAt > STALE_ROLL_MS) {
+          rollsRef.current.set(key, { ...roll, status: 'stale' });
+          changed = true;
+        }
+      });
+      if (changed) publish();
+    }, STALE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [publish]);
+
+  // Start tracking a roll and make it the one the animation waits on
+  const track = useCallback((sequenceNumber: bigint, via: TrackedRoll['via']) => {
+    const key = sequenceNumber.toString();
+    const previous = activeRef.current;
+    if (previous && previous !== key) {
+      debugLog.warn(`Roll #${previous} still in flight, now waiting on #${key}`);
+    }
+
+    // The result may already be here if the callback landed before the receipt wait returned
+    const early = unmatchedRef.current.get(key);
+    if (early) {
+      clearTimeout(early.timer);
+      unmatchedRef.current.delete(key);
+      activeRef.current = null;
+      publish();
+      onActiveSettledRef.current(early.result);
+      return;
+    }
+
+    rollsRef.current.set(key, { sequenceNumber, via, requestedAt: Date.now(), status: 'pending' });
+    activeRef.current = key;
+    publish();
+  }, [publish]);
+
+  // Stop animating the active roll; its result will surface as a late settlement
+  const detachActive = useCallback(() => {
+    activeRef.current = null;
+    publish();
+  }, [publish]);
+
+  const dismiss = useCallback((sequenceNumber: bigint) => {
+    rollsRef.current.delete(sequenceNumber.toString());
+    publish();
+  }, [publish]);
+
+  // Rolls that need the player's attention (everything except the active one)
+  const backgroundRolls = rolls.filter(roll => roll.sequenceNumber.toString() !== activeRef.current);
+
+  return { rolls: backgroundRolls, track, detachActive, dismiss };
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { getSevenElevenAddress } from '@/lib/contracts';
+import { getDeployment } from '@/lib/deployments';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import {
+  getRollHistory,
+  getSessionHistory,
+  rollResultToEntry,
+  saveRollHistoryEntries,
+  subscribeRollHistory,
+  syncRollHistory,
+  type RollHistoryEntry,
+  type RollHistorySyncState,
+  type SessionHistoryEntry,
+} from '@/lib/rollHistory';
+import { useRollResults } from './useRollResults';
+import { debugLog } from '@/components/DebugConsole';
+
+// Roll history for the player (the connected wallet unless another player account is passed):
+// IndexedDB cache, backfilled from contract logs
+export function useRollHistory(playerAddress?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const address = playerAddress ?? eoaAddress;
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const deployBlock = getDeployment(chainId)?.sevenElevenDeployBlock ?? null;
+
+  const [entries, setEntries] = useState<RollHistoryEntry[]>([]);
+  const [sessions, setSessions] = useState<SessionHistoryEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncState, setSyncState] = useState<RollHistorySyncState | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload from IndexedDB whenever the store changes
+  useEffect(() => {
+    if (!address) {
+      setEntries([]);
+      setSessions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      Promise.all([getRollHistory(chainId, address), getSessionHistory(chainId, address)])
+        .then(([rolls, sessionRows]) => {
+          if (cancelled) return;
+          setEntries(rolls);
+          setSessions(sessionRows);
+        })
+        .catch(err => console.warn('Failed to load roll history:', err));
+    };
+
+    load();
+    const unsubscribe = subscribeRollHistory(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [address, chainId]);
+
+  const sync = useCallback(async (backfill: boolean = true) => {
+    if (IS_TEST_MODE || !publicClient || !address) return;
+    if (contractAddress === '0x0000000000000000000000000000000000000000') return;
+
+    setIsSyncing(true);
+    setError(null);
+
+    try {
+      const state = await syncRollHistory(
+        {
+          publicClient,
+          chainId,
+          contractAddress,
+          player: address,
+          deployBlock: deployBlock !== null ? BigInt(deployBlock) : undefined,
+        },
+        { backfill, onProgress: setSyncState }
+      );
+      setSyncState(state);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Roll history sync failed: ${message}`);
+      setError(message);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [publicClient, address, chainId, contractAddress, deployBlock]);
+
+  // Backfill on connect
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  // Record settlements as they arrive; the next sync fills in the request side
+  useRollResults((result) => {
+    // Test mode results have no block, so stamp them with local time
+    const entry = { ...rollResultToEntry(chainId, result), requestedAt: result.blockNumber === undefined ? Date.now() : undefined };
+    // Only the blocks since the last sync; the backfill already ran on connect
+    saveRollHistoryEntries([entry])
+      .then(() => sync(false))
+      .catch(err => console.warn('Failed to save roll:', err));
+  }, address);
+
+  return { entries, sessions, isSyncing, syncState, error, sync };
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { getSevenElevenAddress } from '@/lib/contracts';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import {
+  acquireRollResultSource,
+  createMockRollResultSource,
+  createPollingRollResultSource,
+  createWebSocketRollResultSource,
+  getWebSocketRpcUrl,
+  type RollResult,
+  type RollResultSource,
+} from '@/lib/rollResults';
+import { debugLog } from '@/components/DebugConsole';
+
+// Shared roll result source for the player (defaults to the connected wallet)
+export function useRollResultSource(playerAddress?: `0x${string}`): RollResultSource | undefined {
+  const { address: eoaAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const [source, setSource] = useState<RollResultSource | undefined>();
+
+  const player = playerAddress || eoaAddress;
+  const contractAddress = getSevenElevenAddress(chainId);
+
+  useEffect(() => {
+    if (!player || (!IS_TEST_MODE && !publicClient)) {
+      setSource(undefined);
+      return;
+    }
+
+    const wsUrl = getWebSocketRpcUrl(chainId);
+    const kind = IS_TEST_MODE ? 'mock' : wsUrl ? 'websocket' : 'polling';
+    const key = `${kind}:${chainId}:${contractAddress.toLowerCase()}:${player.toLowerCase()}`;
+
+    const { source: acquired, release } = acquireRollResultSource(key, () => {
+      debugLog.debug(`Roll results via ${kind}`);
+      if (kind === 'mock') return createMockRollResultSource({ player });
+      if (kind === 'websocket' && wsUrl) return createWebSocketRollResultSource({ url: wsUrl, contractAddress, player });
+      return createPollingRollResultSource({ publicClient: publicClient!, contractAddress, player });
+    });
+
+    setSource(acquired);
+    return release;
+  }, [player, chainId, contractAddress, publicClient]);
+
+  return source;
+}
+
+// Call `onResult` for every settled roll of the player
+export function useRollResults(
+  onResult: (result: RollResult) => void,
+  playerAddress?: `0x${string}`
+): RollResultSource | undefined {
+  const source = useRollResultSource(playerAddress);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    if (!source) return;
+    return source.subscribe(result => onResultRef.current(result));
+  }, [source]);
+
+  return source;
+}
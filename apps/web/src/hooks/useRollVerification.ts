@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useChainId, usePublicClient } from 'wagmi';
+import { decodeFunctionData } from 'viem';
+import {
+  PYTH_ENTROPY_ABI,
+  RollOutcome,
+  SEVEN_ELEVEN_ABI,
+  getSevenElevenAddress,
+} from '@/lib/contracts';
+import { deriveDice, determineWinType, winTypeToRollOutcome } from '@/lib/rules';
+import { findLogsBackwards, findLogsForwards } from '@/lib/logs';
+import { debugLog } from '@/components/DebugConsole';
+
+export interface RollVerification {
+  sequenceNumber: bigint;
+  player: `0x${string}`;
+  token: `0x${string}`;
+  betAmount: bigint;
+  requestTxHash: `0x${string}`;
+  requestBlock: bigint;
+  // Still waiting on the entropy callback (pendingRolls entry exists)
+  isPending: boolean;
+  settled?: {
+    die1: number;
+    die2: number;
+    rollOutcome: RollOutcome;
+    txHash: `0x${string}`;
+    blockNumber: bigint;
+  };
+  reveal?: {
+    randomNumber: `0x${string}`;
+    source: 'pyth' | 'mock';  // Pyth Revealed event, or MockEntropy fulfillRandomness calldata
+    userContribution?: `0x${string}`;
+    providerContribution?: `0x${string}`;
+  };
+  recomputed?: {
+    die1: number;
+    die2: number;
+    rollOutcome: RollOutcome;
+  };
+  diceMatch?: boolean;
+  outcomeMatch?: boolean;
+}
+
+// Fetch RollRequested, RollSettled and the entropy reveal for a roll, then recompute the dice
+export function useRollVerification() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const contractAddress = getSevenElevenAddress(chainId);
+
+  const [result, setResult] = useState<RollVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async (sequenceNumber: bigint) => {
+    if (!publicClient) {
+      setError('No RPC client available');
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      debugLog.info(`Verifying roll #${sequenceNumber}`);
+
+      const [requestLog] = await findLogsBackwards({
+        publicClient,
+        fetchChunk: (fromBlock, toBlock) => publicClient.getContractEvents({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          eventName: 'RollRequested',
+          args: { sequenceNumber },
+          fromBlock,
+          toBlock,
+        }),
+      });
+
+      if (!requestLog) {
+        throw new Error(`No RollRequested event found for roll #${sequenceNumber}`);
+      }
+
+      const { player, token, betAmount } = requestLog.args;
+      if (!player || !token || betAmount === undefined) {
+        throw new Error('RollRequested event is missing fields');
+      }
+
+      const verification: RollVerification = {
+        sequenceNumber,
+        player,
+        token,
+        betAmount,
+        requestTxHash: requestLog.transactionHash,
+        requestBlock: requestLog.blockNumber,
+        isPending: false,
+      };
+
+      const [pendingPlayer] = await publicClient.readContract({
+        address: contractAddress,
+        abi: SEVEN_ELEVEN_ABI,
+        functionName: 'pendingRolls',
+        args: [sequenceNumber],
+      });
+      verification.isPending = pendingPlayer !== '0x0000000000000000000000000000000000000000';
+
+      const [settledLog] = verification.isPending ? [] : await findLogsForwards({
+        publicClient,
+        fromBlock: requestLog.blockNumber,
+        fetchChunk: (fromBlock, toBlock) => publicClient.getContractEvents({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          eventName: 'RollSettled',
+          args: { sequenceNumber },
+          fromBlock,
+          toBlock,
+        }),
+      });
+
+      if (settledLog) {
+        const { die1, die2, rollOutcome } = settledLog.args;
+        if (die1 === undefined || die2 === undefined || rollOutcome === undefined) {
+          throw new Error('RollSettled event is missing fields');
+        }
+        verification.settled = {
+          die1,
+          die2,
+          rollOutcome: rollOutcome as RollOutcome,
+          txHash: settledLog.transactionHash,
+          blockNumber: settledLog.blockNumber,
+        };
+
+        // The reveal happens in the same transaction as the callback
+        const entropyAddress = await publicClient.readContract({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'entropy',
+        });
+
+        const revealLogs = await publicClient.getContractEvents({
+          address: entropyAddress,
+          abi: PYTH_ENTROPY_ABI,
+          eventName: 'Revealed',
+          args: { caller: contractAddress, sequenceNumber },
+          fromBlock: settledLog.blockNumber,
+          toBlock: settledLog.blockNumber,
+        });
+        const revealLog = revealLogs.find(log => log.transactionHash === settledLog.transactionHash);
+
+        if (revealLog?.args.randomNumber) {
+          verification.reveal = {
+            randomNumber: revealLog.args.randomNumber,
+            source: 'pyth',
+            userContribution: revealLog.args.userContribution,
+            providerContribution: revealLog.args.providerContribution,
+          };
+        } else {
+          // MockEntropy emits no reveal event; the random number is in the fulfill calldata
+          const tx = await publicClient.getTransaction({ hash: settledLog.transactionHash });
+          try {
+            const { functionName, args } = decodeFunctionData({ abi: PYTH_ENTROPY_ABI, data: tx.input });
+            if (functionName === 'fulfillRandomness' && args[0] === sequenceNumber) {
+              verification.reveal = { randomNumber: args[1], source: 'mock' };
+            }
+          } catch {
+            debugLog.warn(`No entropy reveal found for roll #${sequenceNumber}`);
+          }
+        }
+      }
+
+      if (verification.reveal) {
+        const { die1, die2 } = deriveDice(verification.reveal.randomNumber);
+        verification.recomputed = {
+          die1,
+          die2,
+          rollOutcome: winTypeToRollOutcome(determineWinType(die1, die2)),
+        };
+      }
+
+      if (verification.settled && verification.recomputed) {
+        verification.diceMatch =
+          verification.settled.die1 === verification.recomputed.die1 &&
+          verification.settled.die2 === verification.recomputed.die2;
+        verification.outcomeMatch = verification.settled.rollOutcome === verification.recomputed.rollOutcome;
+        debugLog.info(`Roll #${sequenceNumber} ${verification.diceMatch && verification.outcomeMatch ? 'verified' : 'MISMATCH'}`);
+      }
+
+      setResult(verification);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Verify roll failed: ${message}`);
+      setError(message);
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [publicClient, contractAddress]);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return { verify, reset, result, isVerifying, error };
+}
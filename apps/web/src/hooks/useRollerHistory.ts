@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useReadContract } from 'wagmi';
+import { SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import { collectLogs } from '@/lib/logs';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+
+const DEVICE_ROLLERS_STORAGE_PREFIX = 'mferroll_device_rollers_v1';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface RollerEvent {
+  kind: 'authorized' | 'revoked';
+  roller: `0x${string}`;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+  timestamp?: number;  // ms
+}
+
+// Who the contract's single authorizedRollers slot points at, from this device's point of view
+export type RollerOwner = 'none' | 'thisKey' | 'olderKeyOnThisDevice' | 'otherDevice';
+
+function getStorageKey(chainId: number, player: string): string {
+  return `${DEVICE_ROLLERS_STORAGE_PREFIX}_${chainId}_${player.toLowerCase()}`;
+}
+
+// Every session key kernel this browser has used for the player, so older keys aren't mistaken for another device
+function loadDeviceRollers(chainId: number, player: string): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(chainId, player));
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn('Failed to load device rollers:', e);
+  }
+  return [];
+}
+
+function rememberDeviceRoller(chainId: number, player: string, roller: string): string[] {
+  const rollers = loadDeviceRollers(chainId, player);
+  if (rollers.includes(roller.toLowerCase())) return rollers;
+
+  const updated = [...rollers, roller.toLowerCase()];
+  try {
+    localStorage.setItem(getStorageKey(chainId, player), JSON.stringify(updated));
+  } catch (e) {
+    console.warn('Failed to save device rollers:', e);
+  }
+  return updated;
+}
+
+// The player's authorized roller plus its RollerAuthorized/RollerRevoked history
+export function useRollerHistory(playerAddress?: `0x${string}`, localRoller?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const player = playerAddress || eoaAddress;
+  const enabled = !IS_TEST_MODE && !!player && contractAddress !== ZERO_ADDRESS;
+
+  const [events, setEvents] = useState<RollerEvent[]>([]);
+  const [deviceRollers, setDeviceRollers] = useState<string[]>([]);
+  const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+
+  const { data: authorizedRoller, refetch: refetchAuthorizedRoller } = useReadContract({
+    address: contractAddress,
+    abi: SEVEN_ELEVEN_ABI,
+    functionName: 'getAuthorizedRoller',
+    args: player ? [player] : undefined,
+    query: { enabled, refetchInterval: 15000 },
+  });
+
+  useEffect(() => {
+    if (!player) {
+      setDeviceRollers([]);
+      return;
+    }
+    setDeviceRollers(localRoller ? rememberDeviceRoller(chainId, player, localRoller) : loadDeviceRollers(chainId, player));
+  }, [chainId, player, localRoller]);
+
+  const loadEvents = useCallback(async () => {
+    if (!enabled || !publicClient || !player) return;
+    setIsLoadingEvents(true);
+    setEventsError(null);
+    try {
+      const fetchChunk = async (fromBlock: bigint, toBlock: bigint): Promise<RollerEvent[]> => {
+        const [authorized, revoked] = await Promise.all([
+          publicClient.getContractEvents({
+            address: contractAddress,
+            abi: SEVEN_ELEVEN_ABI,
+            eventName: 'RollerAuthorized',
+            args: { player },
+            fromBlock,
+            toBlock,
+          }),
+          publicClient.getContractEvents({
+            address: contractAddress,
+            abi: SEVEN_ELEVEN_ABI,
+            eventName: 'RollerRevoked',
+            args: { player },
+            fromBlock,
+            toBlock,
+          }),
+        ]);
+        return [
+          ...authorized.map(log => ({
+            kind: 'authorized' as const,
+            roller: log.args.roller ?? ZERO_ADDRESS,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          })),
+          ...revoked.map(log => ({
+            kind: 'revoked' as const,
+            roller: log.args.previousRoller ?? ZERO_ADDRESS,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          })),
+        ];
+      };
+
+      const logs = await collectLogs({ publicClient, fetchChunk });
+
+      // Newest first; a takeover revokes and authorizes in the same transaction, revoke listed below
+      const sorted = logs.sort((a, b) =>
+        a.blockNumber !== b.blockNumber
+          ? (a.blockNumber < b.blockNumber ? 1 : -1)
+          : a.kind === b.kind ? 0 : a.kind === 'authorized' ? -1 : 1
+      );
+      const withTimes: RollerEvent[] = [];
+      for (const event of sorted) {
+        const block = await publicClient.getBlock({ blockNumber: event.blockNumber });
+        withTimes.push({ ...event, timestamp: Number(block.timestamp) * 1000 });
+      }
+      setEvents(withTimes);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      debugLog.error(`Failed to load roller events: ${message}`);
+      setEventsError(message);
+    } finally {
+      setIsLoadingEvents(false);
+    }
+  }, [enabled, publicClient, player, contractAddress]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const roller = authorizedRoller as `0x${string}` | undefined;
+  const rollerOwner: RollerOwner =
+    !roller || roller === ZERO_ADDRESS
+      ? 'none'
+      : localRoller && roller.toLowerCase() === localRoller.toLowerCase()
+      ? 'thisKey'
+      : deviceRollers.includes(roller.toLowerCase())
+      ? 'olderKeyOnThisDevice'
+      : 'otherDevice';
+
+  // The RollerAuthorized event that made the current roller active
+  const activeSince = roller
+    ? events.find(e => e.kind === 'authorized' && e.roller.toLowerCase() === roller.toLowerCase())
+    : undefined;
+
+  const reload = useCallback(() => {
+    refetchAuthorizedRoller();
+    loadEvents();
+  }, [refetchAuthorizedRoller, loadEvents]);
+
+  return {
+    isAvailable: enabled,
+    authorizedRoller: roller,
+    rollerOwner,
+    activeSince,
+    events,
+    isLoadingEvents,
+    eventsError,
+    reload,
+  };
+}
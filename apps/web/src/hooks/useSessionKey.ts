@@ -4,11 +4,10 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAccount, useChainId, useWalletClient } from 'wagmi';
 import { createPublicClient, http, type Hex, encodeFunctionData } from 'viem';
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
-import { baseSepolia, base } from 'viem/chains';
+import { baseSepolia, base, foundry } from 'viem/chains';
 import {
   createKernelAccount,
   createKernelAccountClient,
-  createZeroDevPaymasterClient,
   type KernelAccountClient,
   constants,
 } from '@zerodev/sdk';
@@ -17,16 +16,37 @@ import {
   toPermissionValidator,
   serializePermissionAccount,
   deserializePermissionAccount,
+  RATE_LIMIT_POLICY_WITH_RESET_CONTRACT,
 } from '@zerodev/permissions';
 import { toECDSASigner } from '@zerodev/permissions/signers';
-import { toCallPolicy, CallPolicyVersion } from '@zerodev/permissions/policies';
 import {
-  getZeroDevConfig,
-  isZeroDevConfigured,
+  toCallPolicy,
+  toRateLimitPolicy,
+  toTimestampPolicy,
+  CallPolicyVersion,
+  ParamCondition,
+} from '@zerodev/permissions/policies';
+import {
+  getSessionKeyPreset,
   SESSION_KEY_STORAGE_PREFIX,
-  SESSION_KEY_EXPIRY_SECONDS,
+  DEFAULT_SESSION_KEY_PRESET,
+  SESSION_KEY_RENEWAL_WINDOW_SECONDS,
+  type SessionKeyPreset,
 } from '@/lib/zerodev';
+import {
+  getAccountAbstractionConfig,
+  getUserOperationClientOptions,
+  isAccountAbstractionConfigured,
+} from '@/lib/accountAbstraction';
 import { CHAIN_ID, SEVEN_ELEVEN_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import {
+  getKeystore,
+  loadKeystorePreference,
+  saveKeystorePreference,
+  passkeyKeystore,
+  type EncryptedSecret,
+  type KeystoreKind,
+} from '@/lib/sessionKeyStore';
 import { debugLog } from '@/components/DebugConsole';
 
 // Use entry point v0.7
@@ -46,12 +66,45 @@ function getStorageKey(chainId: number, address: string): string {
   return `${SESSION_KEY_STORAGE_PREFIX}${chainId}_${address.toLowerCase()}`;
 }
 
-interface StoredSessionKey {
-  serializedAccount: string;
+// The only rollFor arguments the session key's call policy accepts
+export interface SessionKeyScope {
+  player: `0x${string}`;
+  token: `0x${string}`;
+}
+
+// Key material, only ever persisted encrypted
+interface SessionKeySecrets {
+  serializedAccount: string;  // Embeds the private key
   privateKey: Hex;
+}
+
+interface StoredSessionKey {
+  secret: EncryptedSecret;    // SessionKeySecrets as JSON, encrypted by the keystore
   kernelAddress: `0x${string}`; // The smart wallet address that calls rollFor
   createdAt: number;
   expiresAt: number;
+  // Keys created before on-chain policies have no scope or preset
+  scope?: SessionKeyScope;
+  presetId?: string;
+}
+
+// Entries written before encryption at rest kept the secrets as plain JSON
+type LegacyStoredSessionKey = Omit<StoredSessionKey, 'secret'> & SessionKeySecrets;
+
+function isLegacySessionKey(stored: StoredSessionKey | LegacyStoredSessionKey): stored is LegacyStoredSessionKey {
+  return 'privateKey' in stored;
+}
+
+// Re-encrypts a plaintext entry and overwrites it, so the plaintext never outlives the migration
+async function migrateLegacySessionKey(storageKey: string, legacy: LegacyStoredSessionKey): Promise<StoredSessionKey> {
+  const { serializedAccount, privateKey, ...metadata } = legacy;
+  const secrets: SessionKeySecrets = { serializedAccount, privateKey };
+  const migrated: StoredSessionKey = {
+    ...metadata,
+    secret: await getKeystore('webcrypto').encrypt(JSON.stringify(secrets)),
+  };
+  localStorage.setItem(storageKey, JSON.stringify(migrated));
+  return migrated;
 }
 
 interface UseSessionKeyReturn {
@@ -59,8 +112,17 @@ interface UseSessionKeyReturn {
   hasValidSessionKey: boolean;
   hasSessionKeyStored: boolean;
   isSessionKeyExpired: boolean;
+  isSessionKeyExpiring: boolean;   // Within the renewal window of expiresAt
   sessionKeyExpiresAt: number | undefined;
+  sessionKeyScope: SessionKeyScope | undefined;
+  sessionKeyPreset: SessionKeyPreset | undefined;
+
+  // Keystore that encrypts newly created session keys
+  keystore: KeystoreKind;
+  setKeystore: (kind: KeystoreKind) => void;
+  isPasskeyAvailable: boolean;
   isCreatingSessionKey: boolean;
+  isRenewingSessionKey: boolean;
   isLoadingSessionKey: boolean;
 
   // Session key wallet address (the smart wallet that calls rollFor)
@@ -70,14 +132,29 @@ interface UseSessionKeyReturn {
   sessionKeyClient: KernelAccountClient | undefined;
 
   // Actions
-  createSessionKey: () => Promise<`0x${string}`>;  // Returns the kernel wallet address
+  createSessionKey: (scope: SessionKeyScope, preset?: SessionKeyPreset) => Promise<`0x${string}`>;  // Returns the kernel wallet address
   clearSessionKey: () => void;
+  // Rotates to a fresh key with the same scope and preset on the same Kernel account,
+  // so the contract's authorized roller stays valid and no re-authorization is needed
+  renewSessionKey: () => Promise<void>;
+  // True once per key when it enters the renewal window, until renewed or dismissed
+  shouldPromptRenewal: boolean;
+  dismissRenewalPrompt: () => void;
+  // Disables the permission validator via the wallet's sudo signer; resolves with the tx hash,
+  // or undefined when the kernel was never deployed (so nothing is installed yet)
+  uninstallSessionKeyPlugin: () => Promise<`0x${string}` | undefined>;
 
   // Error
   error: Error | null;
 }
 
-export function useSessionKey(): UseSessionKeyReturn {
+interface UseSessionKeyOptions {
+  renewalWindowSeconds?: number;
+}
+
+export function useSessionKey({
+  renewalWindowSeconds = SESSION_KEY_RENEWAL_WINDOW_SECONDS,
+}: UseSessionKeyOptions = {}): UseSessionKeyReturn {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const { data: walletClient } = useWalletClient();
@@ -85,27 +162,62 @@ export function useSessionKey(): UseSessionKeyReturn {
   const [sessionKeyClient, setSessionKeyClient] = useState<KernelAccountClient | undefined>();
   const [storedSession, setStoredSession] = useState<StoredSessionKey | null>(null);
   const [isCreatingSessionKey, setIsCreatingSessionKey] = useState(false);
+  const [isRenewingSessionKey, setIsRenewingSessionKey] = useState(false);
+  const [renewalPromptedFor, setRenewalPromptedFor] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const [isLoadingSessionKey, setIsLoadingSessionKey] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [keystore, setKeystoreState] = useState<KeystoreKind>('webcrypto');
+  const [isPasskeyAvailable, setIsPasskeyAvailable] = useState(false);
+
+  useEffect(() => {
+    setKeystoreState(loadKeystorePreference());
+    setIsPasskeyAvailable(passkeyKeystore.isAvailable());
+  }, []);
+
+  const setKeystore = useCallback((kind: KeystoreKind) => {
+    setKeystoreState(kind);
+    saveKeystorePreference(kind);
+  }, []);
 
   // Ref to skip deserialization when we just created a session key
   const skipDeserializationRef = useRef(false);
 
-  const isZeroDevAvailable = useMemo(() => isZeroDevConfigured(), []);
-  const zeroDevConfig = useMemo(() => getZeroDevConfig(chainId), [chainId]);
+  const isAaAvailable = useMemo(() => isAccountAbstractionConfigured(), []);
+  const aaConfig = useMemo(() => getAccountAbstractionConfig(chainId), [chainId]);
   const contractAddress = useMemo(() => getSevenElevenAddress(chainId), [chainId]);
 
   // Get the right chain config
   const chain = useMemo(() => {
     if (chainId === CHAIN_ID.BASE_SEPOLIA) return baseSepolia;
     if (chainId === CHAIN_ID.BASE_MAINNET) return base;
+    if (chainId === CHAIN_ID.LOCAL) return foundry;
     return baseSepolia;
   }, [chainId]);
 
+  // Re-evaluate expiry while the tab stays open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Check if session key is expired (only true if there WAS a session that expired)
   const isSessionKeyExpired = useMemo(() => {
     if (!storedSession) return false; // No session = not expired, just doesn't exist
-    return Date.now() > storedSession.expiresAt;
+    return now > storedSession.expiresAt;
+  }, [storedSession, now]);
+
+  const isSessionKeyExpiring = useMemo(() => {
+    if (!storedSession || isSessionKeyExpired) return false;
+    return storedSession.expiresAt - now <= renewalWindowSeconds * 1000;
+  }, [storedSession, isSessionKeyExpired, now, renewalWindowSeconds]);
+
+  // Keys are identified by expiresAt, so a renewed key gets its own prompt later on
+  const shouldPromptRenewal =
+    isSessionKeyExpiring && !!storedSession && renewalPromptedFor !== storedSession.expiresAt;
+
+  const dismissRenewalPrompt = useCallback(() => {
+    if (storedSession) setRenewalPromptedFor(storedSession.expiresAt);
   }, [storedSession]);
 
   // Check if a session key exists (even if expired or not yet loaded)
@@ -123,24 +235,36 @@ export function useSessionKey(): UseSessionKeyReturn {
       return;
     }
 
+    let isMounted = true;
     const storageKey = getStorageKey(chainId, address);
     const stored = localStorage.getItem(storageKey);
 
-    if (stored) {
+    async function loadStoredSession(stored: string) {
       try {
-        const parsed = JSON.parse(stored) as StoredSessionKey;
-        if (Date.now() < parsed.expiresAt) {
-          setStoredSession(parsed);
-        } else {
+        const parsed = JSON.parse(stored) as StoredSessionKey | LegacyStoredSessionKey;
+        if (Date.now() >= parsed.expiresAt) {
           // Expired, clear it
           localStorage.removeItem(storageKey);
           setStoredSession(null);
+          return;
         }
-      } catch {
+
+        const session = isLegacySessionKey(parsed) ? await migrateLegacySessionKey(storageKey, parsed) : parsed;
+        if (isLegacySessionKey(parsed)) debugLog.info('Session key migrated to encrypted storage');
+        if (isMounted) setStoredSession(session);
+      } catch (err) {
+        // Never leave plaintext behind, even if encryption is unavailable
+        debugLog.error(`Failed to load session key: ${err instanceof Error ? err.message : String(err)}`);
         localStorage.removeItem(storageKey);
-        setStoredSession(null);
+        if (isMounted) setStoredSession(null);
       }
     }
+
+    if (stored) loadStoredSession(stored);
+
+    return () => {
+      isMounted = false;
+    };
   }, [address, isConnected, chainId]);
 
   // Deserialize session key when storedSession changes
@@ -149,7 +273,7 @@ export function useSessionKey(): UseSessionKeyReturn {
     let isMounted = true;
 
     async function loadSessionKey() {
-      if (!storedSession || !zeroDevConfig || !isZeroDevAvailable || isSessionKeyExpired) {
+      if (!storedSession || !aaConfig || !isAaAvailable || isSessionKeyExpired) {
         setSessionKeyClient(undefined);
         return;
       }
@@ -164,33 +288,31 @@ export function useSessionKey(): UseSessionKeyReturn {
       setError(null);
 
       try {
-        const zeroDevPublicClient = createPublicClient({
+        const aaPublicClient = createPublicClient({
           chain,
-          transport: http(zeroDevConfig.rpcUrl),
+          transport: http(aaConfig.rpcUrl),
         });
 
-        // Deserialize the session key account
+        // Decrypt, then deserialize the session key account
+        const secrets = JSON.parse(
+          await getKeystore(storedSession.secret.keystore).decrypt(storedSession.secret)
+        ) as SessionKeySecrets;
+        if (!isMounted) return;
+
         const sessionKeyAccount = await deserializePermissionAccount(
-          zeroDevPublicClient,
+          aaPublicClient,
           entryPoint,
           kernelVersion,
-          storedSession.serializedAccount
+          secrets.serializedAccount
         );
 
         if (!isMounted) return;
 
-        // Create ZeroDev paymaster client
-        const paymasterClient = createZeroDevPaymasterClient({
-          chain,
-          transport: http(zeroDevConfig.paymasterUrl),
-        });
-
         // Create the kernel client for the session key
         const client = createKernelAccountClient({
           account: sessionKeyAccount,
           chain,
-          bundlerTransport: http(zeroDevConfig.bundlerUrl),
-          paymaster: paymasterClient,
+          ...getUserOperationClientOptions(aaConfig, chain, aaPublicClient),
         });
 
         if (!isMounted) return;
@@ -215,125 +337,167 @@ export function useSessionKey(): UseSessionKeyReturn {
     return () => {
       isMounted = false;
     };
-  }, [storedSession, zeroDevConfig, isZeroDevAvailable, chain, isSessionKeyExpired]);
+  }, [storedSession, aaConfig, isAaAvailable, chain, isSessionKeyExpired]);
 
   // Create a new session key - returns the kernel wallet address for authorization
-  const createSessionKey = useCallback(async (): Promise<`0x${string}`> => {
-    if (!isConnected || !address || !walletClient || !zeroDevConfig || !isZeroDevAvailable) {
-      throw new Error('Wallet not connected or ZeroDev not configured');
+  // Generates a session key, stores it and swaps in its client. Pinning `kernelAddress` installs
+  // the new key on an existing Kernel account, so its authorizedRollers entry stays valid.
+  const issueSessionKey = useCallback(async (
+    scope: SessionKeyScope,
+    preset: SessionKeyPreset,
+    kernelAddress?: `0x${string}`
+  ): Promise<`0x${string}`> => {
+    if (!isConnected || !address || !walletClient || !aaConfig || !isAaAvailable) {
+      throw new Error('Wallet not connected or no bundler configured for this chain');
     }
 
     if (contractAddress === '0x0000000000000000000000000000000000000000') {
       throw new Error('Contract not deployed on this chain');
     }
 
-    setIsCreatingSessionKey(true);
-    setError(null);
-
-    try {
-      debugLog.info('Creating session key...');
-
-      const zeroDevPublicClient = createPublicClient({
-        chain,
-        transport: http(zeroDevConfig.rpcUrl),
-      });
-
-      // Create ECDSA validator for sudo access (the user's wallet)
-      const ecdsaValidator = await signerToEcdsaValidator(zeroDevPublicClient, {
-        signer: walletClient,
-        entryPoint,
-        kernelVersion,
-      });
-      debugLog.info('ECDSA validator created');
-
-      // Generate a new session key
-      const sessionPrivateKey = generatePrivateKey();
-      const sessionKeyAccount = privateKeyToAccount(sessionPrivateKey);
-
-      // Create the session key signer
-      const sessionKeySigner = await toECDSASigner({
-        signer: sessionKeyAccount,
-      });
-
-      // Create call policy for the rollFor function
-      // This limits the session key to only calling rollFor() on our contract
-      const callPolicy = toCallPolicy({
-        policyVersion: CallPolicyVersion.V0_0_4,
-        permissions: [
-          {
-            target: contractAddress,
-            abi: SEVEN_ELEVEN_ABI,
-            functionName: 'rollFor',
-          },
-        ],
-      });
-
-      // Create the permission validator with the session key
-      const permissionPlugin = await toPermissionValidator(zeroDevPublicClient, {
-        signer: sessionKeySigner,
-        policies: [callPolicy],
-        entryPoint,
-        kernelVersion,
-      });
-      debugLog.info('Permission validator created');
-
-      // Create the kernel account with both sudo and regular (session key) plugins
-      const kernelAccount = await createKernelAccount(zeroDevPublicClient, {
-        plugins: {
-          sudo: ecdsaValidator,
-          regular: permissionPlugin,
+    const aaPublicClient = createPublicClient({
+      chain,
+      transport: http(aaConfig.rpcUrl),
+    });
+
+    // Create ECDSA validator for sudo access (the user's wallet)
+    const ecdsaValidator = await signerToEcdsaValidator(aaPublicClient, {
+      signer: walletClient,
+      entryPoint,
+      kernelVersion,
+    });
+    debugLog.info('ECDSA validator created');
+
+    // Generate a new session key
+    const sessionPrivateKey = generatePrivateKey();
+    const sessionKeyAccount = privateKeyToAccount(sessionPrivateKey);
+
+    // Create the session key signer
+    const sessionKeySigner = await toECDSASigner({
+      signer: sessionKeyAccount,
+    });
+
+    // Calculate expiry time
+    const createdAt = Date.now();
+    const expiresAt = createdAt + preset.durationSeconds * 1000;
+
+    // Create call policy for the rollFor function
+    // This limits the session key to rollFor(player, token) on our contract
+    const callPolicy = toCallPolicy({
+      policyVersion: CallPolicyVersion.V0_0_4,
+      permissions: [
+        {
+          target: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'rollFor',
+          args: [
+            { condition: ParamCondition.EQUAL, value: scope.player },
+            { condition: ParamCondition.EQUAL, value: scope.token },
+          ],
         },
-        entryPoint,
-        kernelVersion,
-      });
-      debugLog.info(`Kernel account: ${kernelAccount.address.slice(0, 10)}...`);
-
-      // Serialize the account for storage
-      const serializedAccount = await serializePermissionAccount(
-        kernelAccount,
-        sessionPrivateKey
-      );
+      ],
+    });
+
+    // Expiry is enforced on-chain, not just by the localStorage timestamp
+    const timestampPolicy = toTimestampPolicy({ validUntil: Math.floor(expiresAt / 1000) });
+
+    // No interval: a plain usage count across the key's lifetime
+    const usagePolicy = toRateLimitPolicy({ count: preset.maxRolls });
+
+    // The resetting variant is a separate contract, so it can sit alongside the usage count
+    const rateLimitPolicy = toRateLimitPolicy({
+      policyAddress: RATE_LIMIT_POLICY_WITH_RESET_CONTRACT,
+      interval: 60,
+      count: preset.rollsPerMinute,
+    });
+
+    // Create the permission validator with the session key
+    const permissionPlugin = await toPermissionValidator(aaPublicClient, {
+      signer: sessionKeySigner,
+      policies: [callPolicy, timestampPolicy, usagePolicy, rateLimitPolicy],
+      entryPoint,
+      kernelVersion,
+    });
+    debugLog.info(`Session key policies: ${preset.label}, ${preset.rollsPerMinute}/min, player ${scope.player.slice(0, 10)}`);
+    debugLog.info('Permission validator created');
+
+    // Create the kernel account with both sudo and regular (session key) plugins
+    const kernelAccount = await createKernelAccount(aaPublicClient, {
+      plugins: {
+        sudo: ecdsaValidator,
+        regular: permissionPlugin,
+      },
+      entryPoint,
+      kernelVersion,
+      address: kernelAddress,
+    });
+    debugLog.info(`Kernel account: ${kernelAccount.address.slice(0, 10)}...`);
+
+    // Checked before anything is stored, so a failed renewal leaves the current key in place
+    if (kernelAddress && kernelAccount.address.toLowerCase() !== kernelAddress.toLowerCase()) {
+      throw new Error('Renewed key landed on a different Kernel account');
+    }
 
-      // Calculate expiry time
-      const createdAt = Date.now();
-      const expiresAt = createdAt + SESSION_KEY_EXPIRY_SECONDS * 1000;
+    // Serialize the account for storage
+    const serializedAccount = await serializePermissionAccount(
+      kernelAccount,
+      sessionPrivateKey
+    );
+
+    // Store the session key, encrypted by the selected keystore
+    const secrets: SessionKeySecrets = { serializedAccount, privateKey: sessionPrivateKey };
+    const sessionData: StoredSessionKey = {
+      secret: await getKeystore(keystore).encrypt(JSON.stringify(secrets)),
+      kernelAddress: kernelAccount.address,
+      createdAt,
+      expiresAt,
+      scope,
+      presetId: preset.id,
+    };
 
-      // Store the session key
-      const sessionData: StoredSessionKey = {
-        serializedAccount,
-        privateKey: sessionPrivateKey,
-        kernelAddress: kernelAccount.address,
-        createdAt,
-        expiresAt,
-      };
+    const storageKey = getStorageKey(chainId, address);
+    localStorage.setItem(storageKey, JSON.stringify(sessionData));
 
-      const storageKey = getStorageKey(chainId, address);
-      localStorage.setItem(storageKey, JSON.stringify(sessionData));
+    // Mark that we're creating a session key to skip the deserialization useEffect
+    skipDeserializationRef.current = true;
+    setStoredSession(sessionData);
 
-      // Mark that we're creating a session key to skip the deserialization useEffect
-      skipDeserializationRef.current = true;
-      setStoredSession(sessionData);
+    // Create the kernel client for immediate use
+    const client = createKernelAccountClient({
+      account: kernelAccount,
+      chain,
+      ...getUserOperationClientOptions(aaConfig, chain, aaPublicClient),
+    });
 
-      // Create ZeroDev paymaster client
-      const paymasterClient = createZeroDevPaymasterClient({
-        chain,
-        transport: http(zeroDevConfig.paymasterUrl),
-      });
+    // Calls already in flight keep the client they started with
+    setSessionKeyClient(client as KernelAccountClient);
 
-      // Create the kernel client for immediate use
-      const client = createKernelAccountClient({
-        account: kernelAccount,
-        chain,
-        bundlerTransport: http(zeroDevConfig.bundlerUrl),
-        paymaster: paymasterClient,
-      });
+    // Return the kernel address for authorization
+    return kernelAccount.address;
+  }, [
+    isConnected,
+    address,
+    walletClient,
+    aaConfig,
+    isAaAvailable,
+    chain,
+    chainId,
+    contractAddress,
+    keystore,
+  ]);
 
-      setSessionKeyClient(client as KernelAccountClient);
+  const createSessionKey = useCallback(async (
+    scope: SessionKeyScope,
+    preset: SessionKeyPreset = DEFAULT_SESSION_KEY_PRESET
+  ): Promise<`0x${string}`> => {
+    setIsCreatingSessionKey(true);
+    setError(null);
 
+    try {
+      debugLog.info('Creating session key...');
+      const kernelAddress = await issueSessionKey(scope, preset);
       debugLog.info('Session key created successfully');
-
-      // Return the kernel address for authorization
-      return kernelAccount.address;
+      return kernelAddress;
     } catch (err) {
       debugLog.error(`Session key creation failed: ${err instanceof Error ? err.message : String(err)}`);
       setError(err instanceof Error ? err : new Error('Failed to create session key'));
@@ -341,16 +505,88 @@ export function useSessionKey(): UseSessionKeyReturn {
     } finally {
       setIsCreatingSessionKey(false);
     }
-  }, [
-    isConnected,
-    address,
-    walletClient,
-    zeroDevConfig,
-    isZeroDevAvailable,
-    chain,
-    chainId,
-    contractAddress,
-  ]);
+  }, [issueSessionKey]);
+
+  // Rotates to a fresh key on the same Kernel account before the current one expires.
+  // The old permission validator stays installed until its timestamp policy runs out.
+  const renewSessionKey = useCallback(async (): Promise<void> => {
+    if (!storedSession?.scope) {
+      throw new Error('This session key predates scoped keys; enable a new one instead');
+    }
+
+    setIsRenewingSessionKey(true);
+    setError(null);
+
+    try {
+      debugLog.info('Renewing session key...');
+      await issueSessionKey(
+        storedSession.scope,
+        getSessionKeyPreset(storedSession.presetId),
+        storedSession.kernelAddress
+      );
+      debugLog.info('Session key renewed');
+    } catch (err) {
+      debugLog.error(`Session key renewal failed: ${err instanceof Error ? err.message : String(err)}`);
+      setError(err instanceof Error ? err : new Error('Failed to renew session key'));
+      throw err;
+    } finally {
+      setIsRenewingSessionKey(false);
+    }
+  }, [storedSession, issueSessionKey]);
+
+  const uninstallSessionKeyPlugin = useCallback(async (): Promise<`0x${string}` | undefined> => {
+    if (!storedSession || !walletClient || !aaConfig || !isAaAvailable) {
+      throw new Error('No session key to uninstall');
+    }
+
+    const aaPublicClient = createPublicClient({
+      chain,
+      transport: http(aaConfig.rpcUrl),
+    });
+
+    // The permission validator is enabled by the kernel's first UserOperation
+    const code = await aaPublicClient.getCode({ address: storedSession.kernelAddress });
+    if (!code || code === '0x') return undefined;
+
+    // Rebuild the exact validator that was installed from the stored account
+    const secrets = JSON.parse(
+      await getKeystore(storedSession.secret.keystore).decrypt(storedSession.secret)
+    ) as SessionKeySecrets;
+    const sessionKeyAccount = await deserializePermissionAccount(
+      aaPublicClient,
+      entryPoint,
+      kernelVersion,
+      secrets.serializedAccount
+    );
+    const permissionPlugin = sessionKeyAccount.kernelPluginManager.regularValidator;
+    if (!permissionPlugin) throw new Error('Session key has no permission validator');
+
+    // Only the sudo validator (the user's wallet) may uninstall plugins
+    const ecdsaValidator = await signerToEcdsaValidator(aaPublicClient, {
+      signer: walletClient,
+      entryPoint,
+      kernelVersion,
+    });
+    const sudoAccount = await createKernelAccount(aaPublicClient, {
+      plugins: {
+        sudo: ecdsaValidator,
+      },
+      entryPoint,
+      kernelVersion,
+      address: storedSession.kernelAddress,
+    });
+
+    const sudoClient = createKernelAccountClient({
+      account: sudoAccount,
+      chain,
+      ...getUserOperationClientOptions(aaConfig, chain, aaPublicClient),
+    });
+
+    const userOpHash = await sudoClient.uninstallPlugin({ plugin: permissionPlugin });
+    const { receipt } = await sudoClient.waitForUserOperationReceipt({ hash: userOpHash });
+    debugLog.info(`Permission validator uninstalled: ${receipt.transactionHash.slice(0, 10)}...`);
+    return receipt.transactionHash;
+  }, [storedSession, walletClient, aaConfig, isAaAvailable, chain]);
 
   // Clear the session key
   const clearSessionKey = useCallback(() => {
@@ -366,13 +602,24 @@ export function useSessionKey(): UseSessionKeyReturn {
     hasValidSessionKey,
     hasSessionKeyStored,
     isSessionKeyExpired,
+    isSessionKeyExpiring,
     sessionKeyExpiresAt: storedSession?.expiresAt,
+    sessionKeyScope: storedSession?.scope,
+    sessionKeyPreset: storedSession?.presetId ? getSessionKeyPreset(storedSession.presetId) : undefined,
+    keystore,
+    setKeystore,
+    isPasskeyAvailable,
     isCreatingSessionKey,
+    isRenewingSessionKey,
     isLoadingSessionKey,
     sessionKeyAddress: storedSession?.kernelAddress,
     sessionKeyClient,
     createSessionKey,
     clearSessionKey,
+    renewSessionKey,
+    shouldPromptRenewal,
+    dismissRenewalPrompt,
+    uninstallSessionKeyPlugin,
     error,
   };
 }
@@ -9,23 +9,41 @@ import {
   useWaitForTransactionReceipt,
   useWatchContractEvent,
   useConfig,
+  usePublicClient,
+  useSignTypedData,
+  useSimulateContract,
 } from 'wagmi';
-import { waitForTransactionReceipt } from '@wagmi/core';
-import { parseUnits, formatUnits, encodeFunctionData } from 'viem';
+import { simulateContract, waitForTransactionReceipt } from '@wagmi/core';
+import { parseUnits, formatUnits, encodeFunctionData, parseEventLogs, parseSignature, type Log } from 'viem';
 import {
   SEVEN_ELEVEN_ABI,
   ERC20_ABI,
-  CHAIN_ID,
-  TOKEN_ADDRESSES_BY_CHAIN,
-  POOL_ADDRESSES_BY_CHAIN,
-  SEVEN_ELEVEN_ADDRESS_BY_CHAIN,
   getSevenElevenAddress,
   SEVEN_ELEVEN_CONSTANTS,
   getTokenIconUrl,
   type PlayerStats,
   type MemeWinnings,
 } from '@/lib/contracts';
+import { getDeployment, type ChainDeployment } from '@/lib/deployments';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { parseRollSequenceNumber } from '@/lib/rollResults';
+import {
+  UserOperationRevertedError,
+  decodeContractError,
+  formatContractError,
+  isContractRevert,
+} from '@/lib/contractErrors';
+import { getPermitDomain, PERMIT_DEADLINE_SECONDS, PERMIT_TYPES } from '@/lib/permit';
 import { debugLog } from '@/components/DebugConsole';
+import {
+  useTestModeSevenEleven,
+  useTestModeTokenPrices,
+  useTestModeGrokStats,
+  useTestModeSessionGrokStats,
+  useTestModeMemeWalletBalances,
+} from './useTestMode';
+import { useRollResults } from './useRollResults';
+import { useTokenRegistry } from './useTokenRegistry';
 
 // Token configuration type
 export interface SupportedToken {
@@ -36,117 +54,122 @@ export interface SupportedToken {
   icon: string;
   isDepositToken: boolean;  // V2: Whether this can be deposited
   isPayoutToken: boolean;   // V2: Whether this is a payout token
+  isStablecoin?: boolean;   // Priced at $1 by the contract
   poolAddress?: `0x${string}` | null;  // Uniswap V3 pool for payout tokens
 }
 
-// Deposit tokens (USDC only in V2 - simpler UX)
-const MAINNET_DEPOSIT_TOKENS: SupportedToken[] = [
+// Display metadata for the manifest's tokens. Testnets deploy mock meme coins under their own
+// symbols and use fixed pricing instead of pools.
+interface TokenListing {
+  key: keyof ChainDeployment['tokens'];
+  pool?: keyof ChainDeployment['pools'];
+  symbol: string;
+  name: string;
+  testnetSymbol: string;
+  testnetName: string;
+  decimals: number;
+  icon?: string;              // Defaults to the logo of the token at this chain's address
+  isStablecoin?: boolean;
+}
+
+// Deposit tokens (USDC and WETH; ETH is wrapped to WETH before depositing)
+const DEPOSIT_TOKEN_LISTINGS: TokenListing[] = [
   {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].USDC,
+    key: 'USDC',
     symbol: 'USDC',
     name: 'USD Coin',
+    testnetSymbol: 'USDC',
+    testnetName: 'USD Coin (Testnet)',
     decimals: 6,
-    icon: getTokenIconUrl(TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].USDC),
-    isDepositToken: true,
-    isPayoutToken: false,
+    icon: getTokenIconUrl('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'),
+    isStablecoin: true,
+  },
+  {
+    key: 'WETH',
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    testnetSymbol: 'WETH',
+    testnetName: 'Wrapped Ether (Testnet)',
+    decimals: 18,
+    isStablecoin: false,
   },
 ];
 
 // Payout tokens (meme coins)
-const MAINNET_PAYOUT_TOKENS: SupportedToken[] = [
+const PAYOUT_TOKEN_LISTINGS: TokenListing[] = [
   {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].MFERCOIN,
+    key: 'MFERCOIN',
+    pool: 'MFERCOIN_WETH',
     symbol: 'MFER',
     name: 'mfercoin',
+    testnetSymbol: 'mMFER',
+    testnetName: 'Mock MFER',
     decimals: 18,
     icon: 'https://coin-images.coingecko.com/coins/images/36550/small/mfercoin-logo.png',
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: POOL_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].MFERCOIN_WETH,
   },
   {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].BANKR,
+    key: 'BANKR',
+    pool: 'BANKR_WETH',
     symbol: 'BANKR',
     name: 'bankr',
+    testnetSymbol: 'mBNKR',
+    testnetName: 'Mock BNKR',
     decimals: 18,
-    icon: getTokenIconUrl(TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].BANKR),
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: POOL_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].BANKR_WETH,
+    icon: getTokenIconUrl('0x22aF33FE49fD1Fa80c7149773dDe5890D3c76F3b'),
   },
   {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].DRB,
+    key: 'DRB',
+    pool: 'DRB_WETH',
     symbol: 'DRB',
     name: 'drb',
+    testnetSymbol: 'mDRB',
+    testnetName: 'Mock DRB',
     decimals: 18,
     icon: 'https://coin-images.coingecko.com/coins/images/54784/small/1000143570.jpg',
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: POOL_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].DRB_WETH,
   },
 ];
 
-// Testnet deposit tokens (USDC only)
-const TESTNET_DEPOSIT_TOKENS: SupportedToken[] = [
-  {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_SEPOLIA].USDC,
-    symbol: 'USDC',
-    name: 'USD Coin (Testnet)',
-    decimals: 6,
-    icon: 'https://assets-cdn.trustwallet.com/blockchains/base/assets/0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913/logo.png',
-    isDepositToken: true,
-    isPayoutToken: false,
-  },
-];
+function toSupportedToken(listing: TokenListing, deployment: ChainDeployment, isDepositToken: boolean): SupportedToken {
+  return {
+    address: deployment.tokens[listing.key],
+    symbol: deployment.testnet ? listing.testnetSymbol : listing.symbol,
+    name: deployment.testnet ? listing.testnetName : listing.name,
+    decimals: listing.decimals,
+    icon: listing.icon ?? getTokenIconUrl(deployment.tokens[listing.key]),
+    isDepositToken,
+    isPayoutToken: !isDepositToken,
+    ...(isDepositToken
+      ? { isStablecoin: listing.isStablecoin }
+      : { poolAddress: listing.pool ? deployment.pools[listing.pool] : null }),
+  };
+}
 
-// Testnet payout tokens (mock meme coins) - addresses set after deployment
-const TESTNET_PAYOUT_TOKENS: SupportedToken[] = [
-  {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_SEPOLIA].MFERCOIN,
-    symbol: 'mMFER',
-    name: 'Mock MFER',
-    decimals: 18,
-    icon: 'https://coin-images.coingecko.com/coins/images/36550/small/mfercoin-logo.png',
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: null, // Testnet uses mock pricing
-  },
-  {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_SEPOLIA].BANKR,
-    symbol: 'mBNKR',
-    name: 'Mock BNKR',
-    decimals: 18,
-    icon: getTokenIconUrl(TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET].BANKR),
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: null, // Testnet uses mock pricing
-  },
-  {
-    address: TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_SEPOLIA].DRB,
-    symbol: 'mDRB',
-    name: 'Mock DRB',
-    decimals: 18,
-    icon: 'https://coin-images.coingecko.com/coins/images/54784/small/1000143570.jpg',
-    isDepositToken: false,
-    isPayoutToken: true,
-    poolAddress: null, // Testnet uses mock pricing
-  },
-];
+// Built once per manifest entry so callers get stable references
+const tokenListCache = new WeakMap<ChainDeployment, { deposit: SupportedToken[]; payout: SupportedToken[] }>();
 
-// Get deposit tokens for a chain
-export function getDepositTokensForChain(chainId: number): SupportedToken[] {
-  if (chainId === CHAIN_ID.BASE_SEPOLIA) {
-    return TESTNET_DEPOSIT_TOKENS;
+function getTokenLists(chainId: number): { deposit: SupportedToken[]; payout: SupportedToken[] } {
+  const deployment = getDeployment(chainId);
+  if (!deployment) return { deposit: [], payout: [] };
+
+  let lists = tokenListCache.get(deployment);
+  if (!lists) {
+    lists = {
+      deposit: DEPOSIT_TOKEN_LISTINGS.map(listing => toSupportedToken(listing, deployment, true)),
+      payout: PAYOUT_TOKEN_LISTINGS.map(listing => toSupportedToken(listing, deployment, false)),
+    };
+    tokenListCache.set(deployment, lists);
   }
-  return MAINNET_DEPOSIT_TOKENS;
+  return lists;
+}
+
+// Get deposit tokens for a chain (empty when the manifest has no entry for it)
+export function getDepositTokensForChain(chainId: number): SupportedToken[] {
+  return getTokenLists(chainId).deposit;
 }
 
-// Get payout tokens for a chain
+// Get payout tokens for a chain (empty when the manifest has no entry for it)
 export function getPayoutTokensForChain(chainId: number): SupportedToken[] {
-  if (chainId === CHAIN_ID.BASE_SEPOLIA) {
-    return TESTNET_PAYOUT_TOKENS;
-  }
-  return MAINNET_PAYOUT_TOKENS;
+  return getTokenLists(chainId).payout;
 }
 
 // Get all tokens for a chain (for backwards compatibility)
@@ -154,18 +177,54 @@ export function getTokensForChain(chainId: number): SupportedToken[] {
   return [...getDepositTokensForChain(chainId), ...getPayoutTokensForChain(chainId)];
 }
 
-// Legacy export - deposit tokens only (V2: only USDC/WETH can be deposited)
-export const SUPPORTED_TOKENS = MAINNET_DEPOSIT_TOKENS;
+export interface UserOperationCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+// The subset of a kernel account client the game sends UserOperations through
+export interface UserOperationClient {
+  account?: { address: `0x${string}` };
+  // Estimates gas first, so it rejects with the revert data when the calls would fail
+  sendUserOperation: (params: { calls: UserOperationCall[] }) => Promise<`0x${string}`>;
+  waitForUserOperationReceipt: (params: { hash: `0x${string}` }) => Promise<{ logs: Log[]; success?: boolean; reason?: string }>;
+}
+
+// Confirmation that authorizedRollers was cleared
+export interface RollerRevokedEvent {
+  previousRoller: `0x${string}`;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+}
+
+function parseRollerRevoked(logs: Log[], contractAddress: `0x${string}`): RollerRevokedEvent | undefined {
+  const event = parseEventLogs({ abi: SEVEN_ELEVEN_ABI, eventName: 'RollerRevoked', logs })
+    .find(e => e.address.toLowerCase() === contractAddress.toLowerCase());
+  if (!event || !event.transactionHash || event.blockNumber === null) return undefined;
+  return {
+    previousRoller: event.args.previousRoller,
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+  };
+}
+
+// A submitted roll; the sequence number arrives with the receipt and rejects if the roll reverted
+export interface SubmittedRoll {
+  hash: `0x${string}` | undefined;  // Undefined in test mode
+  sequenceNumber: Promise<bigint | undefined>;
+}
 
-interface UseSevenElevenOptions {
+export interface UseSevenElevenOptions {
   playerAddress?: `0x${string}`;
   sessionKeyAddress?: `0x${string}`;
-  sessionKeyClient?: {
-    sendUserOperation: (params: { calls: Array<{ to: `0x${string}`; data: `0x${string}`; value?: bigint }> }) => Promise<`0x${string}`>;
-  };
+  sessionKeyClient?: UserOperationClient;
+  // Account mode: the smart wallet at playerAddress is the player, so every write
+  // goes out from it as a sponsored UserOperation
+  smartWalletClient?: UserOperationClient;
 }
 
-interface UseSevenElevenReturn {
+export interface UseSevenElevenReturn {
   // State
   isConnected: boolean;
   address: `0x${string}` | undefined;
@@ -179,6 +238,8 @@ interface UseSevenElevenReturn {
   // Wallet balance (for deposit)
   walletBalance: bigint | undefined;
   walletBalanceFormatted: string;
+  // Connected wallet balance; in account mode deposits top the smart wallet up from it
+  eoaWalletBalance: bigint | undefined;
 
   // Player stats
   playerStats: PlayerStats | undefined;
@@ -203,6 +264,7 @@ interface UseSevenElevenReturn {
   // Token allowance
   allowance: bigint | undefined;
   needsApproval: boolean;
+  supportsPermit: boolean;  // Deposit token implements EIP-2612 permit
 
   // V2: Payout reserves
   payoutReserves: { mfer: bigint; bnkr: bigint; drb: bigint } | undefined;
@@ -218,12 +280,15 @@ interface UseSevenElevenReturn {
   approve: (amount: bigint) => Promise<void>;
   deposit: (amount: bigint) => Promise<void>;
   depositAndAuthorize: (amount: bigint, roller: `0x${string}`) => Promise<void>;
+  // Permit signature + depositAndAuthorizeWithPermit; resolves false when the token has no permit
+  depositWithPermit: (amount: bigint, roller: `0x${string}`) => Promise<boolean>;
   withdraw: (amount: bigint) => Promise<void>;
   withdrawAll: () => Promise<void>;  // V2: Withdraw all deposit tokens
-  roll: () => Promise<void>;
-  rollWithSessionKey: () => Promise<`0x${string}` | undefined>;
+  roll: () => Promise<SubmittedRoll>;  // Resolves on submission, so the dice can start right away
+  rollWithSessionKey: () => Promise<SubmittedRoll>;
   authorizeRoller: (roller: `0x${string}`) => Promise<void>;
-  revokeRoller: () => Promise<void>;
+  revokeRoller: () => Promise<RollerRevokedEvent | undefined>;  // Undefined when no roller was set
+  isRollerRevoked: (roller: `0x${string}`) => Promise<boolean>;  // Fresh getAuthorizedRoller + canRollFor reads
 
   // Session key state
   hasSessionKey: boolean;
@@ -246,6 +311,8 @@ interface UseSevenElevenReturn {
 
   // Errors
   error: Error | null;
+  errorMessage: string | null;   // error decoded into player guidance
+  rollBlockedReason: string | null;  // Set when the roll pre-flight predicts a revert
 
   // Refetch
   refetchBalance: () => void;
@@ -256,22 +323,62 @@ interface UseSevenElevenReturn {
   refetchPayoutReserves: () => void;
 }
 
-export function useSevenEleven(
+// IS_TEST_MODE is a build-time constant, so each hook picks its implementation once at module load
+export const useSevenEleven: typeof useContractSevenEleven = IS_TEST_MODE ? useTestModeSevenEleven : useContractSevenEleven;
+
+function useContractSevenEleven(
   token: SupportedToken,
   options: UseSevenElevenOptions = {}
 ): UseSevenElevenReturn {
   const { address: eoaAddress, isConnected } = useAccount();
   const chainId = useChainId();
   const config = useConfig();
+  const publicClient = usePublicClient();
 
   const address = options.playerAddress || eoaAddress;
-  const { sessionKeyClient, sessionKeyAddress } = options;
+  const { sessionKeyClient, sessionKeyAddress, smartWalletClient } = options;
 
   const [isRollingWithSessionKey, setIsRollingWithSessionKey] = useState(false);
+  const [pendingUserOp, setPendingUserOp] = useState<'approve' | 'deposit' | 'withdraw' | 'roll' | 'authorize' | null>(null);
 
   const contractAddress = useMemo(() => {
     return getSevenElevenAddress(chainId);
   }, [chainId]);
+  const depositTokens = useDepositTokens();
+
+  // Account mode: send calls from the smart wallet as one UserOperation; `logs` resolves on inclusion
+  const submitFromSmartWallet = useCallback(
+    async (kind: NonNullable<typeof pendingUserOp>, calls: UserOperationCall[]): Promise<{ hash: `0x${string}`; logs: Promise<Log[]> }> => {
+      if (!smartWalletClient) throw new Error('Smart wallet client not available');
+
+      setPendingUserOp(kind);
+      let userOpHash: `0x${string}`;
+      try {
+        // sendUserOperation's own gas estimate rejects a reverting batch before any sponsorship is spent
+        userOpHash = await smartWalletClient.sendUserOperation({ calls });
+      } catch (err) {
+        setPendingUserOp(null);
+        throw err;
+      }
+      debugLog.info(`Smart wallet ${kind} submitted: ${userOpHash.slice(0, 10)}... (${calls.length} call${calls.length === 1 ? '' : 's'})`);
+
+      const logs = smartWalletClient.waitForUserOperationReceipt({ hash: userOpHash })
+        .then(receipt => {
+          if (receipt.success === false) throw new UserOperationRevertedError(userOpHash, receipt.reason);
+          return receipt.logs;
+        })
+        .finally(() => setPendingUserOp(null));
+      return { hash: userOpHash, logs };
+    },
+    [smartWalletClient]
+  );
+
+  // Account mode: send calls from the smart wallet and wait for inclusion
+  const sendFromSmartWallet = useCallback(
+    async (kind: NonNullable<typeof pendingUserOp>, calls: UserOperationCall[]): Promise<Log[]> =>
+      (await submitFromSmartWallet(kind, calls)).logs,
+    [submitFromSmartWallet]
+  );
 
   // Read player balance in contract
   const {
@@ -289,7 +396,7 @@ export function useSevenEleven(
   });
 
   // Read wallet balance
-  const { data: walletBalance } = useReadContract({
+  const { data: walletBalance, refetch: refetchWalletBalance } = useReadContract({
     address: token.address,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
@@ -299,6 +406,17 @@ export function useSevenEleven(
     },
   });
 
+  // Account mode: the connected wallet funds the smart wallet's deposits
+  const { data: eoaWalletBalance, refetch: refetchEoaWalletBalance } = useReadContract({
+    address: token.address,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: eoaAddress ? [eoaAddress] : undefined,
+    query: {
+      enabled: isConnected && !!eoaAddress && !!smartWalletClient,
+    },
+  });
+
   // Read player stats
   const {
     data: playerStatsRaw,
@@ -487,7 +605,7 @@ export function useSevenEleven(
   } = useWriteContract();
 
   const {
-    writeContract: writeRoll,
+    writeContractAsync: writeRollAsync,
     data: rollHash,
     isPending: isRollPending,
     error: rollError,
@@ -506,7 +624,21 @@ export function useSevenEleven(
   } = useWriteContract();
 
   const {
-    writeContract: writeRevokeRoller,
+    writeContractAsync: writeFundAsync,
+    isPending: isFundPending,
+    error: fundError,
+  } = useWriteContract();
+
+  const {
+    writeContractAsync: writePermitDepositAsync,
+    isPending: isPermitDepositPending,
+    error: permitDepositError,
+  } = useWriteContract();
+
+  const { signTypedDataAsync, isPending: isSigningPermit } = useSignTypedData();
+
+  const {
+    writeContractAsync: writeRevokeRollerAsync,
     isPending: isRevokePending,
     error: revokeError,
   } = useWriteContract();
@@ -554,104 +686,336 @@ export function useSevenEleven(
   }, [isRollSuccess, refetchBalance, refetchStats, refetchMemeWinnings, refetchPayoutReserves]);
 
   // Functions
+  // Connected-wallet writes are simulated first and the simulated request goes to the wallet,
+  // so a doomed write fails with a decodable revert instead of a prompt
+  const approveCall = useCallback(
+    (amount: bigint): UserOperationCall => ({
+      to: token.address,
+      data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [contractAddress, amount] }),
+    }),
+    [token.address, contractAddress]
+  );
+
   const approve = useCallback(
     async (amount: bigint): Promise<void> => {
-      const hash = await writeApproveAsync({
+      if (smartWalletClient) {
+        await sendFromSmartWallet('approve', [approveCall(amount)]);
+        await refetchAllowance();
+        return;
+      }
+
+      const { request } = await simulateContract(config, {
         address: token.address,
         abi: ERC20_ABI,
         functionName: 'approve',
         args: [contractAddress, amount],
+        account: eoaAddress,
       });
+      const hash = await writeApproveAsync(request);
       await waitForTransactionReceipt(config, { hash });
       await refetchAllowance();
     },
-    [writeApproveAsync, token.address, contractAddress, config, refetchAllowance]
+    [smartWalletClient, sendFromSmartWallet, approveCall, writeApproveAsync, token.address, contractAddress, eoaAddress, config, refetchAllowance]
+  );
+
+  // Account mode: move whatever the smart wallet is short from the connected wallet before it deposits
+  const fundSmartWallet = useCallback(
+    async (amount: bigint): Promise<void> => {
+      if (!address || !eoaAddress) throw new Error('Wallet not connected');
+      const shortfall = amount - (walletBalance ?? BigInt(0));
+      if (shortfall <= BigInt(0)) return;
+
+      const { request } = await simulateContract(config, {
+        address: token.address,
+        abi: ERC20_ABI,
+        functionName: 'transfer',
+        args: [address, shortfall],
+        account: eoaAddress,
+      });
+      const hash = await writeFundAsync(request);
+      await waitForTransactionReceipt(config, { hash });
+      debugLog.info(`Funded smart wallet with ${formatUnits(shortfall, token.decimals)} ${token.symbol}`);
+      await Promise.all([refetchWalletBalance(), refetchEoaWalletBalance()]);
+    },
+    [address, eoaAddress, walletBalance, config, token.address, token.decimals, token.symbol, writeFundAsync, refetchWalletBalance, refetchEoaWalletBalance]
+  );
+
+  // Account mode: withdrawn tokens land in the smart wallet, so the same UserOperation forwards them to the connected wallet
+  const forwardToEoa = useCallback(
+    (tokenAddress: `0x${string}`, amount: bigint): UserOperationCall => {
+      if (!eoaAddress) throw new Error('Wallet not connected');
+      return {
+        to: tokenAddress,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [eoaAddress, amount] }),
+      };
+    },
+    [eoaAddress]
+  );
+
+  // The smart wallet approves and deposits in the same UserOperation
+  const withApproval = useCallback(
+    (amount: bigint, call: UserOperationCall): UserOperationCall[] =>
+      allowance !== undefined && allowance >= amount ? [call] : [approveCall(amount), call],
+    [allowance, approveCall]
   );
 
   const deposit = useCallback(
     async (amount: bigint): Promise<void> => {
-      const hash = await writeDepositAsync({
+      if (smartWalletClient) {
+        await fundSmartWallet(amount);
+        await sendFromSmartWallet('deposit', withApproval(amount, {
+          to: contractAddress,
+          data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'deposit', args: [token.address, amount] }),
+        }));
+        await Promise.all([refetchBalance(), refetchAllowance()]);
+        return;
+      }
+
+      const { request } = await simulateContract(config, {
         address: contractAddress,
         abi: SEVEN_ELEVEN_ABI,
         functionName: 'deposit',
         args: [token.address, amount],
+        account: eoaAddress,
       });
+      const hash = await writeDepositAsync(request);
       await waitForTransactionReceipt(config, { hash });
       await Promise.all([refetchBalance(), refetchAllowance()]);
     },
-    [writeDepositAsync, token.address, contractAddress, config, refetchBalance, refetchAllowance]
+    [smartWalletClient, fundSmartWallet, sendFromSmartWallet, withApproval, writeDepositAsync, token.address, contractAddress, eoaAddress, config, refetchBalance, refetchAllowance]
   );
 
   const withdraw = useCallback(
     async (amount: bigint) => {
-      writeWithdraw({
+      if (smartWalletClient) {
+        await sendFromSmartWallet('withdraw', [
+          {
+            to: contractAddress,
+            data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'withdraw', args: [token.address, amount] }),
+          },
+          forwardToEoa(token.address, amount),
+        ]);
+        await refetchBalance();
+        return;
+      }
+
+      const { request } = await simulateContract(config, {
         address: contractAddress,
         abi: SEVEN_ELEVEN_ABI,
         functionName: 'withdraw',
         args: [token.address, amount],
+        account: eoaAddress,
       });
+      writeWithdraw(request);
     },
-    [writeWithdraw, token.address, contractAddress]
+    [smartWalletClient, sendFromSmartWallet, forwardToEoa, refetchBalance, writeWithdraw, token.address, contractAddress, eoaAddress, config]
   );
 
   // V2: Withdraw all deposit tokens (USDC + WETH)
   const withdrawAll = useCallback(async () => {
-    const hash = await writeWithdrawAllAsync({
+    if (smartWalletClient) {
+      if (!publicClient || !address) throw new Error('Wallet not connected');
+      // withdrawAll pays out every deposit token, so each non-zero balance is forwarded
+      const gameBalances = await Promise.all(depositTokens.map(async t => ({
+        token: t.address,
+        amount: await publicClient.readContract({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'getBalance',
+          args: [address, t.address],
+        }),
+      })));
+      await sendFromSmartWallet('withdraw', [
+        {
+          to: contractAddress,
+          data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'withdrawAll', args: [] }),
+        },
+        ...gameBalances.filter(b => b.amount > BigInt(0)).map(b => forwardToEoa(b.token, b.amount)),
+      ]);
+      await refetchBalance();
+      return;
+    }
+
+    const { request } = await simulateContract(config, {
       address: contractAddress,
       abi: SEVEN_ELEVEN_ABI,
       functionName: 'withdrawAll',
       args: [],
+      account: eoaAddress,
     });
+    const hash = await writeWithdrawAllAsync(request);
     await waitForTransactionReceipt(config, { hash });
     await refetchBalance();
-  }, [writeWithdrawAllAsync, contractAddress, config, refetchBalance]);
+  }, [smartWalletClient, publicClient, address, depositTokens, sendFromSmartWallet, forwardToEoa, writeWithdrawAllAsync, contractAddress, eoaAddress, config, refetchBalance]);
+
+  const roll = useCallback(async (): Promise<SubmittedRoll> => {
+    if (smartWalletClient) {
+      const { hash, logs } = await submitFromSmartWallet('roll', [{
+        to: contractAddress,
+        data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'roll', args: [token.address] }),
+      }]);
+      const sequenceNumber = logs.then(included => {
+        const parsed = parseRollSequenceNumber(included, contractAddress);
+        debugLog.info(`Roll requested from smart wallet: #${parsed?.toString() ?? '?'}`);
+        return parsed;
+      });
+      return { hash, sequenceNumber };
+    }
 
-  const roll = useCallback(async () => {
-    writeRoll({
+    const { request } = await simulateContract(config, {
       address: contractAddress,
       abi: SEVEN_ELEVEN_ABI,
       functionName: 'roll',
       args: [token.address],
+      account: eoaAddress,
     });
-  }, [writeRoll, token.address, contractAddress]);
+    const hash = await writeRollAsync(request);
+    const sequenceNumber = waitForTransactionReceipt(config, { hash }).then(receipt => {
+      const parsed = parseRollSequenceNumber(receipt.logs, contractAddress);
+      debugLog.info(`Roll requested: #${parsed?.toString() ?? '?'}`);
+      return parsed;
+    });
+    return { hash, sequenceNumber };
+  }, [smartWalletClient, submitFromSmartWallet, writeRollAsync, token.address, contractAddress, eoaAddress, config]);
 
   const depositAndAuthorize = useCallback(
     async (amount: bigint, roller: `0x${string}`) => {
-      writeDepositAndAuthorize({
+      if (smartWalletClient) {
+        await fundSmartWallet(amount);
+        await sendFromSmartWallet('deposit', withApproval(amount, {
+          to: contractAddress,
+          data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'depositAndAuthorize', args: [token.address, amount, roller] }),
+        }));
+        await Promise.all([refetchBalance(), refetchAllowance(), refetchAuthorizedRoller()]);
+        return;
+      }
+
+      const { request } = await simulateContract(config, {
         address: contractAddress,
         abi: SEVEN_ELEVEN_ABI,
         functionName: 'depositAndAuthorize',
         args: [token.address, amount, roller],
+        account: eoaAddress,
+      });
+      writeDepositAndAuthorize(request);
+    },
+    [smartWalletClient, fundSmartWallet, sendFromSmartWallet, withApproval, refetchBalance, refetchAllowance, refetchAuthorizedRoller, writeDepositAndAuthorize, token.address, contractAddress, eoaAddress, config]
+  );
+
+  // Permits are signed by the connected wallet, so they only apply when it is the player
+  const [supportsPermit, setSupportsPermit] = useState(false);
+
+  useEffect(() => {
+    setSupportsPermit(false);
+    if (!publicClient || !eoaAddress || address !== eoaAddress) return;
+    let cancelled = false;
+    getPermitDomain(publicClient, token.address, eoaAddress, chainId).then((permit) => {
+      if (!cancelled) setSupportsPermit(permit !== null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, token.address, eoaAddress, address, chainId]);
+
+  const depositWithPermit = useCallback(
+    async (amount: bigint, roller: `0x${string}`): Promise<boolean> => {
+      if (!publicClient || !eoaAddress) return false;
+      const permit = await getPermitDomain(publicClient, token.address, eoaAddress, chainId);
+      if (!permit) return false;
+
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+      const signature = await signTypedDataAsync({
+        domain: permit.domain,
+        types: PERMIT_TYPES,
+        primaryType: 'Permit',
+        message: {
+          owner: eoaAddress,
+          spender: contractAddress,
+          value: amount,
+          nonce: permit.nonce,
+          deadline,
+        },
+      });
+      const { v, r, s, yParity } = parseSignature(signature);
+
+      const { request } = await simulateContract(config, {
+        address: contractAddress,
+        abi: SEVEN_ELEVEN_ABI,
+        functionName: 'depositAndAuthorizeWithPermit',
+        args: [token.address, amount, roller, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+        account: eoaAddress,
       });
+      const hash = await writePermitDepositAsync(request);
+      await waitForTransactionReceipt(config, { hash });
+      debugLog.info(`Permit deposit: ${formatUnits(amount, token.decimals)} ${token.symbol}, roller ${roller.slice(0, 10)}`);
+      await Promise.all([refetchBalance(), refetchAuthorizedRoller()]);
+      return true;
     },
-    [writeDepositAndAuthorize, token.address, contractAddress]
+    [publicClient, eoaAddress, token.address, token.decimals, token.symbol, chainId, contractAddress, signTypedDataAsync, writePermitDepositAsync, config, refetchBalance, refetchAuthorizedRoller]
   );
 
   const authorizeRoller = useCallback(
     async (roller: `0x${string}`): Promise<void> => {
-      const hash = await writeAuthorizeRollerAsync({
+      if (smartWalletClient) {
+        await sendFromSmartWallet('authorize', [{
+          to: contractAddress,
+          data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'authorizeRoller', args: [roller] }),
+        }]);
+        await refetchAuthorizedRoller();
+        return;
+      }
+
+      const { request } = await simulateContract(config, {
         address: contractAddress,
         abi: SEVEN_ELEVEN_ABI,
         functionName: 'authorizeRoller',
         args: [roller],
+        account: eoaAddress,
       });
+      const hash = await writeAuthorizeRollerAsync(request);
       await waitForTransactionReceipt(config, { hash });
       await refetchAuthorizedRoller();
     },
-    [writeAuthorizeRollerAsync, contractAddress, config, refetchAuthorizedRoller]
+    [smartWalletClient, sendFromSmartWallet, writeAuthorizeRollerAsync, contractAddress, eoaAddress, config, refetchAuthorizedRoller]
   );
 
-  const revokeRoller = useCallback(async () => {
-    writeRevokeRoller({
-      address: contractAddress,
-      abi: SEVEN_ELEVEN_ABI,
-      functionName: 'revokeRoller',
-      args: [],
-    });
-  }, [writeRevokeRoller, contractAddress]);
+  const revokeRoller = useCallback(async (): Promise<RollerRevokedEvent | undefined> => {
+    let logs: Log[];
+    if (smartWalletClient) {
+      logs = await sendFromSmartWallet('authorize', [{
+        to: contractAddress,
+        data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'revokeRoller', args: [] }),
+      }]);
+    } else {
+      const { request } = await simulateContract(config, {
+        address: contractAddress,
+        abi: SEVEN_ELEVEN_ABI,
+        functionName: 'revokeRoller',
+        args: [],
+        account: eoaAddress,
+      });
+      const hash = await writeRevokeRollerAsync(request);
+      logs = (await waitForTransactionReceipt(config, { hash })).logs;
+    }
+
+    await refetchAuthorizedRoller();
+    const revoked = parseRollerRevoked(logs, contractAddress);
+    if (revoked) debugLog.info(`RollerRevoked: ${revoked.previousRoller.slice(0, 10)} in block ${revoked.blockNumber}`);
+    return revoked;
+  }, [smartWalletClient, sendFromSmartWallet, writeRevokeRollerAsync, config, refetchAuthorizedRoller, contractAddress, eoaAddress]);
+
+  const isRollerRevoked = useCallback(async (roller: `0x${string}`): Promise<boolean> => {
+    if (!publicClient || !address) return false;
+    const contract = { address: contractAddress, abi: SEVEN_ELEVEN_ABI } as const;
+    const [current, canRoll] = await Promise.all([
+      publicClient.readContract({ ...contract, functionName: 'getAuthorizedRoller', args: [address] }),
+      publicClient.readContract({ ...contract, functionName: 'canRollFor', args: [roller, address] }),
+    ]);
+    return current.toLowerCase() !== roller.toLowerCase() && !canRoll;
+  }, [publicClient, address, contractAddress]);
 
   // Roll with session key
-  const rollWithSessionKey = useCallback(async (): Promise<`0x${string}` | undefined> => {
+  const rollWithSessionKey = useCallback(async (): Promise<SubmittedRoll> => {
     if (!sessionKeyClient) throw new Error('Session key client not available');
     if (!address) throw new Error('Player address not available');
 
@@ -663,8 +1027,20 @@ export function useSevenEleven(
         args: [address, token.address],
       });
 
-      debugLog.debug(`Sending UserOp...`);
+      // Pre-flight as the Kernel account, which is msg.sender for rollFor; an eth_call catches
+      // contract reverts without the bundler round trip on the roll's critical path
       const sendStart = Date.now();
+      if (sessionKeyClient.account && publicClient) {
+        await publicClient.simulateContract({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'rollFor',
+          args: [address, token.address],
+          account: sessionKeyClient.account.address,
+        });
+      }
+
+      debugLog.debug(`Sending UserOp... (pre-flight ${Date.now() - sendStart}ms)`);
 
       const userOpHash = await sessionKeyClient.sendUserOperation({
         calls: [{ to: contractAddress, data: callData }],
@@ -673,21 +1049,29 @@ export function useSevenEleven(
       const sendTime = Date.now() - sendStart;
       debugLog.info(`RollFor submitted: ${userOpHash.slice(0, 10)}... (${sendTime}ms)`);
 
-      setTimeout(() => {
-        refetchBalance();
-        refetchStats();
-        refetchMemeWinnings();
-        refetchPayoutReserves();
-      }, 5000);
+      const sequenceNumber = sessionKeyClient.waitForUserOperationReceipt({ hash: userOpHash }).then(receipt => {
+        if (receipt.success === false) throw new UserOperationRevertedError(userOpHash, receipt.reason);
+        const parsed = parseRollSequenceNumber(receipt.logs, contractAddress);
+        debugLog.info(`RollFor included: #${parsed?.toString() ?? '?'} (${Date.now() - sendStart}ms)`);
+
+        setTimeout(() => {
+          refetchBalance();
+          refetchStats();
+          refetchMemeWinnings();
+          refetchPayoutReserves();
+        }, 5000);
 
-      return userOpHash;
+        return parsed;
+      });
+
+      return { hash: userOpHash, sequenceNumber };
     } catch (err) {
       console.error('Session key rollFor failed:', err);
       throw err;
     } finally {
       setIsRollingWithSessionKey(false);
     }
-  }, [sessionKeyClient, address, token.address, contractAddress, refetchBalance, refetchStats, refetchMemeWinnings, refetchPayoutReserves]);
+  }, [sessionKeyClient, publicClient, address, token.address, contractAddress, refetchBalance, refetchStats, refetchMemeWinnings, refetchPayoutReserves]);
 
   // Watch contract events
   useWatchContractEvent({
@@ -728,18 +1112,13 @@ export function useSevenEleven(
     onLogs: () => refetchBalance(),
   });
 
-  useWatchContractEvent({
-    address: contractAddress,
-    abi: SEVEN_ELEVEN_ABI,
-    eventName: 'RollSettled',
-    onLogs: () => {
-      refetchBalance();
-      refetchStats();
-      refetchMemeWinnings();
-      refetchPayoutReserves();
-      refetchPlayerSkimPaid();
-    },
-  });
+  useRollResults(() => {
+    refetchBalance();
+    refetchStats();
+    refetchMemeWinnings();
+    refetchPayoutReserves();
+    refetchPlayerSkimPaid();
+  }, address);
 
   // Format values
   const balanceFormatted = useMemo(() => {
@@ -784,17 +1163,55 @@ export function useSevenEleven(
   }, [allowance, minDeposit]);
 
   // Aggregate states
-  const isApproving = isApprovePending || isApproveConfirming;
-  const isDepositing = isDepositPending || isDepositConfirming || isDepositAndAuthorizePending;
-  const isWithdrawing = isWithdrawPending || isWithdrawAllPending || isWithdrawConfirming;
-  const isRolling = isRollPending || isRollConfirming;
-  const isAuthorizing = isAuthorizePending || isRevokePending;
+  const isApproving = isApprovePending || isApproveConfirming || pendingUserOp === 'approve';
+  const isDepositing = isFundPending || isDepositPending || isDepositConfirming || isDepositAndAuthorizePending || isSigningPermit || isPermitDepositPending || pendingUserOp === 'deposit';
+  const isWithdrawing = isWithdrawPending || isWithdrawAllPending || isWithdrawConfirming || pendingUserOp === 'withdraw';
+  const isRolling = isRollPending || isRollConfirming || pendingUserOp === 'roll';
+  const isAuthorizing = isAuthorizePending || isRevokePending || pendingUserOp === 'authorize';
   const isPending = isApproving || isDepositing || isWithdrawing || isRolling || isRollingWithSessionKey || isAuthorizing;
 
   const hasSessionKey = !!sessionKeyClient;
   const hasAuthorizedRoller = authorizedRoller !== undefined && authorizedRoller !== '0x0000000000000000000000000000000000000000';
 
-  const error = approveError || depositError || withdrawError || withdrawAllError || rollError || depositAndAuthorizeError || authorizeError || revokeError || null;
+  // Roll pre-flight: simulate the roll the player would send next, from whichever account sends it,
+  // so the roll button can say why it's disabled before anyone taps it. A short Game Balance doesn't
+  // count: tapping roll then opens the deposit menu.
+  const sessionKeyAccount = sessionKeyClient?.account?.address;
+  const rollsViaSessionKey = !!sessionKeyAccount && authorizedRoller?.toLowerCase() === sessionKeyAccount.toLowerCase();
+  const canSimulateRoll = isConnected && !!address && contractAddress !== '0x0000000000000000000000000000000000000000';
+  const { error: rollSimulationError, refetch: refetchRollSimulation } = useSimulateContract({
+    address: contractAddress,
+    abi: SEVEN_ELEVEN_ABI,
+    functionName: 'roll',
+    args: [token.address],
+    account: address,
+    query: { enabled: canSimulateRoll && !rollsViaSessionKey, refetchInterval: 15000 },
+  });
+  const { error: rollForSimulationError, refetch: refetchRollForSimulation } = useSimulateContract({
+    address: contractAddress,
+    abi: SEVEN_ELEVEN_ABI,
+    functionName: 'rollFor',
+    args: address ? [address, token.address] : undefined,
+    account: sessionKeyAccount,
+    query: { enabled: canSimulateRoll && rollsViaSessionKey, refetchInterval: 15000 },
+  });
+
+  // Deposits and settled rolls change what the next roll can do
+  useEffect(() => {
+    if (!canSimulateRoll) return;
+    if (rollsViaSessionKey) refetchRollForSimulation();
+    else refetchRollSimulation();
+  }, [balance, canSimulateRoll, rollsViaSessionKey, refetchRollSimulation, refetchRollForSimulation]);
+
+  const rollPreflightError = rollsViaSessionKey ? rollForSimulationError : rollSimulationError;
+  const rollBlockedReason = useMemo(() => {
+    if (!rollPreflightError || !isContractRevert(rollPreflightError)) return null;
+    if (decodeContractError(rollPreflightError)?.name === 'InsufficientBalance') return null;
+    return formatContractError(rollPreflightError);
+  }, [rollPreflightError]);
+
+  const error = approveError || fundError || depositError || withdrawError || withdrawAllError || rollError || depositAndAuthorizeError || permitDepositError || authorizeError || revokeError || null;
+  const errorMessage = useMemo(() => (error ? formatContractError(error) : null), [error]);
 
   return {
     isConnected,
@@ -805,6 +1222,7 @@ export function useSevenEleven(
     balanceFormatted,
     walletBalance,
     walletBalanceFormatted,
+    eoaWalletBalance,
     playerStats,
     memeWinnings,
     playerSkimPaid: playerSkimPaid as bigint | undefined,
@@ -817,6 +1235,7 @@ export function useSevenEleven(
     entropyFeeFormatted,
     allowance,
     needsApproval,
+    supportsPermit,
     payoutReserves,
     houseLiquidity,
     authorizedRoller: authorizedRoller as `0x${string}` | undefined,
@@ -824,12 +1243,14 @@ export function useSevenEleven(
     approve,
     deposit,
     depositAndAuthorize,
+    depositWithPermit,
     withdraw,
     withdrawAll,
     roll,
     rollWithSessionKey,
     authorizeRoller,
     revokeRoller,
+    isRollerRevoked,
     hasSessionKey,
     sessionKeyAddress,
     isApproving,
@@ -844,6 +1265,8 @@ export function useSevenEleven(
     withdrawHash,
     rollHash,
     error,
+    errorMessage,
+    rollBlockedReason,
     refetchBalance,
     refetchStats,
     refetchEntropyFee,
@@ -853,16 +1276,14 @@ export function useSevenEleven(
   };
 }
 
-// Hook to get deposit tokens for current chain
+// Hook to get deposit tokens for current chain (discovered from the contract)
 export function useDepositTokens(): SupportedToken[] {
-  const chainId = useChainId();
-  return useMemo(() => getDepositTokensForChain(chainId), [chainId]);
+  return useTokenRegistry().depositTokens;
 }
 
-// Hook to get payout tokens for current chain
+// Hook to get payout tokens for current chain (discovered from the contract)
 export function usePayoutTokens(): SupportedToken[] {
-  const chainId = useChainId();
-  return useMemo(() => getPayoutTokensForChain(chainId), [chainId]);
+  return useTokenRegistry().payoutTokens;
 }
 
 // Legacy hook - returns deposit tokens only
@@ -903,12 +1324,14 @@ export interface TokenPriceInfo {
 }
 
 // Hook to get token prices in USD
-export function useTokenPrices(): {
+export const useTokenPrices: typeof useContractTokenPrices = IS_TEST_MODE ? useTestModeTokenPrices : useContractTokenPrices;
+
+function useContractTokenPrices(): {
   prices: Record<string, TokenPriceInfo>;
   isLoading: boolean;
 } {
   const chainId = useChainId();
-  const payoutTokens = useMemo(() => getPayoutTokensForChain(chainId), [chainId]);
+  const payoutTokens = usePayoutTokens();
   const contractAddress = useMemo(() => getSevenElevenAddress(chainId), [chainId]);
 
   // Read price for 1 token (1e18 for 18 decimal tokens)
@@ -996,7 +1419,9 @@ export function useTokenPrices(): {
 }
 
 // Hook to get Grok wallet stats (total MFER sent and count)
-export function useGrokStats(): {
+export const useGrokStats: typeof useContractGrokStats = IS_TEST_MODE ? useTestModeGrokStats : useContractGrokStats;
+
+function useContractGrokStats(): {
   stats: GrokStats | undefined;
   isLoading: boolean;
   refetch: () => void;
@@ -1055,7 +1480,9 @@ export interface SessionGrokStats {
 
 // Hook to track session-based MFER sent to Grok for current player
 // Now uses session stats from contract directly
-export function useSessionGrokStats(refetchTrigger?: number): {
+export const useSessionGrokStats: typeof useContractSessionGrokStats = IS_TEST_MODE ? useTestModeSessionGrokStats : useContractSessionGrokStats;
+
+function useContractSessionGrokStats(refetchTrigger?: number): {
   stats: SessionGrokStats | undefined;
   isLoading: boolean;
 } {
@@ -1164,15 +1591,16 @@ export interface MemeWalletBalance {
   balanceFormatted: string;
 }
 
-export function useMemeWalletBalances(): {
+export const useMemeWalletBalances: typeof useContractMemeWalletBalances = IS_TEST_MODE ? useTestModeMemeWalletBalances : useContractMemeWalletBalances;
+
+function useContractMemeWalletBalances(playerAddress?: `0x${string}`): {
   balances: MemeWalletBalance[];
   isLoading: boolean;
   refetch: () => void;
 } {
-  const { address, isConnected } = useAccount();
-  const chainId = useChainId();
-  const payoutTokens = useMemo(() => getPayoutTokensForChain(chainId), [chainId]);
-  const contractAddress = useMemo(() => getSevenElevenAddress(chainId), [chainId]);
+  const { address: eoaAddress, isConnected } = useAccount();
+  const address = playerAddress || eoaAddress;
+  const payoutTokens = usePayoutTokens();
 
   // Read wallet balance for MFER
   const { data: mferBalance, isLoading: mferLoading, refetch: refetchMfer } = useReadContract({
@@ -1210,18 +1638,12 @@ export function useMemeWalletBalances(): {
     },
   });
 
-  // Watch for RollSettled events to update balances
-  useWatchContractEvent({
-    address: contractAddress,
-    abi: SEVEN_ELEVEN_ABI,
-    eventName: 'RollSettled',
-    onLogs: () => {
-      // Refetch all meme token balances when a roll settles
-      refetchMfer();
-      refetchBnkr();
-      refetchDrb();
-    },
-  });
+  // Refetch all meme token balances when one of our rolls settles
+  useRollResults(() => {
+    refetchMfer();
+    refetchBnkr();
+    refetchDrb();
+  }, address);
 
   const refetch = useCallback(() => {
     refetchMfer();
@@ -3,10 +3,14 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAccount, useChainId, useWalletClient } from 'wagmi';
 import { createPublicClient, http, type PublicClient } from 'viem';
-import { baseSepolia, base } from 'viem/chains';
+import { baseSepolia, base, foundry } from 'viem/chains';
 import { createKernelAccount, createKernelAccountClient, type KernelAccountClient, constants } from '@zerodev/sdk';
 import { signerToEcdsaValidator } from '@zerodev/ecdsa-validator';
-import { getZeroDevConfig, isZeroDevConfigured } from '@/lib/zerodev';
+import {
+  getAccountAbstractionConfig,
+  getUserOperationClientOptions,
+  isAccountAbstractionConfigured,
+} from '@/lib/accountAbstraction';
 import { CHAIN_ID } from '@/lib/contracts';
 
 // Use entry point v0.7
@@ -23,7 +27,7 @@ interface UseSmartWalletReturn {
   // The kernel account client for sending transactions
   kernelClient: KernelAccountClient | undefined;
 
-  // Check if ZeroDev is available
+  // Check if a bundler is configured (ZeroDev or another provider)
   isZeroDevAvailable: boolean;
 }
 
@@ -37,14 +41,15 @@ export function useSmartWallet(): UseSmartWalletReturn {
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const isZeroDevAvailable = useMemo(() => isZeroDevConfigured(), []);
+  const isZeroDevAvailable = useMemo(() => isAccountAbstractionConfigured(), []);
 
-  const zeroDevConfig = useMemo(() => getZeroDevConfig(chainId), [chainId]);
+  const aaConfig = useMemo(() => getAccountAbstractionConfig(chainId), [chainId]);
 
   // Get the right chain config
   const chain = useMemo(() => {
     if (chainId === CHAIN_ID.BASE_SEPOLIA) return baseSepolia;
     if (chainId === CHAIN_ID.BASE_MAINNET) return base;
+    if (chainId === CHAIN_ID.LOCAL) return foundry;
     return baseSepolia; // Default to testnet
   }, [chainId]);
 
@@ -53,7 +58,7 @@ export function useSmartWallet(): UseSmartWalletReturn {
     let isMounted = true;
 
     async function initSmartWallet() {
-      if (!isConnected || !address || !walletClient || !zeroDevConfig || !isZeroDevAvailable) {
+      if (!isConnected || !address || !walletClient || !aaConfig || !isZeroDevAvailable) {
         setSmartWalletAddress(undefined);
         setKernelClient(undefined);
         return;
@@ -63,10 +68,10 @@ export function useSmartWallet(): UseSmartWalletReturn {
       setError(null);
 
       try {
-        // Create a public client for ZeroDev
+        // Create a public client for the AA provider
         const zeroDevPublicClient = createPublicClient({
           chain,
-          transport: http(zeroDevConfig.rpcUrl),
+          transport: http(aaConfig.rpcUrl),
         }) as PublicClient;
 
         // Create ECDSA validator from the user's wallet
@@ -91,29 +96,8 @@ export function useSmartWallet(): UseSmartWalletReturn {
         const client = createKernelAccountClient({
           account: kernelAccount,
           chain,
-          bundlerTransport: http(zeroDevConfig.bundlerUrl),
-          paymaster: {
-            getPaymasterData: async (userOperation) => {
-              // Use ZeroDev's paymaster to sponsor gas
-              const response = await fetch(zeroDevConfig.paymasterUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  jsonrpc: '2.0',
-                  id: 1,
-                  method: 'pm_sponsorUserOperation',
-                  params: [userOperation, entryPoint],
-                }),
-              });
-
-              const data = await response.json();
-              if (data.error) {
-                throw new Error(data.error.message || 'Paymaster error');
-              }
-
-              return data.result;
-            },
-          },
+          // Sponsored by the configured paymaster, or user-paid when there is none
+          ...getUserOperationClientOptions(aaConfig, chain, zeroDevPublicClient),
         });
 
         if (!isMounted) return;
@@ -139,7 +123,7 @@ export function useSmartWallet(): UseSmartWalletReturn {
     return () => {
       isMounted = false;
     };
-  }, [isConnected, address, walletClient, zeroDevConfig, isZeroDevAvailable, chain]);
+  }, [isConnected, address, walletClient, aaConfig, isZeroDevAvailable, chain]);
 
   const isSmartWalletReady = !!smartWalletAddress && !!kernelClient;
 
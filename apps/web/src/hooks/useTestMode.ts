@@ -0,0 +1,307 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { formatUnits } from 'viem';
+import { getSevenElevenAddress } from '@/lib/contracts';
+import { testModeEngine } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+import {
+  getDepositTokensForChain,
+  getPayoutTokensForChain,
+  type GrokStats,
+  type MemeWalletBalance,
+  type SessionGrokStats,
+  type SubmittedRoll,
+  type SupportedToken,
+  type TokenPriceInfo,
+  type UseSevenElevenOptions,
+  type UseSevenElevenReturn,
+} from './useSevenEleven';
+
+// Engine state read through `read`, re-read whenever the engine changes or `read` does
+function useTestModeState<T>(read: () => T): T {
+  const [state, setState] = useState(read);
+
+  useEffect(() => {
+    setState(read);
+    return testModeEngine.subscribe(() => setState(read));
+  }, [read]);
+
+  return state;
+}
+
+// Format large meme token amounts (18 decimals)
+function formatMemeAmount(amount: bigint): string {
+  const value = Number(formatUnits(amount, 18));
+  if (value === 0) return '0';
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  if (value >= 1) return value.toFixed(2);
+  return value.toFixed(4);
+}
+
+const noop = () => {};
+
+// Test mode implementation of useSevenEleven - same return shape, virtual balances
+export function useTestModeSevenEleven(
+  token: SupportedToken,
+  options: UseSevenElevenOptions = {}
+): UseSevenElevenReturn {
+  const { address: eoaAddress, isConnected } = useAccount();
+  const chainId = useChainId();
+  const address = options.playerAddress || eoaAddress;
+  const contractAddress = useMemo(() => getSevenElevenAddress(chainId), [chainId]);
+
+  // The engine only prices stablecoin deposits (the registry hides the rest in test mode)
+  const isPlayable = token.isDepositToken && !!token.isStablecoin;
+
+  const [isDepositing, setIsDepositing] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const readSnapshot = useCallback(() => {
+    if (!address) return undefined;
+    return {
+      balance: testModeEngine.getGameBalance(address, token),
+      walletBalance: isPlayable ? testModeEngine.getWalletBalance(address, token) : undefined,
+      player: testModeEngine.getPlayerState(address),
+    };
+  }, [address, token, isPlayable]);
+  const snapshot = useTestModeState(readSnapshot);
+
+  const betAmount = isPlayable ? testModeEngine.getBetAmount(token) : undefined;
+  const minDeposit = isPlayable ? testModeEngine.getMinDeposit(token) : undefined;
+
+  // Wrap engine calls so failures surface through `error` like contract writes
+  const run = useCallback((fn: () => void) => {
+    setError(null);
+    try {
+      fn();
+    } catch (err) {
+      const e = err instanceof Error ? err : new Error(String(err));
+      setError(e);
+      throw e;
+    }
+  }, []);
+
+  const deposit = useCallback(async (amount: bigint): Promise<void> => {
+    if (!address) throw new Error('Player address not available');
+    setIsDepositing(true);
+    try {
+      run(() => testModeEngine.deposit(address, token, amount));
+      debugLog.info(`TEST MODE deposit: ${formatUnits(amount, token.decimals)} ${token.symbol}`);
+    } finally {
+      setIsDepositing(false);
+    }
+  }, [address, token, run]);
+
+  const withdraw = useCallback(async (amount: bigint): Promise<void> => {
+    if (!address) throw new Error('Player address not available');
+    setIsWithdrawing(true);
+    try {
+      run(() => testModeEngine.withdraw(address, token, amount));
+    } finally {
+      setIsWithdrawing(false);
+    }
+  }, [address, token, run]);
+
+  const withdrawAll = useCallback(async (): Promise<void> => {
+    if (!address) throw new Error('Player address not available');
+    setIsWithdrawing(true);
+    try {
+      run(() => testModeEngine.withdrawAll(address, getDepositTokensForChain(chainId)));
+    } finally {
+      setIsWithdrawing(false);
+    }
+  }, [address, chainId, run]);
+
+  const roll = useCallback(async (): Promise<SubmittedRoll> => {
+    if (!address) throw new Error('Player address not available');
+    let sequenceNumber: bigint | undefined;
+    run(() => {
+      sequenceNumber = testModeEngine.roll(address, token);
+      debugLog.info(`TEST MODE roll requested: #${sequenceNumber}`);
+    });
+    return { hash: undefined, sequenceNumber: Promise.resolve(sequenceNumber) };
+  }, [address, token, run]);
+
+  // Virtual balances need no approval and no session key
+  const approve = useCallback(async () => {}, []);
+  const depositAndAuthorize = useCallback(async (amount: bigint) => deposit(amount), [deposit]);
+  // Test tokens have no EIP-2612 permit, so callers use the approve path
+  const depositWithPermit = useCallback(async () => false, []);
+  const authorizeRoller = useCallback(async () => {}, []);
+  const revokeRoller = useCallback(async () => undefined, []);
+  const isRollerRevoked = useCallback(async () => true, []);
+  const rollWithSessionKey = useCallback(async (): Promise<SubmittedRoll> => {
+    throw new Error('Session keys are not available in test mode');
+  }, []);
+
+  const balance = snapshot?.balance;
+  const walletBalance = snapshot?.walletBalance;
+  const skimPaid = snapshot?.player.skimPaid;
+
+  return {
+    isConnected,
+    address,
+    chainId,
+    contractAddress,
+    balance,
+    balanceFormatted: balance === undefined ? '0' : formatUnits(balance, token.decimals),
+    walletBalance,
+    walletBalanceFormatted: walletBalance === undefined ? '0' : formatUnits(walletBalance, token.decimals),
+    // Test mode always plays from the connected wallet
+    eoaWalletBalance: walletBalance,
+    playerStats: snapshot?.player.stats,
+    memeWinnings: snapshot?.player.memeWinnings,
+    playerSkimPaid: skimPaid,
+    playerSkimPaidFormatted: skimPaid === undefined ? '0' : formatMemeAmount(skimPaid),
+    betAmount,
+    betAmountFormatted: betAmount === undefined ? '0' : formatUnits(betAmount, token.decimals),
+    minDeposit,
+    minDepositFormatted: minDeposit === undefined ? '0' : formatUnits(minDeposit, token.decimals),
+    entropyFee: BigInt(0),
+    entropyFeeFormatted: '0',
+    allowance: undefined,
+    needsApproval: false,
+    supportsPermit: false,
+    payoutReserves: undefined,
+    houseLiquidity: undefined,
+    authorizedRoller: undefined,
+    hasAuthorizedRoller: false,
+    approve,
+    deposit,
+    depositAndAuthorize,
+    depositWithPermit,
+    withdraw,
+    withdrawAll,
+    roll,
+    rollWithSessionKey,
+    authorizeRoller,
+    revokeRoller,
+    isRollerRevoked,
+    hasSessionKey: false,
+    sessionKeyAddress: undefined,
+    isApproving: false,
+    isDepositing,
+    isWithdrawing,
+    isRolling: false,
+    isRollingWithSessionKey: false,
+    isAuthorizing: false,
+    isPending: isDepositing || isWithdrawing,
+    approveHash: undefined,
+    depositHash: undefined,
+    withdrawHash: undefined,
+    rollHash: undefined,
+    error,
+    errorMessage: error?.message ?? null,
+    rollBlockedReason: null,
+    refetchBalance: noop,
+    refetchStats: noop,
+    refetchEntropyFee: noop,
+    refetchAuthorizedRoller: noop,
+    refetchMemeWinnings: noop,
+    refetchPayoutReserves: noop,
+  };
+}
+
+// Test mode payout tokens use mock pricing: $0.001 per token
+export function useTestModeTokenPrices(): {
+  prices: Record<string, TokenPriceInfo>;
+  isLoading: boolean;
+} {
+  const chainId = useChainId();
+
+  const prices = useMemo(() => {
+    const result: Record<string, TokenPriceInfo> = {};
+    for (const token of getPayoutTokensForChain(chainId)) {
+      result[token.symbol] = {
+        token,
+        priceUsdCents: undefined, // Sub-cent price, not representable in whole cents
+        priceUsd: '$0.0010',
+        isLoading: false,
+      };
+    }
+    return result;
+  }, [chainId]);
+
+  return { prices, isLoading: false };
+}
+
+function readGrokStats(): GrokStats {
+  const global = testModeEngine.getGlobalState();
+  return {
+    totalAmount: global.grokSkimAmount,
+    totalCount: global.grokSkimCount,
+    totalAmountFormatted: formatMemeAmount(global.grokSkimAmount),
+  };
+}
+
+export function useTestModeGrokStats(): {
+  stats: GrokStats | undefined;
+  isLoading: boolean;
+  refetch: () => void;
+} {
+  const stats = useTestModeState(readGrokStats);
+
+  return { stats, isLoading: false, refetch: noop };
+}
+
+export function useTestModeSessionGrokStats(): {
+  stats: SessionGrokStats | undefined;
+  isLoading: boolean;
+} {
+  const { address, isConnected } = useAccount();
+
+  const readStats = useCallback((): SessionGrokStats | undefined => {
+    if (!isConnected || !address) return undefined;
+    const { stats: playerStats, skimPaid } = testModeEngine.getPlayerState(address);
+
+    // Every test mode skim is the same mock amount, so the session share is exact
+    const sessionCount = Number(playerStats.sessionLosses);
+    const totalLossCount = Number(playerStats.totalLosses);
+    const sessionAmount = totalLossCount > 0
+      ? (skimPaid * BigInt(sessionCount)) / BigInt(totalLossCount)
+      : BigInt(0);
+
+    return {
+      sessionAmount,
+      sessionAmountFormatted: formatMemeAmount(sessionAmount),
+      sessionCount,
+      totalAmount: skimPaid,
+      totalAmountFormatted: formatMemeAmount(skimPaid),
+    };
+  }, [address, isConnected]);
+  const stats = useTestModeState(readStats);
+
+  return { stats, isLoading: false };
+}
+
+export function useTestModeMemeWalletBalances(): {
+  balances: MemeWalletBalance[];
+  isLoading: boolean;
+  refetch: () => void;
+} {
+  const { address } = useAccount();
+  const chainId = useChainId();
+
+  const readBalances = useCallback((): MemeWalletBalance[] => {
+    const payoutTokens = getPayoutTokensForChain(chainId);
+    const winnings = address ? testModeEngine.getPlayerState(address).memeWinnings : undefined;
+
+    // Payout tokens come in MFER, BNKR, DRB order, the same order the engine pays them in
+    const amounts = winnings ? [winnings.mfer, winnings.bnkr, winnings.drb] : [];
+    return payoutTokens.map((token, i) => {
+      const balance = amounts[i] ?? BigInt(0);
+      return {
+        token,
+        balance,
+        balanceFormatted: formatMemeAmount(balance),
+      };
+    });
+  }, [address, chainId]);
+  const balances = useTestModeState(readBalances);
+
+  return { balances, isLoading: false, refetch: noop };
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useChainId, useReadContracts } from 'wagmi';
+import { ERC20_ABI, SEVEN_ELEVEN_ABI, getSevenElevenAddress, getTokenIconUrl } from '@/lib/contracts';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { getDepositTokensForChain, getPayoutTokensForChain, type SupportedToken } from './useSevenEleven';
+
+export interface TokenRegistry {
+  depositTokens: SupportedToken[];
+  payoutTokens: SupportedToken[];
+}
+
+interface TokenMetadata {
+  name: string;
+  icon: string;
+}
+
+const REGISTRY_STORAGE_PREFIX = 'mferroll_token_registry_v1';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+function getStaticRegistry(chainId: number): TokenRegistry {
+  const depositTokens = getDepositTokensForChain(chainId);
+  return {
+    // The test mode engine prices every deposit token at $1, so it only offers stablecoins
+    depositTokens: IS_TEST_MODE ? depositTokens.filter(t => t.isStablecoin) : depositTokens,
+    payoutTokens: getPayoutTokensForChain(chainId),
+  };
+}
+
+// Icons and display names the contract can't tell us come from the static token lists;
+// anything else falls back to Trust Wallet assets
+function getMetadataOverlay(chainId: number, address: `0x${string}`, symbol: string): TokenMetadata {
+  const key = address.toLowerCase();
+  const known = [...getDepositTokensForChain(chainId), ...getPayoutTokensForChain(chainId)]
+    .find(t => t.address.toLowerCase() === key);
+  if (known) return { name: known.name, icon: known.icon };
+  return { name: symbol, icon: getTokenIconUrl(address) };
+}
+
+function getStorageKey(chainId: number, contractAddress: string): string {
+  return `${REGISTRY_STORAGE_PREFIX}_${chainId}_${contractAddress.toLowerCase()}`;
+}
+
+function loadCachedRegistry(chainId: number, contractAddress: string): TokenRegistry | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(chainId, contractAddress));
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn('Failed to load token registry:', e);
+  }
+  return null;
+}
+
+function saveCachedRegistry(chainId: number, contractAddress: string, registry: TokenRegistry): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(getStorageKey(chainId, contractAddress), JSON.stringify(registry));
+  } catch (e) {
+    console.warn('Failed to save token registry:', e);
+  }
+}
+
+// Deposit and payout tokens as the contract reports them, so addToken/removeToken
+// show up without a frontend release. Falls back to the last cached registry,
+// then to the static token lists, until the reads resolve.
+export function useTokenRegistry(): TokenRegistry & { isLive: boolean; refetch: () => void } {
+  const chainId = useChainId();
+  const contractAddress = getSevenElevenAddress(chainId);
+  const enabled = !IS_TEST_MODE && contractAddress !== ZERO_ADDRESS;
+  const contract = { address: contractAddress, abi: SEVEN_ELEVEN_ABI } as const;
+
+  const [cached, setCached] = useState<TokenRegistry | null>(null);
+
+  useEffect(() => {
+    setCached(enabled ? loadCachedRegistry(chainId, contractAddress) : null);
+  }, [enabled, chainId, contractAddress]);
+
+  const { data: listRaw, refetch: refetchList } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: 'getSupportedTokens' },
+      { ...contract, functionName: 'MFER' },
+      { ...contract, functionName: 'BNKR' },
+      { ...contract, functionName: 'DRB' },
+    ],
+    query: { enabled },
+  });
+
+  const supported = listRaw?.[0]?.result as readonly `0x${string}`[] | undefined;
+  const payoutAddresses = useMemo(() => {
+    const addresses = [listRaw?.[1]?.result, listRaw?.[2]?.result, listRaw?.[3]?.result] as (`0x${string}` | undefined)[];
+    return addresses.every(Boolean) ? (addresses as `0x${string}`[]) : undefined;
+  }, [listRaw]);
+
+  // Every token we need details for: the supported list plus the payout immutables
+  const candidates = useMemo(() => {
+    if (!supported || !payoutAddresses) return [];
+    const seen = new Set<string>();
+    return [...supported, ...payoutAddresses].filter(address => {
+      const key = address.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [supported, payoutAddresses]);
+
+  const { data: configRaw, refetch: refetchConfig } = useReadContracts({
+    contracts: candidates.flatMap(token => [
+      { ...contract, functionName: 'isDepositToken' as const, args: [token] as const },
+      { ...contract, functionName: 'isStablecoin' as const, args: [token] as const },
+      { ...contract, functionName: 'supportedTokens' as const, args: [token] as const },
+    ]),
+    query: { enabled: enabled && candidates.length > 0 },
+  });
+
+  // ERC20 metadata never changes, so it stays cached for the session
+  const { data: erc20Raw } = useReadContracts({
+    contracts: candidates.flatMap(token => [
+      { address: token, abi: ERC20_ABI, functionName: 'symbol' as const },
+      { address: token, abi: ERC20_ABI, functionName: 'decimals' as const },
+    ]),
+    query: { enabled: enabled && candidates.length > 0, staleTime: Infinity },
+  });
+
+  const live = useMemo((): TokenRegistry | null => {
+    if (!supported || !payoutAddresses || !configRaw || !erc20Raw) return null;
+
+    const tokens = new Map<string, SupportedToken>();
+    for (let i = 0; i < candidates.length; i++) {
+      const address = candidates[i];
+      const symbol = erc20Raw[i * 2]?.result as string | undefined;
+      const decimals = erc20Raw[i * 2 + 1]?.result as number | undefined;
+      if (symbol === undefined || decimals === undefined) continue;
+
+      const config = configRaw[i * 3 + 2]?.result as readonly [`0x${string}`, `0x${string}`, number, boolean, boolean] | undefined;
+      const pool = config?.[1];
+      const metadata = getMetadataOverlay(chainId, address, symbol);
+      tokens.set(address.toLowerCase(), {
+        address,
+        symbol,
+        name: metadata.name,
+        decimals,
+        icon: metadata.icon,
+        isDepositToken: (configRaw[i * 3]?.result as boolean | undefined) ?? false,
+        isPayoutToken: payoutAddresses.some(p => p.toLowerCase() === address.toLowerCase()),
+        isStablecoin: (configRaw[i * 3 + 1]?.result as boolean | undefined) ?? false,
+        poolAddress: pool && pool !== ZERO_ADDRESS ? pool : null,
+      });
+    }
+
+    const depositTokens = supported
+      .map(address => tokens.get(address.toLowerCase()))
+      .filter((t): t is SupportedToken => !!t && t.isDepositToken);
+    // Payout order matches getPayoutReserves: MFER, BNKR, DRB
+    const payoutTokens = payoutAddresses
+      .map(address => tokens.get(address.toLowerCase()))
+      .filter((t): t is SupportedToken => !!t);
+
+    if (depositTokens.length === 0 || payoutTokens.length !== payoutAddresses.length) return null;
+    return { depositTokens, payoutTokens };
+  }, [supported, payoutAddresses, configRaw, erc20Raw, candidates, chainId]);
+
+  useEffect(() => {
+    if (live) saveCachedRegistry(chainId, contractAddress, live);
+  }, [live, chainId, contractAddress]);
+
+  const registry = useMemo(
+    () => live ?? cached ?? getStaticRegistry(chainId),
+    [live, cached, chainId]
+  );
+
+  const refetch = useCallback(() => {
+    refetchList();
+    refetchConfig();
+  }, [refetchList, refetchConfig]);
+
+  return { ...registry, isLive: !!live, refetch };
+}
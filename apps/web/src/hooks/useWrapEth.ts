@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAccount, useBalance, useConfig, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { formatEther } from 'viem';
+import { WETH_ABI } from '@/lib/contracts';
+import { IS_TEST_MODE } from '@/lib/testMode';
+import { debugLog } from '@/components/DebugConsole';
+import { useDeployment } from './useDeployment';
+
+// Native ETH balance and WETH9 wrapping for ETH-denominated deposits
+export function useWrapEth() {
+  const { address } = useAccount();
+  const config = useConfig();
+  const { deployment } = useDeployment();
+  const wethAddress = deployment?.tokens.WETH;
+
+  const { data: ethBalance, refetch: refetchEthBalance } = useBalance({
+    address,
+    query: { enabled: !!address && !IS_TEST_MODE },
+  });
+
+  const { writeContractAsync, isPending: isWrapping } = useWriteContract();
+
+  const wrap = useCallback(async (amount: bigint): Promise<void> => {
+    if (!wethAddress) throw new Error('WETH is not deployed on this network');
+    const hash = await writeContractAsync({
+      address: wethAddress,
+      abi: WETH_ABI,
+      functionName: 'deposit',
+      value: amount,
+    });
+    await waitForTransactionReceipt(config, { hash });
+    debugLog.info(`Wrapped ${formatEther(amount)} ETH`);
+    await refetchEthBalance();
+  }, [writeContractAsync, wethAddress, config, refetchEthBalance]);
+
+  return {
+    wethAddress,
+    ethBalance: ethBalance?.value,
+    ethBalanceFormatted: ethBalance ? formatEther(ethBalance.value) : '0',
+    wrap,
+    isWrapping,
+  };
+}
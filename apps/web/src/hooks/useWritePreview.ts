@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { encodeFunctionData } from 'viem';
+import { ERC20_ABI, SEVEN_ELEVEN_ABI, WETH_ABI, getSevenElevenAddress } from '@/lib/contracts';
+import { getDeployment } from '@/lib/deployments';
+import { previewWrite, type SimulatedCall, type TrackedBalance, type WritePreview } from '@/lib/preflight';
+import { useDepositTokens, type SupportedToken } from './useSevenEleven';
+
+export interface DepositPreviewParams {
+  amount: bigint;
+  approve: boolean;              // Allowance is short; permit and smart wallet deposits approve in the same step
+  wrapAmount?: bigint;           // ETH wrapped to WETH before depositing
+  roller?: `0x${string}`;        // Session key authorized alongside the deposit
+}
+
+// Simulated balance changes for the deposit and withdraw confirmation sheet
+export function useWritePreview(playerAddress?: `0x${string}`) {
+  const { address: eoaAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const depositTokens = useDepositTokens();
+  const address = playerAddress ?? eoaAddress;
+  const contractAddress = getSevenElevenAddress(chainId);
+
+  const balancesFor = useCallback((player: `0x${string}`, tokens: SupportedToken[]): TrackedBalance[] =>
+    tokens.flatMap(token => [
+      {
+        label: 'Wallet',
+        symbol: token.symbol,
+        decimals: token.decimals,
+        read: {
+          to: token.address,
+          data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [player] }),
+        },
+      },
+      {
+        label: 'Game Balance',
+        symbol: token.symbol,
+        decimals: token.decimals,
+        read: {
+          to: contractAddress,
+          data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'getBalance', args: [player, token.address] }),
+        },
+      },
+    ]), [contractAddress]);
+
+  const previewDeposit = useCallback(async (
+    token: SupportedToken,
+    { amount, approve, wrapAmount, roller }: DepositPreviewParams
+  ): Promise<WritePreview> => {
+    if (!publicClient || !address) throw new Error('Wallet not connected');
+
+    const calls: SimulatedCall[] = [];
+    const wethAddress = getDeployment(chainId)?.tokens.WETH;
+    if (wrapAmount && wrapAmount > BigInt(0) && wethAddress) {
+      calls.push({
+        to: wethAddress,
+        data: encodeFunctionData({ abi: WETH_ABI, functionName: 'deposit' }),
+        value: wrapAmount,
+      });
+    }
+    if (approve) {
+      calls.push({
+        to: token.address,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [contractAddress, amount] }),
+      });
+    }
+    calls.push({
+      to: contractAddress,
+      data: roller
+        ? encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'depositAndAuthorize', args: [token.address, amount, roller] })
+        : encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'deposit', args: [token.address, amount] }),
+    });
+
+    return previewWrite(publicClient, address, calls, balancesFor(address, [token]));
+  }, [publicClient, address, chainId, contractAddress, balancesFor]);
+
+  // withdrawAll empties every deposit token, so every one is tracked
+  const previewWithdrawAll = useCallback(async (): Promise<WritePreview> => {
+    if (!publicClient || !address) throw new Error('Wallet not connected');
+
+    const calls: SimulatedCall[] = [{
+      to: contractAddress,
+      data: encodeFunctionData({ abi: SEVEN_ELEVEN_ABI, functionName: 'withdrawAll', args: [] }),
+    }];
+    const balances = balancesFor(address, depositTokens);
+
+    // A smart wallet forwards what it withdraws to the connected wallet in the same UserOperation
+    if (eoaAddress && address.toLowerCase() !== eoaAddress.toLowerCase()) {
+      for (const token of depositTokens) {
+        const amount = await publicClient.readContract({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          functionName: 'getBalance',
+          args: [address, token.address],
+        });
+        if (amount > BigInt(0)) {
+          calls.push({
+            to: token.address,
+            data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [eoaAddress, amount] }),
+          });
+        }
+        balances.push({
+          label: 'Connected Wallet',
+          symbol: token.symbol,
+          decimals: token.decimals,
+          read: {
+            to: token.address,
+            data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [eoaAddress] }),
+          },
+        });
+      }
+    }
+
+    const preview = await previewWrite(publicClient, address, calls, balances);
+    // Tokens the player never deposited would only add 0 → 0 rows
+    return { ...preview, changes: preview.changes.filter(change => change.before !== change.after) };
+  }, [publicClient, address, eoaAddress, contractAddress, depositTokens, balancesFor]);
+
+  return { previewDeposit, previewWithdrawAll };
+}
@@ -0,0 +1,143 @@
+// ERC-4337 provider layer: which bundler, paymaster and RPC the Kernel clients talk to
+// ZeroDev is the default. 'custom' points at any bundler plus an optional ERC-7677 paymaster,
+// and 'local' targets a self-hosted bundler next to a local node (see .env.example).
+import { http, type Chain } from 'viem';
+import { createPaymasterClient } from 'viem/account-abstraction';
+import { createZeroDevPaymasterClient } from '@zerodev/sdk';
+import { CHAIN_ID } from './contracts';
+import { LOCAL_RPC_URL } from './localDevnet';
+import { getZeroDevConfig, isZeroDevConfigured } from './zerodev';
+
+export type AaProvider = 'zerodev' | 'custom' | 'local';
+
+// 'none' means user-paid UserOperations: the Kernel account pays its own gas
+export type PaymasterKind = 'zerodev' | 'erc7677' | 'none';
+
+export interface AccountAbstractionConfig {
+  provider: AaProvider;
+  rpcUrl: string;
+  bundlerUrl: string;
+  paymaster: PaymasterKind;
+  paymasterUrl?: string;
+  paymasterContext?: Record<string, unknown>;  // ERC-7677 context, e.g. a sponsorship policy id
+}
+
+const AA_PROVIDER: AaProvider =
+  process.env.NEXT_PUBLIC_AA_PROVIDER === 'custom' || process.env.NEXT_PUBLIC_AA_PROVIDER === 'local'
+    ? process.env.NEXT_PUBLIC_AA_PROVIDER
+    : 'zerodev';
+
+// Local profile: the devnet node (LOCAL_RPC_URL) and an Alto/Rundler-style bundler on 4337
+const LOCAL_BUNDLER_URL = process.env.NEXT_PUBLIC_LOCAL_BUNDLER_URL || 'http://127.0.0.1:4337';
+const LOCAL_PAYMASTER_URL = process.env.NEXT_PUBLIC_LOCAL_PAYMASTER_URL || undefined;
+
+if (AA_PROVIDER === 'zerodev' && !isZeroDevConfigured()) {
+  console.warn('NEXT_PUBLIC_ZERODEV_PROJECT_ID not set - session keys will not work');
+}
+
+function parsePaymasterContext(): Record<string, unknown> | undefined {
+  const raw = process.env.NEXT_PUBLIC_AA_PAYMASTER_CONTEXT;
+  if (!raw) return undefined;
+
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.warn('Failed to parse NEXT_PUBLIC_AA_PAYMASTER_CONTEXT:', e);
+  }
+  return undefined;
+}
+
+// Per-chain endpoints for the 'custom' provider. Next.js only inlines literal env names.
+function getCustomEndpoints(chainId: number) {
+  if (chainId === CHAIN_ID.BASE_MAINNET) {
+    return {
+      rpcUrl: process.env.NEXT_PUBLIC_BASE_AA_RPC_URL,
+      bundlerUrl: process.env.NEXT_PUBLIC_BASE_BUNDLER_URL,
+      paymasterUrl: process.env.NEXT_PUBLIC_BASE_PAYMASTER_URL,
+    };
+  }
+  if (chainId === CHAIN_ID.BASE_SEPOLIA) {
+    return {
+      rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_AA_RPC_URL,
+      bundlerUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_BUNDLER_URL,
+      paymasterUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_PAYMASTER_URL,
+    };
+  }
+  return null;
+}
+
+// Bundler, paymaster and RPC for a chain, or null when smart accounts aren't available there
+export function getAccountAbstractionConfig(chainId: number): AccountAbstractionConfig | null {
+  const paymasterContext = parsePaymasterContext();
+
+  if (AA_PROVIDER === 'local') {
+    return {
+      provider: 'local',
+      rpcUrl: LOCAL_RPC_URL,
+      bundlerUrl: LOCAL_BUNDLER_URL,
+      paymaster: LOCAL_PAYMASTER_URL ? 'erc7677' : 'none',
+      paymasterUrl: LOCAL_PAYMASTER_URL,
+      paymasterContext,
+    };
+  }
+
+  if (AA_PROVIDER === 'custom') {
+    const endpoints = getCustomEndpoints(chainId);
+    if (!endpoints?.rpcUrl || !endpoints.bundlerUrl) return null;
+    return {
+      provider: 'custom',
+      rpcUrl: endpoints.rpcUrl,
+      bundlerUrl: endpoints.bundlerUrl,
+      paymaster: endpoints.paymasterUrl ? 'erc7677' : 'none',
+      paymasterUrl: endpoints.paymasterUrl,
+      paymasterContext,
+    };
+  }
+
+  if (!isZeroDevConfigured()) return null;
+  const zeroDev = getZeroDevConfig(chainId);
+  if (!zeroDev) return null;
+  return {
+    provider: 'zerodev',
+    rpcUrl: zeroDev.rpcUrl,
+    bundlerUrl: zeroDev.bundlerUrl,
+    paymaster: 'zerodev',
+    paymasterUrl: zeroDev.paymasterUrl,
+    paymasterContext,
+  };
+}
+
+// Whether the configured provider can serve smart accounts at all
+export function isAccountAbstractionConfigured(): boolean {
+  if (AA_PROVIDER === 'zerodev') return isZeroDevConfigured();
+  return true;
+}
+
+// The slice of a public client used for fee estimation, so chain-typed clients fit too
+interface FeeEstimator {
+  estimateFeesPerGas: () => Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+}
+
+// Bundler transport, paymaster and fee estimation to spread into createKernelAccountClient
+export function getUserOperationClientOptions(
+  config: AccountAbstractionConfig,
+  chain: Chain,
+  publicClient: FeeEstimator
+) {
+  const paymaster =
+    config.paymaster === 'zerodev' && config.paymasterUrl
+      ? createZeroDevPaymasterClient({ chain, transport: http(config.paymasterUrl) })
+      : config.paymaster === 'erc7677' && config.paymasterUrl
+      ? createPaymasterClient({ transport: http(config.paymasterUrl) })
+      : undefined;
+
+  return {
+    bundlerTransport: http(config.bundlerUrl),
+    paymaster,
+    paymasterContext: config.paymasterContext,
+    // The Kernel client defaults to ZeroDev's zd_getUserOperationGasPrice; other bundlers get node fees
+    userOperation: config.provider === 'zerodev'
+      ? undefined
+      : { estimateFeesPerGas: async () => publicClient.estimateFeesPerGas() },
+  };
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { parseEventLogs, type Log } from 'viem';
+import { SEVEN_ELEVEN_ABI } from './contracts';
+
+const AUDIT_STORAGE_PREFIX = 'mferroll_admin_audit_v1';
+const MAX_AUDIT_ENTRIES = 200;
+
+// Owner functions the admin console can call
+export type AdminActionName =
+  | 'addWeth'
+  | 'addStablecoin'
+  | 'addToken'
+  | 'removeToken'
+  | 'setMockToken'
+  | 'depositPayoutReserves'
+  | 'withdrawPayoutReserves'
+  | 'depositHouseLiquidity'
+  | 'withdrawHouseLiquidity'
+  | 'depositEntropyFunds'
+  | 'withdrawEntropyFunds';
+
+// Events the owner functions emit (house liquidity and entropy moves emit nothing)
+export const ADMIN_EVENT_NAMES = [
+  'TokenAdded',
+  'TokenRemoved',
+  'PayoutReservesDeposited',
+  'PayoutReservesWithdrawn',
+  'MockTokenSet',
+] as const;
+
+export interface AdminAuditEvent {
+  name: (typeof ADMIN_EVENT_NAMES)[number];
+  args: Record<string, string>;
+}
+
+export interface AdminAuditEntry {
+  action: AdminActionName;
+  summary: string;          // Human-readable call, e.g. "withdrawPayoutReserves(MFER, 1000)"
+  before: string;           // Value the action changes, read just before sending
+  after: string;            // Same value read after the receipt
+  transactionHash: `0x${string}`;
+  blockNumber: string;
+  timestamp: number;        // ms
+  events: AdminAuditEvent[];
+}
+
+function getStorageKey(chainId: number, contractAddress: string): string {
+  return `${AUDIT_STORAGE_PREFIX}_${chainId}_${contractAddress.toLowerCase()}`;
+}
+
+// Admin events emitted by the contract in a transaction receipt
+export function parseAdminEvents(logs: Log[], contractAddress: `0x${string}`): AdminAuditEvent[] {
+  const events = parseEventLogs({ abi: SEVEN_ELEVEN_ABI, eventName: [...ADMIN_EVENT_NAMES], logs });
+  return events
+    .filter(e => e.address.toLowerCase() === contractAddress.toLowerCase())
+    .map(e => ({
+      name: e.eventName as AdminAuditEvent['name'],
+      args: Object.fromEntries(Object.entries(e.args).map(([key, value]) => [key, String(value)])),
+    }));
+}
+
+export function loadAdminAuditLog(chainId: number, contractAddress: string): AdminAuditEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(chainId, contractAddress));
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn('Failed to load admin audit log:', e);
+  }
+  return [];
+}
+
+// Newest first, capped so the log can't grow without bound
+export function appendAdminAuditEntry(
+  chainId: number,
+  contractAddress: string,
+  entry: AdminAuditEntry
+): AdminAuditEntry[] {
+  const entries = [entry, ...loadAdminAuditLog(chainId, contractAddress)].slice(0, MAX_AUDIT_ENTRIES);
+  if (typeof window === 'undefined') return entries;
+
+  try {
+    localStorage.setItem(getStorageKey(chainId, contractAddress), JSON.stringify(entries));
+  } catch (e) {
+    console.warn('Failed to save admin audit log:', e);
+  }
+  return entries;
+}
+
+export function clearAdminAuditLog(chainId: number, contractAddress: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(getStorageKey(chainId, contractAddress));
+  } catch (e) {
+    console.warn('Failed to clear admin audit log:', e);
+  }
+}
@@ -0,0 +1,135 @@
+// Turns SevenEleven reverts into messages a player can act on.
+// Handles direct transaction reverts (viem decodes them against SEVEN_ELEVEN_ABI) and UserOperation
+// reverts from the bundler, where the revert data only shows up wrapped in RPC error data or text.
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  isHex,
+  type Hex,
+} from 'viem';
+import { ERC20_ABI, SEVEN_ELEVEN_ABI, SEVEN_ELEVEN_CONSTANTS } from './contracts';
+
+type ContractErrorName = Extract<
+  (typeof SEVEN_ELEVEN_ABI)[number] | (typeof ERC20_ABI)[number],
+  { type: 'error' }
+>['name'];
+
+// Every error in the ABIs needs guidance here, so new contract errors fail the type-check until described
+const ERROR_GUIDANCE: Record<ContractErrorName, string> = {
+  TokenNotSupported: 'This token is not enabled for play right now. Pick another deposit token.',
+  TokenNotDepositToken: 'This token cannot be deposited. Use USDC or WETH.',
+  InsufficientBalance: 'Not enough Game Balance for this. Deposit more or lower the amount.',
+  InsufficientDeposit: `Deposits must be worth at least $${SEVEN_ELEVEN_CONSTANTS.MIN_DEPOSIT_USD.toFixed(2)}.`,
+  InsufficientPayoutReserves: 'House reserves are low, so rolls are paused. Try again later.',
+  InvalidAmount: 'Enter an amount greater than zero.',
+  RollAlreadySettled: 'This roll has already settled.',
+  PriceStale: 'The price oracle is stale, so bets cannot be priced. Try again in a few minutes.',
+  InvalidPrice: 'The price oracle returned an invalid price. Try again later.',
+  PoolNotFound: 'This token has no price pool configured.',
+  InsufficientFee: 'The house cannot cover the randomness fee right now. Try again later.',
+  NotAuthorized: 'This device is not authorized to roll for you. Turn gasless rolling off and on again.',
+  OwnableUnauthorizedAccount: 'Only the contract owner can do this.',
+  ReentrancyGuardReentrantCall: 'The contract rejected a nested call. Try again.',
+  SafeERC20FailedOperation: 'The token transfer failed. Check your token balance and approval.',
+  ERC20InsufficientBalance: 'Your wallet does not hold enough of this token.',
+  ERC20InsufficientAllowance: 'The token approval is too low. Approve the deposit again.',
+  ERC2612ExpiredSignature: 'The deposit signature expired. Try the deposit again.',
+  ERC2612InvalidSigner: 'The deposit signature did not match your wallet. Try the deposit again.',
+};
+
+const ERRORS_ABI = [...SEVEN_ELEVEN_ABI, ...ERC20_ABI].filter(item => item.type === 'error');
+
+export interface DecodedContractError {
+  name: string;
+  args?: readonly unknown[];
+  message: string;
+}
+
+// Thrown when a UserOperation is included but its call reverted; reason is the receipt's revert data
+export class UserOperationRevertedError extends Error {
+  readonly userOpHash: Hex;
+  readonly reason?: string;
+
+  constructor(userOpHash: Hex, reason?: string) {
+    super(`UserOperation reverted: ${userOpHash}`);
+    this.name = 'UserOperationRevertedError';
+    this.userOpHash = userOpHash;
+    this.reason = reason;
+  }
+}
+
+function describe(name: string, args?: readonly unknown[]): DecodedContractError | null {
+  if (name in ERROR_GUIDANCE) return { name, args, message: ERROR_GUIDANCE[name as ContractErrorName] };
+  // require() strings from the admin paths
+  if (name === 'Error' && typeof args?.[0] === 'string') return { name, args, message: args[0] };
+  return null;
+}
+
+// Revert data may arrive wrapped (EntryPoint FailedOpWithRevert, Kernel's execute) with the
+// original error ABI-encoded as a bytes argument, so try the start and every word boundary after
+// the wrapper's selector
+function decodeRevertData(data: Hex): DecodedContractError | null {
+  const body = data.slice(2);
+  for (let offset = 0; offset + 8 <= body.length; offset = offset === 0 ? 8 : offset + 64) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: ERRORS_ABI, data: `0x${body.slice(offset)}` });
+      const decoded = describe(errorName, args);
+      if (decoded) return decoded;
+    } catch {
+      // Not a known error at this offset
+    }
+  }
+  return null;
+}
+
+// Hex blobs anywhere in the error chain: viem's raw revert data, RPC error data, the bundler's
+// revert reason, and hex quoted in messages (e.g. "reverted during simulation with reason: 0x...")
+function collectRevertData(err: unknown): Hex[] {
+  const found: Hex[] = [];
+  const add = (value: unknown) => {
+    if (typeof value === 'string' && isHex(value) && value.length >= 10) found.push(value);
+  };
+
+  let current: unknown = err;
+  for (let depth = 0; current && typeof current === 'object' && depth < 10; depth++) {
+    const node = current as Record<string, unknown>;
+    add(node.raw);
+    add(node.reason);
+    add(node.data);
+    if (node.data && typeof node.data === 'object') add((node.data as Record<string, unknown>).data);
+    for (const text of [node.details, node.message]) {
+      if (typeof text === 'string') {
+        for (const match of text.match(/0x[0-9a-fA-F]{8,}/g) ?? []) add(match);
+      }
+    }
+    current = node.cause;
+  }
+  return found;
+}
+
+export function decodeContractError(err: unknown): DecodedContractError | null {
+  for (const data of collectRevertData(err)) {
+    const decoded = decodeRevertData(data);
+    if (decoded) return decoded;
+  }
+  return null;
+}
+
+// True when the failure is the contract reverting, as opposed to an RPC or wallet problem
+export function isContractRevert(err: unknown): boolean {
+  if (decodeContractError(err)) return true;
+  return err instanceof BaseError && !!err.walk(e => e instanceof ContractFunctionRevertedError);
+}
+
+// User-facing text for a failed write: contract guidance when the revert decodes, else viem's short message
+export function formatContractError(err: unknown): string {
+  const decoded = decodeContractError(err);
+  if (decoded) return decoded.message;
+  if (err instanceof BaseError) {
+    if (err.walk(e => e instanceof UserRejectedRequestError)) return 'Request rejected in wallet.';
+    return err.shortMessage;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
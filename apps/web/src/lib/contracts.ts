@@ -1,9 +1,14 @@
 // Chain IDs
+import { getDeployment } from './deployments';
+
 export const CHAIN_ID = {
   BASE_MAINNET: 8453,
   BASE_SEPOLIA: 84532,
+  LOCAL: 31337,  // anvil, enabled with NEXT_PUBLIC_ENABLE_LOCAL_CHAIN
 } as const;
 
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`;
+
 // ERC20 ABI for token interactions
 export const ERC20_ABI = [
   {
@@ -23,6 +28,16 @@ export const ERC20_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'transfer',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [
       { name: 'owner', type: 'address' },
@@ -47,6 +62,88 @@ export const ERC20_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'name',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  // OpenZeppelin ERC20/ERC2612 errors, bubbled up through SevenEleven's transferFrom and permit calls
+  {
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'balance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+    name: 'ERC20InsufficientBalance',
+    type: 'error',
+  },
+  {
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'allowance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+    name: 'ERC20InsufficientAllowance',
+    type: 'error',
+  },
+  {
+    inputs: [{ name: 'deadline', type: 'uint256' }],
+    name: 'ERC2612ExpiredSignature',
+    type: 'error',
+  },
+  {
+    inputs: [
+      { name: 'signer', type: 'address' },
+      { name: 'owner', type: 'address' },
+    ],
+    name: 'ERC2612InvalidSigner',
+    type: 'error',
+  },
+] as const;
+
+// EIP-2612 permit extension (USDC supports it, WETH9 does not)
+export const ERC20_PERMIT_ABI = [
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// WETH9: wrap native ETH so it can be deposited as WETH
+export const WETH_ABI = [
+  {
+    inputs: [],
+    name: 'deposit',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'wad', type: 'uint256' }],
+    name: 'withdraw',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
 ] as const;
 
 // SevenEleven V2 contract ABI
@@ -342,6 +439,19 @@ export const SEVEN_ELEVEN_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'supportedTokens',
+    outputs: [
+      { name: 'token', type: 'address' },
+      { name: 'uniswapPool', type: 'address' },
+      { name: 'decimals', type: 'uint8' },
+      { name: 'enabled', type: 'bool' },
+      { name: 'isToken0', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'token', type: 'address' }],
     name: 'isDepositToken',
@@ -404,6 +514,27 @@ export const SEVEN_ELEVEN_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'BPS_DENOMINATOR',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'RESERVE_WARNING_THRESHOLD',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'isMockToken',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   // Immutable addresses
   {
     inputs: [],
@@ -447,6 +578,123 @@ export const SEVEN_ELEVEN_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'entropy',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  // Owner administration
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'isStablecoin',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'addWeth',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'addStablecoin',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'uniswapPool', type: 'address' },
+    ],
+    name: 'addToken',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'removeToken',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: '_isMock', type: 'bool' },
+    ],
+    name: 'setMockToken',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'depositPayoutReserves',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'withdrawPayoutReserves',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'depositHouseLiquidity',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'withdrawHouseLiquidity',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'depositEntropyFunds',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    name: 'withdrawEntropyFunds',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   // Events
   {
     anonymous: false,
@@ -546,6 +794,58 @@ export const SEVEN_ELEVEN_ABI = [
     name: 'RollerRevoked',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'currentAmount', type: 'uint256' },
+      { indexed: false, name: 'threshold', type: 'uint256' },
+    ],
+    name: 'ReservesLow',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'uniswapPool', type: 'address' },
+    ],
+    name: 'TokenAdded',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, name: 'token', type: 'address' }],
+    name: 'TokenRemoved',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'PayoutReservesDeposited',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'PayoutReservesWithdrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'isMock', type: 'bool' },
+    ],
+    name: 'MockTokenSet',
+    type: 'event',
+  },
   // Price oracle functions
   {
     inputs: [],
@@ -571,64 +871,70 @@ export const SEVEN_ELEVEN_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  // Custom errors
+  { inputs: [], name: 'TokenNotSupported', type: 'error' },
+  { inputs: [], name: 'TokenNotDepositToken', type: 'error' },
+  { inputs: [], name: 'InsufficientBalance', type: 'error' },
+  { inputs: [], name: 'InsufficientDeposit', type: 'error' },
+  { inputs: [], name: 'InsufficientPayoutReserves', type: 'error' },
+  { inputs: [], name: 'InvalidAmount', type: 'error' },
+  { inputs: [], name: 'RollAlreadySettled', type: 'error' },
+  { inputs: [], name: 'PriceStale', type: 'error' },
+  { inputs: [], name: 'InvalidPrice', type: 'error' },
+  { inputs: [], name: 'PoolNotFound', type: 'error' },
+  { inputs: [], name: 'InsufficientFee', type: 'error' },
+  { inputs: [], name: 'NotAuthorized', type: 'error' },
+  // Inherited from OpenZeppelin Ownable, ReentrancyGuard and SafeERC20
+  {
+    inputs: [{ name: 'account', type: 'address' }],
+    name: 'OwnableUnauthorizedAccount',
+    type: 'error',
+  },
+  { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'SafeERC20FailedOperation',
+    type: 'error',
+  },
 ] as const;
 
-// Token addresses by network
-export const TOKEN_ADDRESSES_BY_CHAIN = {
-  [CHAIN_ID.BASE_MAINNET]: {
-    // Deposit tokens
-    USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`,
-    WETH: '0x4200000000000000000000000000000000000006' as `0x${string}`,
-    // Payout tokens (meme coins)
-    MFERCOIN: '0xE3086852A4B125803C815a158249ae468A3254Ca' as `0x${string}`,
-    DRB: '0x3ec2156D4c0A9CBdAB4a016633b7BcF6a8d68Ea2' as `0x${string}`,
-    BANKR: '0x22aF33FE49fD1Fa80c7149773dDe5890D3c76F3b' as `0x${string}`,
-  },
-  [CHAIN_ID.BASE_SEPOLIA]: {
-    // Deposit tokens
-    USDC: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as `0x${string}`,
-    WETH: '0x4200000000000000000000000000000000000006' as `0x${string}`,
-    // Payout tokens (mock meme coins) - Deployed by script
-    MFERCOIN: '0x2D8956e3Fd63505DF56e619Ae6A59d3110716Ef8' as `0x${string}`,
-    DRB: '0x90130EcEF79282030537204124aAf71BA0c25854' as `0x${string}`,
-    BANKR: '0xDD51fBE09280E108d728e15046506bB859114357' as `0x${string}`,
+// Pyth Entropy V2 reveal event (emitted by the entropy contract when the callback runs)
+// plus MockEntropy's manual fulfill function used on local/test deployments
+export const PYTH_ENTROPY_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'provider', type: 'address' },
+      { indexed: true, name: 'caller', type: 'address' },
+      { indexed: true, name: 'sequenceNumber', type: 'uint64' },
+      { indexed: false, name: 'randomNumber', type: 'bytes32' },
+      { indexed: false, name: 'userContribution', type: 'bytes32' },
+      { indexed: false, name: 'providerContribution', type: 'bytes32' },
+      { indexed: false, name: 'callbackFailed', type: 'bool' },
+      { indexed: false, name: 'callbackReturnValue', type: 'bytes' },
+      { indexed: false, name: 'callbackGasUsed', type: 'uint32' },
+      { indexed: false, name: 'extraArgs', type: 'bytes' },
+    ],
+    name: 'Revealed',
+    type: 'event',
   },
-} as const;
-
-// Uniswap V3 pool addresses for meme tokens (used for TWAP pricing)
-export const POOL_ADDRESSES_BY_CHAIN = {
-  [CHAIN_ID.BASE_MAINNET]: {
-    MFERCOIN_WETH: '0x7EC18ABf80E865c6799069df91073335935C4185' as `0x${string}`,
-    DRB_WETH: '0x5116773e18A9C7bB03EBB961b38678E45E238923' as `0x${string}`,
-    BANKR_WETH: '0xAEC085E5A5CE8d96A7bDd3eB3A62445d4f6CE703' as `0x${string}`,
-  },
-  [CHAIN_ID.BASE_SEPOLIA]: {
-    // Testnet uses mock tokens with fixed pricing, no real pools
-    MFERCOIN_WETH: null,
-    DRB_WETH: null,
-    BANKR_WETH: null,
+  {
+    inputs: [
+      { name: 'sequenceNumber', type: 'uint64' },
+      { name: 'randomNumber', type: 'bytes32' },
+    ],
+    name: 'fulfillRandomness',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
   },
-} as const;
-
-// Grok wallet addresses
-export const GROK_WALLET_BY_CHAIN = {
-  [CHAIN_ID.BASE_MAINNET]: '0xB1058c959987E3513600EB5b4fD82Aeee2a0E4F9' as `0x${string}`,
-  [CHAIN_ID.BASE_SEPOLIA]: '0xB1058c959987E3513600EB5b4fD82Aeee2a0E4F9' as `0x${string}`, // Using drb.eth for testnet
-} as const;
-
-// Legacy export for backwards compatibility
-export const TOKEN_ADDRESSES = TOKEN_ADDRESSES_BY_CHAIN[CHAIN_ID.BASE_MAINNET];
-
-// SevenEleven contract addresses by network
-export const SEVEN_ELEVEN_ADDRESS_BY_CHAIN = {
-  [CHAIN_ID.BASE_MAINNET]: '0x0000000000000000000000000000000000000000' as `0x${string}`, // TODO: Deploy to mainnet
-  [CHAIN_ID.BASE_SEPOLIA]: '0x9c1eD060E7bc4f64f6e0015b7552C4D1752ED904' as `0x${string}`, // Deployed by script
-} as const;
+] as const;
 
-// Helper to get contract address for current chain
+// Helper to get contract address for current chain.
+// Addresses live in the deployment manifest (public/deployments.json); zero when the game isn't
+// deployed on the chain, which hooks treat as "disabled".
 export function getSevenElevenAddress(chainId: number): `0x${string}` {
-  return SEVEN_ELEVEN_ADDRESS_BY_CHAIN[chainId as keyof typeof SEVEN_ELEVEN_ADDRESS_BY_CHAIN]
-    ?? '0x0000000000000000000000000000000000000000';
+  return getDeployment(chainId)?.sevenEleven ?? ZERO_ADDRESS;
 }
 
 // Helper to get token icon URL from Trust Wallet assets
@@ -636,9 +942,6 @@ export function getTokenIconUrl(address: string): string {
   return `https://assets-cdn.trustwallet.com/blockchains/base/assets/${address}/logo.png`;
 }
 
-// Legacy export - will be deprecated
-export const SEVEN_ELEVEN_ADDRESS = '0x9c1eD060E7bc4f64f6e0015b7552C4D1752ED904' as `0x${string}`;
-
 // SevenEleven V2 game constants
 export const SEVEN_ELEVEN_CONSTANTS = {
   BET_USD: 0.40,
@@ -647,6 +950,7 @@ export const SEVEN_ELEVEN_CONSTANTS = {
   WIN_DOUBLES_MULTIPLIER: 2,  // Profit multiplier (2x = 200% profit on bet)
   LOSS_SKIM_USD: 0.02,
   WINNING_SUMS: [7, 11] as const,
+  SESSION_GAP_SECONDS: 60 * 60,  // New session after 1 hour without rolling
 } as const;
 
 // Win types enum matching contract
@@ -684,6 +988,20 @@ export interface MemeWinnings {
   drb: bigint;
 }
 
+// Decoded RollSettled event args
+export interface RollSettledArgs {
+  sequenceNumber: bigint;
+  player: `0x${string}`;
+  die1: number;
+  die2: number;
+  rollOutcome: RollOutcome;
+  mferPayout: bigint;
+  bnkrPayout: bigint;
+  drbPayout: bigint;
+  mferSkimmed: bigint;
+  playerBalance: bigint;
+}
+
 // Token info type
 export interface TokenInfo {
   address: `0x${string}`;
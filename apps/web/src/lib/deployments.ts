@@ -0,0 +1,153 @@
+// Deployment manifest: every contract, token and pool address the app uses, one entry per chain
+// Loaded once at startup from /deployments.json (public/deployments.json, copied next to the static
+// export), so a redeploy only needs a new JSON file. The anvil entry comes from the Foundry broadcast.
+import { isAddress } from 'viem';
+import { foundry } from 'viem/chains';
+import { LOCAL_DEPLOYMENT } from './localDevnet';
+
+export const DEPLOYMENTS_URL = '/deployments.json';
+
+export interface ChainDeployment {
+  name: string;
+  testnet: boolean;                        // Mock meme tokens with fixed pricing
+  sevenEleven: `0x${string}` | null;       // null until the game is deployed on this chain
+  sevenElevenDeployBlock: number | null;   // Block SevenEleven was created in; full-history log scans start here
+  grokWallet: `0x${string}`;
+  tokens: {
+    USDC: `0x${string}`;
+    WETH: `0x${string}`;
+    MFERCOIN: `0x${string}`;
+    DRB: `0x${string}`;
+    BANKR: `0x${string}`;
+  };
+  // Uniswap V3 pools used for TWAP pricing; null where tokens are mock-priced
+  pools: {
+    MFERCOIN_WETH: `0x${string}` | null;
+    DRB_WETH: `0x${string}` | null;
+    BANKR_WETH: `0x${string}` | null;
+  };
+}
+
+export type DeploymentManifest = Record<number, ChainDeployment>;
+
+export class DeploymentManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeploymentManifestError';
+  }
+}
+
+// Schema for one manifest entry; 'address?' and 'block?' allow null
+type FieldSchema = 'string' | 'boolean' | 'address' | 'address?' | 'block?' | { [key: string]: FieldSchema };
+
+const CHAIN_DEPLOYMENT_SCHEMA: FieldSchema = {
+  name: 'string',
+  testnet: 'boolean',
+  sevenEleven: 'address?',
+  sevenElevenDeployBlock: 'block?',
+  grokWallet: 'address',
+  tokens: {
+    USDC: 'address',
+    WETH: 'address',
+    MFERCOIN: 'address',
+    DRB: 'address',
+    BANKR: 'address',
+  },
+  pools: {
+    MFERCOIN_WETH: 'address?',
+    DRB_WETH: 'address?',
+    BANKR_WETH: 'address?',
+  },
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+function validateField(value: unknown, schema: FieldSchema, path: string, errors: string[]): void {
+  if (typeof schema === 'object') {
+    if (typeof value !== 'object' || value === null) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    for (const [key, fieldSchema] of Object.entries(schema)) {
+      validateField((value as Record<string, unknown>)[key], fieldSchema, `${path}.${key}`, errors);
+    }
+    return;
+  }
+
+  if ((schema === 'address?' || schema === 'block?') && value === null) return;
+  if (schema === 'block?') {
+    if (!Number.isSafeInteger(value) || (value as number) < 0) errors.push(`${path} must be a block number or null`);
+    return;
+  }
+  if (schema === 'address' || schema === 'address?') {
+    // The zero address is how "not deployed" used to be spelled; the manifest uses null instead
+    if (typeof value !== 'string' || !isAddress(value) || value === ZERO_ADDRESS) {
+      errors.push(`${path} must be a non-zero address${schema === 'address?' ? ' or null' : ''}`);
+    }
+    return;
+  }
+  if (typeof value !== schema) errors.push(`${path} must be a ${schema}`);
+}
+
+export function validateManifest(raw: unknown): DeploymentManifest {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new DeploymentManifestError('Deployment manifest must be an object keyed by chain id');
+  }
+
+  const errors: string[] = [];
+  const manifest: DeploymentManifest = {};
+  for (const [key, entry] of Object.entries(raw)) {
+    const chainId = Number(key);
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      errors.push(`"${key}" is not a chain id`);
+      continue;
+    }
+    validateField(entry, CHAIN_DEPLOYMENT_SCHEMA, key, errors);
+    manifest[chainId] = entry as ChainDeployment;
+  }
+
+  if (errors.length > 0) {
+    throw new DeploymentManifestError(`Invalid deployment manifest: ${errors.join('; ')}`);
+  }
+  return manifest;
+}
+
+// The anvil entry, built from the addresses next.config.js read out of the broadcast
+function getLocalEntry(): ChainDeployment | null {
+  if (!LOCAL_DEPLOYMENT) return null;
+  return {
+    name: 'Local (anvil)',
+    testnet: true,
+    sevenEleven: LOCAL_DEPLOYMENT.sevenEleven,
+    sevenElevenDeployBlock: 0,                // A fresh anvil chain
+    grokWallet: LOCAL_DEPLOYMENT.grokWallet,
+    tokens: LOCAL_DEPLOYMENT.tokens,
+    pools: { MFERCOIN_WETH: null, DRB_WETH: null, BANKR_WETH: null },
+  };
+}
+
+let loadedManifest: DeploymentManifest | null = null;
+
+export async function loadDeployments(): Promise<DeploymentManifest> {
+  // no-store: a replaced deployments.json takes effect on the next page load
+  const response = await fetch(DEPLOYMENTS_URL, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new DeploymentManifestError(`Failed to load ${DEPLOYMENTS_URL}: HTTP ${response.status}`);
+  }
+
+  const manifest = validateManifest(await response.json());
+  const local = getLocalEntry();
+  if (local) manifest[foundry.id] = local;
+
+  loadedManifest = manifest;
+  return manifest;
+}
+
+// The manifest entry for a chain; null for chains the manifest doesn't list (or before it loads)
+export function getDeployment(chainId: number): ChainDeployment | null {
+  return loadedManifest?.[chainId] ?? null;
+}
+
+export function isSevenElevenDeployed(chainId: number): boolean {
+  return !!getDeployment(chainId)?.sevenEleven;
+}
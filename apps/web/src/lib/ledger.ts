@@ -0,0 +1,326 @@
+// Per-player roll ledger for tax/accounting export: rolls plus every deposit and withdrawal,
+// with running Game Balance so the file reconciles to the on-chain balance
+import { formatUnits } from 'viem';
+import { RollOutcome } from './contracts';
+import { BET_USD_CENTS } from './rules';
+
+export interface LedgerToken {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+// Raw contract events, already decoded and timestamped
+export type LedgerEvent =
+  | { kind: 'deposit'; token: `0x${string}`; amount: bigint }
+  | { kind: 'withdraw'; token: `0x${string}`; amount: bigint }
+  | { kind: 'withdrawAll'; usdcAmount: bigint; wethAmount: bigint }
+  | { kind: 'rollRequested'; sequenceNumber: bigint; token: `0x${string}`; betAmount: bigint }
+  | {
+      kind: 'rollSettled';
+      sequenceNumber: bigint;
+      die1: number;
+      die2: number;
+      rollOutcome: RollOutcome;
+      mferPayout: bigint;
+      bnkrPayout: bigint;
+      drbPayout: bigint;
+      mferSkimmed: bigint;
+      playerBalance: bigint;
+      // USD value of each amount at the settlement block (undefined if the RPC can't serve historical state)
+      mferValueCents?: bigint;
+      bnkrValueCents?: bigint;
+      drbValueCents?: bigint;
+      skimValueCents?: bigint;
+    };
+
+export type LedgerLogEvent = LedgerEvent & {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+};
+
+export type TimestampedLedgerEvent = LedgerLogEvent & { timestamp: number };  // ms
+
+export interface LedgerRow {
+  date: string;               // ISO 8601, UTC
+  blockNumber: string;
+  transactionHash: string;
+  type: 'deposit' | 'withdraw' | 'roll';
+  sequenceNumber: string;
+  token: string;
+  amount: string;             // Deposit (+) / withdrawal (-) / roll (-bet while pending or lost, 0 on a win) in token units
+  betUsd: string;
+  outcome: string;            // '7/11' | 'Doubles' | 'Loss' | 'Pending'
+  dice: string;
+  mferReceived: string;
+  bnkrReceived: string;
+  drbReceived: string;
+  mferUsd: string;
+  bnkrUsd: string;
+  drbUsd: string;
+  winningsUsd: string;
+  mferSkimmed: string;
+  skimUsd: string;
+  usdcBalance: string;        // Game Balance after this row
+  wethBalance: string;
+}
+
+export interface Ledger {
+  player: `0x${string}`;
+  chainId: number;
+  fromBlock: string;
+  toBlock: string;
+  generatedAt: string;
+  openingBalances: Record<string, string>;
+  closingBalances: Record<string, string>;
+  rows: LedgerRow[];
+}
+
+interface BuildLedgerOptions {
+  player: `0x${string}`;
+  chainId: number;
+  fromBlock: bigint;
+  toBlock: bigint;
+  usdc: LedgerToken;
+  weth: LedgerToken;
+  // Game Balance per deposit token at `toBlock` - the opening balance is derived backwards from it
+  closingBalances: Record<string, bigint>;
+  events: TimestampedLedgerEvent[];
+}
+
+const MEME_DECIMALS = 18;
+
+function formatCents(cents: bigint | undefined): string {
+  if (cents === undefined) return '';
+  return (Number(cents) / 100).toFixed(2);
+}
+
+function outcomeLabel(outcome: RollOutcome): string {
+  if (outcome === RollOutcome.Doubles) return 'Doubles';
+  if (outcome === RollOutcome.Win) return '7/11';
+  return 'Loss';
+}
+
+function compareEvents(a: TimestampedLedgerEvent, b: TimestampedLedgerEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+export function buildLedger({
+  player,
+  chainId,
+  fromBlock,
+  toBlock,
+  usdc,
+  weth,
+  closingBalances,
+  events,
+}: BuildLedgerOptions): Ledger {
+  const sorted = [...events].sort(compareEvents);
+  const tokens = new Map<string, LedgerToken>([
+    [usdc.address.toLowerCase(), usdc],
+    [weth.address.toLowerCase(), weth],
+  ]);
+  const requests = new Map<string, Extract<LedgerEvent, { kind: 'rollRequested' }>>();
+  const settledSequences = new Set<string>();
+  for (const event of sorted) {
+    if (event.kind === 'rollRequested') requests.set(event.sequenceNumber.toString(), event);
+    if (event.kind === 'rollSettled') settledSequences.add(event.sequenceNumber.toString());
+  }
+
+  // Balance change of one event per token (bets are taken at request, returned on a win at settlement)
+  const deltas = (event: LedgerEvent): [string, bigint][] => {
+    switch (event.kind) {
+      case 'deposit':
+        return [[event.token.toLowerCase(), event.amount]];
+      case 'withdraw':
+        return [[event.token.toLowerCase(), -event.amount]];
+      case 'withdrawAll':
+        return [[usdc.address.toLowerCase(), -event.usdcAmount], [weth.address.toLowerCase(), -event.wethAmount]];
+      case 'rollRequested':
+        return [[event.token.toLowerCase(), -event.betAmount]];
+      case 'rollSettled': {
+        const request = requests.get(event.sequenceNumber.toString());
+        if (!request || event.rollOutcome === RollOutcome.Loss) return [];
+        return [[request.token.toLowerCase(), request.betAmount]];
+      }
+    }
+  };
+
+  const balances = new Map<string, bigint>();
+  tokens.forEach((_, key) => balances.set(key, closingBalances[key] ?? BigInt(0)));
+  for (const event of sorted) {
+    for (const [key, delta] of deltas(event)) {
+      balances.set(key, (balances.get(key) ?? BigInt(0)) - delta);
+    }
+  }
+
+  const snapshot = (): Record<string, string> => {
+    const result: Record<string, string> = {};
+    tokens.forEach((token, key) => {
+      result[token.symbol] = formatUnits(balances.get(key) ?? BigInt(0), token.decimals);
+    });
+    return result;
+  };
+  const openingBalances = snapshot();
+
+  const symbolOf = (address: string) => tokens.get(address.toLowerCase())?.symbol ?? address;
+  const formatAmount = (address: string, amount: bigint) =>
+    formatUnits(amount, tokens.get(address.toLowerCase())?.decimals ?? 18);
+
+  const rows: LedgerRow[] = [];
+
+  for (const event of sorted) {
+    for (const [key, delta] of deltas(event)) {
+      balances.set(key, (balances.get(key) ?? BigInt(0)) + delta);
+    }
+
+    const base = {
+      date: new Date(event.timestamp).toISOString(),
+      blockNumber: event.blockNumber.toString(),
+      transactionHash: event.transactionHash,
+      sequenceNumber: '',
+      token: '',
+      amount: '',
+      betUsd: '',
+      outcome: '',
+      dice: '',
+      mferReceived: '',
+      bnkrReceived: '',
+      drbReceived: '',
+      mferUsd: '',
+      bnkrUsd: '',
+      drbUsd: '',
+      winningsUsd: '',
+      mferSkimmed: '',
+      skimUsd: '',
+      usdcBalance: formatUnits(balances.get(usdc.address.toLowerCase()) ?? BigInt(0), usdc.decimals),
+      wethBalance: formatUnits(balances.get(weth.address.toLowerCase()) ?? BigInt(0), weth.decimals),
+    };
+
+    switch (event.kind) {
+      case 'deposit':
+        rows.push({ ...base, type: 'deposit', token: symbolOf(event.token), amount: formatAmount(event.token, event.amount) });
+        break;
+      case 'withdraw':
+        rows.push({ ...base, type: 'withdraw', token: symbolOf(event.token), amount: `-${formatAmount(event.token, event.amount)}` });
+        break;
+      case 'withdrawAll':
+        if (event.usdcAmount > BigInt(0)) {
+          rows.push({ ...base, type: 'withdraw', token: usdc.symbol, amount: `-${formatUnits(event.usdcAmount, usdc.decimals)}` });
+        }
+        if (event.wethAmount > BigInt(0)) {
+          rows.push({ ...base, type: 'withdraw', token: weth.symbol, amount: `-${formatUnits(event.wethAmount, weth.decimals)}` });
+        }
+        break;
+      case 'rollRequested':
+        // Settled rolls get their single row at settlement
+        if (!settledSequences.has(event.sequenceNumber.toString())) {
+          rows.push({
+            ...base,
+            type: 'roll',
+            sequenceNumber: event.sequenceNumber.toString(),
+            token: symbolOf(event.token),
+            amount: `-${formatAmount(event.token, event.betAmount)}`,
+            betUsd: formatCents(BET_USD_CENTS),
+            outcome: 'Pending',
+          });
+        }
+        break;
+      case 'rollSettled': {
+        const request = requests.get(event.sequenceNumber.toString());
+        const isWin = event.rollOutcome !== RollOutcome.Loss;
+        const winningsCents =
+          isWin && event.mferValueCents !== undefined && event.bnkrValueCents !== undefined && event.drbValueCents !== undefined
+            ? event.mferValueCents + event.bnkrValueCents + event.drbValueCents
+            : undefined;
+        rows.push({
+          ...base,
+          type: 'roll',
+          sequenceNumber: event.sequenceNumber.toString(),
+          token: request ? symbolOf(request.token) : '',
+          // A win hands the bet back, so only a loss moves the Game Balance
+          amount: !request ? '' : isWin ? '0' : `-${formatAmount(request.token, request.betAmount)}`,
+          betUsd: formatCents(BET_USD_CENTS),
+          outcome: outcomeLabel(event.rollOutcome),
+          dice: `${event.die1}+${event.die2}`,
+          mferReceived: formatUnits(event.mferPayout, MEME_DECIMALS),
+          bnkrReceived: formatUnits(event.bnkrPayout, MEME_DECIMALS),
+          drbReceived: formatUnits(event.drbPayout, MEME_DECIMALS),
+          mferUsd: isWin ? formatCents(event.mferValueCents) : '',
+          bnkrUsd: isWin ? formatCents(event.bnkrValueCents) : '',
+          drbUsd: isWin ? formatCents(event.drbValueCents) : '',
+          winningsUsd: formatCents(winningsCents),
+          mferSkimmed: formatUnits(event.mferSkimmed, MEME_DECIMALS),
+          skimUsd: event.mferSkimmed > BigInt(0) ? formatCents(event.skimValueCents) : '',
+        });
+        break;
+      }
+    }
+  }
+
+  return {
+    player,
+    chainId,
+    fromBlock: fromBlock.toString(),
+    toBlock: toBlock.toString(),
+    generatedAt: new Date().toISOString(),
+    openingBalances,
+    closingBalances: snapshot(),
+    rows,
+  };
+}
+
+const CSV_COLUMNS: (keyof LedgerRow)[] = [
+  'date',
+  'blockNumber',
+  'transactionHash',
+  'type',
+  'sequenceNumber',
+  'token',
+  'amount',
+  'betUsd',
+  'outcome',
+  'dice',
+  'mferReceived',
+  'bnkrReceived',
+  'drbReceived',
+  'mferUsd',
+  'bnkrUsd',
+  'drbUsd',
+  'winningsUsd',
+  'mferSkimmed',
+  'skimUsd',
+  'usdcBalance',
+  'wethBalance',
+];
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function ledgerToCsv(ledger: Ledger): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of ledger.rows) {
+    lines.push(CSV_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function ledgerToJson(ledger: Ledger): string {
+  return JSON.stringify(ledger, null, 2);
+}
+
+// Trigger a browser download (static export - no server to stream from)
+export function downloadFile(filename: string, contents: string, mimeType: string) {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,109 @@
+// Local devnet (anvil, chain 31337) profile
+// next.config.js inlines the contracts created by packages/contracts/script/DeployLocal.s.sol,
+// read from its Foundry broadcast, as NEXT_PUBLIC_LOCAL_DEPLOYMENT.
+
+export const IS_LOCAL_CHAIN_ENABLED = process.env.NEXT_PUBLIC_ENABLE_LOCAL_CHAIN === 'true';
+
+export const LOCAL_RPC_URL = process.env.NEXT_PUBLIC_LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+
+export interface LocalDeployment {
+  sevenEleven: `0x${string}`;
+  entropy: `0x${string}`;       // MockEntropy: rolls settle when fulfillRandomness is called
+  ethUsdFeed: `0x${string}`;    // MockChainlinkAggregator: stale after an hour unless refreshed
+  grokWallet: `0x${string}`;    // The deployer
+  tokens: {
+    USDC: `0x${string}`;
+    WETH: `0x${string}`;
+    MFERCOIN: `0x${string}`;
+    DRB: `0x${string}`;
+    BANKR: `0x${string}`;
+  };
+}
+
+interface BroadcastContract {
+  contractName: string;
+  address: `0x${string}`;
+  symbol?: string;
+}
+
+function parseLocalDeployment(): LocalDeployment | null {
+  if (!IS_LOCAL_CHAIN_ENABLED) return null;
+  const raw = process.env.NEXT_PUBLIC_LOCAL_DEPLOYMENT;
+  if (!raw) return null;
+
+  try {
+    const contracts = JSON.parse(raw) as BroadcastContract[];
+    const byName = (name: string) => contracts.find(c => c.contractName === name)?.address;
+    const bySymbol = (symbol: string) => contracts.find(c => c.symbol === symbol)?.address;
+
+    const sevenEleven = byName('SevenEleven');
+    const entropy = byName('MockEntropy');
+    const ethUsdFeed = byName('MockChainlinkAggregator');
+    const tokens = {
+      USDC: bySymbol('USDC'),
+      WETH: byName('MockWETH'),
+      MFERCOIN: bySymbol('mMFER'),
+      DRB: bySymbol('mDRB'),
+      BANKR: bySymbol('mBNKR'),
+    };
+    if (!sevenEleven || !entropy || !ethUsdFeed || Object.values(tokens).some(a => !a)) {
+      console.warn('Local deployment is missing contracts - redeploy with deploy-local.sh');
+      return null;
+    }
+
+    return {
+      sevenEleven,
+      entropy,
+      ethUsdFeed,
+      grokWallet: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      tokens: tokens as LocalDeployment['tokens'],
+    };
+  } catch (e) {
+    console.warn('Failed to parse local deployment:', e);
+  }
+  return null;
+}
+
+export const LOCAL_DEPLOYMENT = parseLocalDeployment();
+
+// Dev-only controls: anyone may call these on the mocks
+export const MOCK_ERC20_ABI = [
+  {
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'mint',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+export const MOCK_PRICE_FEED_ABI = [
+  {
+    inputs: [{ name: '_price', type: 'int256' }],
+    name: 'setPrice',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'price',
+    outputs: [{ name: '', type: 'int256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Randomness that makes SevenEleven roll the given dice:
+// die1 = (rand % 6) + 1 and die2 = ((rand >> 128) % 6) + 1, where 2^128 % 6 == 4
+export function randomnessForDice(die1: number, die2: number): `0x${string}` {
+  const die1Target = BigInt(die1 - 1);
+  const die2Target = BigInt(die2 - 1);
+  const highContribution = (die2Target * BigInt(4)) % BigInt(6);
+  const low = (die1Target + BigInt(6) - highContribution) % BigInt(6);
+  const value = low | (die2Target << BigInt(128));
+  return `0x${value.toString(16).padStart(64, '0')}`;
+}
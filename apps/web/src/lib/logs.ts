@@ -0,0 +1,97 @@
+// Chunked getLogs helpers - public RPCs cap the block range of a single eth_getLogs call
+import type { PublicClient } from 'viem';
+
+// Block range per eth_getLogs request
+export const LOG_CHUNK_SIZE = BigInt(5000);
+
+// How far back to search for a roll (~2.3 days of Base blocks at 2s)
+export const DEFAULT_LOOKBACK_BLOCKS = BigInt(100000);
+
+interface ScanOptions<T> {
+  publicClient: PublicClient;
+  fetchChunk: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+  chunkSize?: bigint;
+}
+
+// Walk backwards from `toBlock` and return the first chunk's worth of matches
+export async function findLogsBackwards<T>({
+  publicClient,
+  fetchChunk,
+  chunkSize = LOG_CHUNK_SIZE,
+  toBlock,
+  lookbackBlocks = DEFAULT_LOOKBACK_BLOCKS,
+}: ScanOptions<T> & { toBlock?: bigint; lookbackBlocks?: bigint }): Promise<T[]> {
+  const latest = toBlock ?? await publicClient.getBlockNumber();
+  const floor = latest > lookbackBlocks ? latest - lookbackBlocks : BigInt(0);
+
+  let end = latest;
+  while (end >= floor) {
+    const start = end - chunkSize + BigInt(1) > floor ? end - chunkSize + BigInt(1) : floor;
+    const logs = await fetchChunk(start, end);
+    if (logs.length > 0) return logs;
+    if (start === floor) break;
+    end = start - BigInt(1);
+  }
+  return [];
+}
+
+// Walk forwards from `fromBlock` to the chain head and return the first chunk's worth of matches
+export async function findLogsForwards<T>({
+  publicClient,
+  fetchChunk,
+  chunkSize = LOG_CHUNK_SIZE,
+  fromBlock,
+}: ScanOptions<T> & { fromBlock: bigint }): Promise<T[]> {
+  const latest = await publicClient.getBlockNumber();
+
+  let start = fromBlock;
+  while (start <= latest) {
+    const end = start + chunkSize - BigInt(1) < latest ? start + chunkSize - BigInt(1) : latest;
+    const logs = await fetchChunk(start, end);
+    if (logs.length > 0) return logs;
+    start = end + BigInt(1);
+  }
+  return [];
+}
+
+// Every match between `fromBlock` and `toBlock` (defaults to the last `lookbackBlocks`)
+export async function collectLogs<T>({
+  publicClient,
+  fetchChunk,
+  chunkSize = LOG_CHUNK_SIZE,
+  fromBlock,
+  toBlock,
+  lookbackBlocks = DEFAULT_LOOKBACK_BLOCKS,
+}: ScanOptions<T> & { fromBlock?: bigint; toBlock?: bigint; lookbackBlocks?: bigint }): Promise<T[]> {
+  const latest = toBlock ?? await publicClient.getBlockNumber();
+  const floor = fromBlock ?? (latest > lookbackBlocks ? latest - lookbackBlocks : BigInt(0));
+
+  const all: T[] = [];
+  let start = floor;
+  while (start <= latest) {
+    const end = start + chunkSize - BigInt(1) < latest ? start + chunkSize - BigInt(1) : latest;
+    all.push(...await fetchChunk(start, end));
+    start = end + BigInt(1);
+  }
+  return all;
+}
+
+// First block with code at `address`, by bisecting eth_getCode (needs an RPC that serves historical state)
+export async function findDeploymentBlock(
+  publicClient: PublicClient,
+  address: `0x${string}`,
+  toBlock?: bigint
+): Promise<bigint> {
+  let high = toBlock ?? await publicClient.getBlockNumber();
+  let low = BigInt(0);
+  while (low < high) {
+    const mid = (low + high) / BigInt(2);
+    const code = await publicClient.getCode({ address, blockNumber: mid });
+    if (code && code !== '0x') {
+      high = mid;
+    } else {
+      low = mid + BigInt(1);
+    }
+  }
+  return low;
+}
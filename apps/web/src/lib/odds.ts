@@ -0,0 +1,114 @@
+// Odds and expected value per roll, plus Monte Carlo bankroll simulation
+import { WINNING_COMBINATIONS } from './rules';
+
+export interface GameEconomics {
+  betUsdCents: bigint;
+  win711Bps: bigint;
+  winDoublesBps: bigint;
+  bpsDenominator: bigint;
+}
+
+export interface OutcomeOdds {
+  doubles: number;        // 6/36
+  sevenOrEleven: number;  // 8/36 (doubles excluded - they're checked first)
+  loss: number;           // 22/36
+}
+
+export interface ExpectedValue {
+  betUsd: number;
+  doublesProfitUsd: number;
+  sevenOrElevenProfitUsd: number;
+  expectedUsdPerRoll: number;   // Negative = house edge
+  houseEdge: number;            // Fraction of the bet
+}
+
+export function getOutcomeOdds(): OutcomeOdds {
+  const { doubles, sevenOrEleven, total } = WINNING_COMBINATIONS;
+  return {
+    doubles: doubles / total,
+    sevenOrEleven: sevenOrEleven / total,
+    loss: (total - doubles - sevenOrEleven) / total,
+  };
+}
+
+// A win returns the bet plus profit in meme tokens; a loss forfeits the bet (the Grok skim comes from house reserves)
+export function getExpectedValue(economics: GameEconomics): ExpectedValue {
+  const odds = getOutcomeOdds();
+  const betUsd = Number(economics.betUsdCents) / 100;
+  const doublesProfitUsd = Number((economics.betUsdCents * economics.winDoublesBps) / economics.bpsDenominator) / 100;
+  const sevenOrElevenProfitUsd = Number((economics.betUsdCents * economics.win711Bps) / economics.bpsDenominator) / 100;
+  const expectedUsdPerRoll =
+    odds.doubles * doublesProfitUsd + odds.sevenOrEleven * sevenOrElevenProfitUsd - odds.loss * betUsd;
+
+  return {
+    betUsd,
+    doublesProfitUsd,
+    sevenOrElevenProfitUsd,
+    expectedUsdPerRoll,
+    houseEdge: betUsd > 0 ? -expectedUsdPerRoll / betUsd : 0,
+  };
+}
+
+export interface BankrollSimulation {
+  // Total value (Game Balance + meme winnings in USD) after each roll, index 0 = start
+  expected: number[];   // Mean across trials
+  p10: number[];
+  p25: number[];
+  p50: number[];
+  p75: number[];
+  p90: number[];
+  // Fraction of trials whose Game Balance dropped below one bet before the last roll
+  bustRate: number;
+}
+
+interface SimulateOptions {
+  bankrollUsd: number;
+  rolls: number;
+  trials: number;
+  ev: ExpectedValue;
+  random?: () => number;
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+export function simulateBankroll({ bankrollUsd, rolls, trials, ev, random = Math.random }: SimulateOptions): BankrollSimulation {
+  const odds = getOutcomeOdds();
+  // values[step * trials + trial]
+  const values = new Float64Array((rolls + 1) * trials);
+  let busts = 0;
+
+  for (let trial = 0; trial < trials; trial++) {
+    let balance = bankrollUsd;   // Game Balance - only losses reduce it
+    let winnings = 0;            // Meme tokens, valued at the live price
+    let busted = false;
+    values[trial] = bankrollUsd;
+
+    for (let step = 1; step <= rolls; step++) {
+      if (balance + 1e-9 >= ev.betUsd) {
+        const r = random();
+        if (r < odds.doubles) winnings += ev.doublesProfitUsd;
+        else if (r < odds.doubles + odds.sevenOrEleven) winnings += ev.sevenOrElevenProfitUsd;
+        else balance -= ev.betUsd;
+      } else if (!busted) {
+        busted = true;
+        busts++;
+      }
+      values[step * trials + trial] = balance + winnings;
+    }
+  }
+
+  const result: BankrollSimulation = { expected: [], p10: [], p25: [], p50: [], p75: [], p90: [], bustRate: busts / trials };
+  for (let step = 0; step <= rolls; step++) {
+    const column = values.slice(step * trials, (step + 1) * trials).sort();
+    result.expected.push(column.reduce((sum, value) => sum + value, 0) / trials);
+    result.p10.push(percentile(column, 0.1));
+    result.p25.push(percentile(column, 0.25));
+    result.p50.push(percentile(column, 0.5));
+    result.p75.push(percentile(column, 0.75));
+    result.p90.push(percentile(column, 0.9));
+  }
+  return result;
+}
@@ -0,0 +1,49 @@
+// EIP-2612 permits: one signature replaces the approve transaction
+import { domainSeparator, type PublicClient, type TypedDataDomain } from 'viem';
+import { ERC20_ABI, ERC20_PERMIT_ABI } from './contracts';
+
+// How long a signed permit stays valid
+export const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+export interface PermitDomain {
+  domain: TypedDataDomain;
+  nonce: bigint;
+}
+
+// Reads nonces/DOMAIN_SEPARATOR/version and only reports support when the
+// domain we would sign matches the token's own separator. Tokens without
+// `version()` are assumed to use "1". Returns null when permits won't work.
+export async function getPermitDomain(
+  publicClient: PublicClient,
+  token: `0x${string}`,
+  owner: `0x${string}`,
+  chainId: number
+): Promise<PermitDomain | null> {
+  try {
+    const [nonce, separator, name] = await Promise.all([
+      publicClient.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [owner] }),
+      publicClient.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' }),
+      publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'name' }),
+    ]);
+    const version = await publicClient
+      .readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'version' })
+      .catch(() => '1');
+
+    const domain: TypedDataDomain = { name, version, chainId, verifyingContract: token };
+    if (domainSeparator({ domain }).toLowerCase() !== separator.toLowerCase()) return null;
+    return { domain, nonce };
+  } catch {
+    // No nonces() or DOMAIN_SEPARATOR(): not an EIP-2612 token
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+// Write previews for the confirmation sheet.
+// A write's calls are simulated (eth_simulateV1) between two rounds of balance reads, so the sheet
+// shows the balances the chain would actually end up with, including approve/wrap steps that a
+// single eth_call can't chain together.
+import { hexToBigInt, type Chain, type Client, type Hex, type Transport } from 'viem';
+import { simulateCalls } from 'viem/actions';
+import { isContractRevert } from './contractErrors';
+
+export interface SimulatedCall {
+  to: `0x${string}`;
+  data: Hex;
+  value?: bigint;
+}
+
+// A uint256 view call whose result is tracked across the write, e.g. balanceOf or getBalance
+export interface TrackedBalance {
+  label: string;             // "Wallet", "Game Balance"
+  symbol: string;
+  decimals: number;
+  read: SimulatedCall;
+}
+
+export interface BalanceChange {
+  label: string;
+  symbol: string;
+  decimals: number;
+  before: bigint;
+  after: bigint;
+}
+
+export interface WritePreview {
+  changes: BalanceChange[];
+  simulated: boolean;        // False when the RPC has no eth_simulateV1; the write still pre-flights on send
+}
+
+// Rejects with the call's revert when any call would fail
+export async function previewWrite(
+  client: Client<Transport, Chain | undefined>,
+  account: `0x${string}`,
+  calls: SimulatedCall[],
+  balances: TrackedBalance[]
+): Promise<WritePreview> {
+  const reads = balances.map(b => b.read);
+
+  let results;
+  try {
+    ({ results } = await simulateCalls(client, { account, calls: [...reads, ...calls, ...reads] }));
+  } catch (err) {
+    if (isContractRevert(err)) throw err;
+    console.warn('Failed to simulate write, previewing without balance changes:', err);
+    return { changes: [], simulated: false };
+  }
+
+  const failed = results.slice(reads.length, reads.length + calls.length).find(r => r.status === 'failure');
+  if (failed?.error) throw failed.error;
+
+  const readValue = (index: number) => {
+    const result = results[index];
+    return result.status === 'success' && result.data !== '0x' ? hexToBigInt(result.data) : BigInt(0);
+  };
+
+  return {
+    changes: balances.map((balance, i) => ({
+      label: balance.label,
+      symbol: balance.symbol,
+      decimals: balance.decimals,
+      before: readValue(i),
+      after: readValue(reads.length + calls.length + i),
+    })),
+    simulated: true,
+  };
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findReserveLowCrossings, type ReserveChange } from './reserveHistory';
+
+const MFER = '0x00000000000000000000000000000000000000a1';
+const BNKR = '0x00000000000000000000000000000000000000b2';
+
+function change(token: `0x${string}`, delta: number, blockNumber: number, logIndex = 0): ReserveChange {
+  return { token, delta: BigInt(delta), blockNumber: BigInt(blockNumber), logIndex, transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}` };
+}
+
+test('finds the change that took a reserve below its threshold', () => {
+  // MFER: 120 -> 90 (crossing at 100) -> 150 (top up) -> 80 (crossing again)
+  const crossings = findReserveLowCrossings(
+    new Map([[MFER, BigInt(80)]]),
+    new Map([[MFER, BigInt(100)]]),
+    [change(MFER, -30, 10), change(MFER, 60, 20), change(MFER, -70, 30)]
+  );
+  assert.deepEqual(crossings.map(c => [c.blockNumber, c.amount]), [[BigInt(30), BigInt(80)], [BigInt(10), BigInt(90)]]);
+});
+
+test('ignores changes that stay on one side of the threshold', () => {
+  const crossings = findReserveLowCrossings(
+    new Map([[MFER, BigInt(50)], [BNKR, BigInt(500)]]),
+    new Map([[MFER, BigInt(100)], [BNKR, BigInt(100)]]),
+    [change(MFER, -10, 10), change(BNKR, -10, 10, 1), change(MFER, -10, 11)]
+  );
+  assert.deepEqual(crossings, []);
+});
+
+test('orders changes in the same block by log index', () => {
+  // BNKR: 105 -> 95 -> 200 within one block; only the first log crosses
+  const crossings = findReserveLowCrossings(
+    new Map([[BNKR, BigInt(200)]]),
+    new Map([[BNKR, BigInt(100)]]),
+    [change(BNKR, 105, 7, 3), change(BNKR, -10, 7, 1)]
+  );
+  assert.equal(crossings.length, 1);
+  assert.equal(crossings[0].amount, BigInt(95));
+});
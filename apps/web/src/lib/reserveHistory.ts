@@ -0,0 +1,58 @@
+// Payout reserve history rebuilt from logs - the deployed contract declares ReservesLow but never emits it
+
+// One change to a payout reserve, in the contract's own units
+export interface ReserveChange {
+  token: `0x${string}`;
+  delta: bigint;              // + PayoutReservesDeposited, - PayoutReservesWithdrawn / payouts / loss skim
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+}
+
+// A change that took a reserve from at or above its warning amount to below it
+export interface ReserveLowCrossing {
+  token: `0x${string}`;
+  amount: bigint;             // Reserve right after the change
+  threshold: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+function compareChanges(a: ReserveChange, b: ReserveChange): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+// Walk the changes backwards from the reserves read at the scan's last block, newest crossing first.
+// Thresholds are today's warning amounts, so oracle-priced tokens are approximate.
+export function findReserveLowCrossings(
+  reservesAtEnd: ReadonlyMap<`0x${string}`, bigint>,
+  thresholds: ReadonlyMap<`0x${string}`, bigint>,
+  changes: ReserveChange[]
+): ReserveLowCrossing[] {
+  const running = new Map<string, bigint>();
+  reservesAtEnd.forEach((amount, token) => running.set(token.toLowerCase(), amount));
+  const thresholdByToken = new Map<string, bigint>();
+  thresholds.forEach((threshold, token) => thresholdByToken.set(token.toLowerCase(), threshold));
+
+  const crossings: ReserveLowCrossing[] = [];
+  for (const change of [...changes].sort(compareChanges).reverse()) {
+    const key = change.token.toLowerCase();
+    const after = running.get(key);
+    if (after === undefined) continue;
+    const before = after - change.delta;
+    running.set(key, before);
+
+    const threshold = thresholdByToken.get(key);
+    if (threshold !== undefined && before >= threshold && after < threshold) {
+      crossings.push({
+        token: change.token,
+        amount: after,
+        threshold,
+        blockNumber: change.blockNumber,
+        transactionHash: change.transactionHash,
+      });
+    }
+  }
+  return crossings;
+}
@@ -0,0 +1,469 @@
+// Local roll history: every RollRequested/RollSettled pair (plus NewSession/SessionEnded) for a player, persisted in IndexedDB
+import type { PublicClient } from 'viem';
+import { SEVEN_ELEVEN_ABI, type RollOutcome } from './contracts';
+import { LOG_CHUNK_SIZE } from './logs';
+import type { RollResult } from './rollResults';
+
+const DB_NAME = 'mferroll';
+const DB_VERSION = 1;
+const ROLLS_STORE = 'rolls';
+const SESSIONS_STORE = 'sessions';
+const SYNC_STORE = 'sync';
+const PLAYER_INDEX = 'playerKey';
+
+// How far back the backfill goes when the deployment block is unknown (~23 days of Base blocks at 2s)
+export const HISTORY_LOOKBACK_BLOCKS = BigInt(1000000);
+
+export interface RollHistoryEntry {
+  id: string;                    // `${chainId}:${player}:${sequenceNumber}`
+  playerKey: string;             // `${chainId}:${player}`
+  chainId: number;
+  player: `0x${string}`;
+  sequenceNumber: bigint;
+  // RollRequested
+  token?: `0x${string}`;
+  betAmount?: bigint;
+  requestTxHash?: `0x${string}`;
+  requestBlock?: bigint;
+  requestedAt?: number;          // ms, block timestamp when known, otherwise local time
+  // RollSettled
+  settled?: {
+    die1: number;
+    die2: number;
+    rollOutcome: RollOutcome;
+    mferPayout: bigint;
+    bnkrPayout: bigint;
+    drbPayout: bigint;
+    mferSkimmed: bigint;
+    playerBalance: bigint;
+    txHash?: `0x${string}`;
+    blockNumber?: bigint;
+  };
+}
+
+export interface SessionHistoryEntry {
+  id: string;                    // `${chainId}:${player}:${sessionNumber}`
+  playerKey: string;
+  chainId: number;
+  player: `0x${string}`;
+  sessionNumber: bigint;
+  // NewSession (emitted by the first roll of the session)
+  startedAt?: number;            // ms
+  startBlock?: bigint;
+  // SessionEnded (emitted by the first roll of the next session)
+  ended?: {
+    wins: bigint;                // Includes doubles
+    losses: bigint;
+    doublesWon: bigint;
+    lastRollTime: number;        // ms
+    blockNumber?: bigint;
+  };
+}
+
+// Block range already scanned for a player (backfill walks scannedFrom down, live sync walks scannedTo up)
+export interface RollHistorySyncState {
+  playerKey: string;
+  scannedFrom: bigint;
+  scannedTo: bigint;
+}
+
+export function getPlayerKey(chainId: number, player: string): string {
+  return `${chainId}:${player.toLowerCase()}`;
+}
+
+export function getRollId(chainId: number, player: string, sequenceNumber: bigint): string {
+  return `${getPlayerKey(chainId, player)}:${sequenceNumber}`;
+}
+
+export function getSessionId(chainId: number, player: string, sessionNumber: bigint): string {
+  return `${getPlayerKey(chainId, player)}:${sessionNumber}`;
+}
+
+// Change listeners (history panel re-reads on every write)
+const listeners: Set<() => void> = new Set();
+
+export function subscribeRollHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener());
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ROLLS_STORE)) {
+          const store = db.createObjectStore(ROLLS_STORE, { keyPath: 'id' });
+          store.createIndex(PLAYER_INDEX, 'playerKey', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex(PLAYER_INDEX, 'playerKey', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE, { keyPath: 'playerKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Merge partial entries (a request and its settlement usually arrive separately)
+export async function saveRollHistoryEntries(entries: RollHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(ROLLS_STORE, 'readwrite');
+  const store = tx.objectStore(ROLLS_STORE);
+
+  for (const entry of entries) {
+    const existing = await requestToPromise<RollHistoryEntry | undefined>(store.get(entry.id));
+    const merged: RollHistoryEntry = existing
+      ? {
+          ...existing,
+          ...Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)),
+          settled: entry.settled ?? existing.settled,
+        }
+      : entry;
+    store.put(merged);
+  }
+
+  await transactionDone(tx);
+  notifyListeners();
+}
+
+// Newest first
+export async function getRollHistory(chainId: number, player: string): Promise<RollHistoryEntry[]> {
+  const db = await openDb();
+  const tx = db.transaction(ROLLS_STORE, 'readonly');
+  const index = tx.objectStore(ROLLS_STORE).index(PLAYER_INDEX);
+  const entries = await requestToPromise<RollHistoryEntry[]>(index.getAll(getPlayerKey(chainId, player)));
+  return entries.sort((a, b) => (a.sequenceNumber < b.sequenceNumber ? 1 : a.sequenceNumber > b.sequenceNumber ? -1 : 0));
+}
+
+export async function saveSessionHistoryEntries(entries: SessionHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+
+  for (const entry of entries) {
+    const existing = await requestToPromise<SessionHistoryEntry | undefined>(store.get(entry.id));
+    const merged: SessionHistoryEntry = existing
+      ? {
+          ...existing,
+          ...Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)),
+          ended: entry.ended ?? existing.ended,
+        }
+      : entry;
+    store.put(merged);
+  }
+
+  await transactionDone(tx);
+  notifyListeners();
+}
+
+// Oldest first
+export async function getSessionHistory(chainId: number, player: string): Promise<SessionHistoryEntry[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const index = tx.objectStore(SESSIONS_STORE).index(PLAYER_INDEX);
+  const entries = await requestToPromise<SessionHistoryEntry[]>(index.getAll(getPlayerKey(chainId, player)));
+  return entries.sort((a, b) => (a.sessionNumber < b.sessionNumber ? -1 : a.sessionNumber > b.sessionNumber ? 1 : 0));
+}
+
+export async function getRollHistorySyncState(chainId: number, player: string): Promise<RollHistorySyncState | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STORE, 'readonly');
+  return requestToPromise<RollHistorySyncState | undefined>(tx.objectStore(SYNC_STORE).get(getPlayerKey(chainId, player)));
+}
+
+export async function saveRollHistorySyncState(state: RollHistorySyncState): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  tx.objectStore(SYNC_STORE).put(state);
+  await transactionDone(tx);
+}
+
+export async function clearRollHistory(chainId: number, player: string): Promise<void> {
+  const db = await openDb();
+  const playerKey = getPlayerKey(chainId, player);
+  const tx = db.transaction([ROLLS_STORE, SESSIONS_STORE, SYNC_STORE], 'readwrite');
+  for (const storeName of [ROLLS_STORE, SESSIONS_STORE]) {
+    const index = tx.objectStore(storeName).index(PLAYER_INDEX);
+    const keys = await requestToPromise(index.getAllKeys(playerKey));
+    keys.forEach(key => tx.objectStore(storeName).delete(key));
+  }
+  tx.objectStore(SYNC_STORE).delete(playerKey);
+  await transactionDone(tx);
+  notifyListeners();
+}
+
+export function rollResultToEntry(chainId: number, result: RollResult): RollHistoryEntry {
+  return {
+    id: getRollId(chainId, result.player, result.sequenceNumber),
+    playerKey: getPlayerKey(chainId, result.player),
+    chainId,
+    player: result.player,
+    sequenceNumber: result.sequenceNumber,
+    settled: {
+      die1: result.die1,
+      die2: result.die2,
+      rollOutcome: result.rollOutcome,
+      mferPayout: result.mferPayout,
+      bnkrPayout: result.bnkrPayout,
+      drbPayout: result.drbPayout,
+      mferSkimmed: result.mferSkimmed,
+      playerBalance: result.playerBalance,
+      txHash: result.transactionHash,
+      blockNumber: result.blockNumber,
+    },
+  };
+}
+
+export interface RollHistorySyncTarget {
+  publicClient: PublicClient;
+  chainId: number;
+  contractAddress: `0x${string}`;
+  player: `0x${string}`;
+  deployBlock?: bigint;          // SevenEleven deployment block, where the backfill stops
+}
+
+// Fetch roll and session events for one block range and store them
+async function scanRange(
+  { publicClient, chainId, contractAddress, player }: RollHistorySyncTarget,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<void> {
+  const [requested, settled, started, ended] = await Promise.all([
+    publicClient.getContractEvents({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      eventName: 'RollRequested',
+      args: { player },
+      fromBlock,
+      toBlock,
+    }),
+    publicClient.getContractEvents({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      eventName: 'RollSettled',
+      args: { player },
+      fromBlock,
+      toBlock,
+    }),
+    publicClient.getContractEvents({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      eventName: 'NewSession',
+      args: { player },
+      fromBlock,
+      toBlock,
+    }),
+    publicClient.getContractEvents({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      eventName: 'SessionEnded',
+      args: { player },
+      fromBlock,
+      toBlock,
+    }),
+  ]);
+
+  const found: RollHistoryEntry[] = [];
+
+  for (const log of requested) {
+    const { sequenceNumber, token, betAmount } = log.args;
+    if (sequenceNumber === undefined) continue;
+    found.push({
+      id: getRollId(chainId, player, sequenceNumber),
+      playerKey: getPlayerKey(chainId, player),
+      chainId,
+      player,
+      sequenceNumber,
+      token,
+      betAmount,
+      requestTxHash: log.transactionHash,
+      requestBlock: log.blockNumber,
+    });
+  }
+
+  for (const log of settled) {
+    const { sequenceNumber, die1, die2, rollOutcome, mferPayout, bnkrPayout, drbPayout, mferSkimmed, playerBalance } = log.args;
+    if (
+      sequenceNumber === undefined || die1 === undefined || die2 === undefined || rollOutcome === undefined ||
+      mferPayout === undefined || bnkrPayout === undefined || drbPayout === undefined ||
+      mferSkimmed === undefined || playerBalance === undefined
+    ) {
+      continue;
+    }
+    found.push(rollResultToEntry(chainId, {
+      sequenceNumber,
+      player,
+      die1,
+      die2,
+      rollOutcome: rollOutcome as RollOutcome,
+      mferPayout,
+      bnkrPayout,
+      drbPayout,
+      mferSkimmed,
+      playerBalance,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    }));
+  }
+
+  const foundSessions: SessionHistoryEntry[] = [];
+
+  for (const log of started) {
+    const { sessionNumber } = log.args;
+    if (sessionNumber === undefined) continue;
+    foundSessions.push({
+      id: getSessionId(chainId, player, sessionNumber),
+      playerKey: getPlayerKey(chainId, player),
+      chainId,
+      player,
+      sessionNumber,
+      startBlock: log.blockNumber,
+    });
+  }
+
+  for (const log of ended) {
+    const { sessionNumber, sessionWins, sessionLosses, sessionDoublesWon, lastRollTime } = log.args;
+    if (
+      sessionNumber === undefined || sessionWins === undefined || sessionLosses === undefined ||
+      sessionDoublesWon === undefined || lastRollTime === undefined
+    ) {
+      continue;
+    }
+    foundSessions.push({
+      id: getSessionId(chainId, player, sessionNumber),
+      playerKey: getPlayerKey(chainId, player),
+      chainId,
+      player,
+      sessionNumber,
+      ended: {
+        wins: sessionWins,
+        losses: sessionLosses,
+        doublesWon: sessionDoublesWon,
+        lastRollTime: Number(lastRollTime) * 1000,
+        blockNumber: log.blockNumber,
+      },
+    });
+  }
+
+  // Timestamp requests and session starts from their block (one lookup per block)
+  const blockTimes = new Map<bigint, number>();
+  const blockTime = async (blockNumber: bigint) => {
+    if (!blockTimes.has(blockNumber)) {
+      const block = await publicClient.getBlock({ blockNumber });
+      blockTimes.set(blockNumber, Number(block.timestamp) * 1000);
+    }
+    return blockTimes.get(blockNumber);
+  };
+  for (const entry of found) {
+    if (entry.requestBlock !== undefined) entry.requestedAt = await blockTime(entry.requestBlock);
+  }
+  for (const session of foundSessions) {
+    if (session.startBlock !== undefined) session.startedAt = await blockTime(session.startBlock);
+  }
+
+  await saveRollHistoryEntries(found);
+  await saveSessionHistoryEntries(foundSessions);
+}
+
+async function runSync(
+  target: RollHistorySyncTarget,
+  backfill: boolean,
+  onProgress?: (state: RollHistorySyncState) => void
+): Promise<RollHistorySyncState> {
+  const { publicClient, chainId, player } = target;
+  const head = await publicClient.getBlockNumber();
+  let state = await getRollHistorySyncState(chainId, player) ?? {
+    playerKey: getPlayerKey(chainId, player),
+    scannedFrom: head + BigInt(1),
+    scannedTo: head,
+  };
+
+  // Forward: blocks since the last sync
+  let start = state.scannedTo + BigInt(1);
+  while (start <= head) {
+    const end = start + LOG_CHUNK_SIZE - BigInt(1) < head ? start + LOG_CHUNK_SIZE - BigInt(1) : head;
+    await scanRange(target, start, end);
+    state = { ...state, scannedTo: end };
+    await saveRollHistorySyncState(state);
+    start = end + BigInt(1);
+  }
+
+  // Backward: older blocks not yet backfilled, down to the deployment
+  const floor = target.deployBlock
+    ?? (head > HISTORY_LOOKBACK_BLOCKS ? head - HISTORY_LOOKBACK_BLOCKS : BigInt(0));
+  while (backfill && state.scannedFrom > floor) {
+    const end = state.scannedFrom - BigInt(1);
+    const begin = end - LOG_CHUNK_SIZE + BigInt(1) > floor ? end - LOG_CHUNK_SIZE + BigInt(1) : floor;
+    await scanRange(target, begin, end);
+    state = { ...state, scannedFrom: begin };
+    await saveRollHistorySyncState(state);
+    onProgress?.(state);
+  }
+
+  return state;
+}
+
+// One sync per player at a time, shared by every hook instance that asks for it
+const inFlightSyncs = new Map<string, { promise: Promise<RollHistorySyncState>; backfill: boolean }>();
+
+// Catch up on new blocks and, with `backfill`, continue the backfill towards the deployment block
+export function syncRollHistory(
+  target: RollHistorySyncTarget,
+  { backfill, onProgress }: { backfill: boolean; onProgress?: (state: RollHistorySyncState) => void }
+): Promise<RollHistorySyncState> {
+  const key = getPlayerKey(target.chainId, target.player);
+  const inFlight = inFlightSyncs.get(key);
+  if (inFlight && (inFlight.backfill || !backfill)) return inFlight.promise;
+
+  // A catch-up sync is running but a backfill was asked for: run it once the catch-up finishes
+  const previous = inFlight ? inFlight.promise.catch(() => undefined) : Promise.resolve();
+  const promise = previous
+    .then(() => runSync(target, backfill, onProgress))
+    .finally(() => {
+      if (inFlightSyncs.get(key)?.promise === promise) inFlightSyncs.delete(key);
+    });
+  inFlightSyncs.set(key, { promise, backfill });
+  return promise;
+}
@@ -0,0 +1,433 @@
+// Roll result subscription layer
+// One RollResultSource per player with interchangeable backends (WebSocket, HTTP polling, test mode mock).
+// Results are matched by the sequenceNumber returned from roll/rollFor and delivered once per roll, even across reorgs.
+import {
+  createPublicClient,
+  parseEventLogs,
+  webSocket,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import { CHAIN_ID, SEVEN_ELEVEN_ABI, type RollOutcome, type RollSettledArgs } from './contracts';
+import { testModeEngine } from './testMode';
+import { debugLog } from '@/components/DebugConsole';
+
+export interface RollResult extends RollSettledArgs {
+  blockNumber?: bigint;
+  blockHash?: `0x${string}`;
+  transactionHash?: `0x${string}`;
+}
+
+export type RollResultSourceKind = 'websocket' | 'polling' | 'mock';
+
+export interface RollResultSource {
+  readonly kind: RollResultSourceKind;
+  // Every settled roll for the player, once per sequence number
+  subscribe(listener: (result: RollResult) => void): () => void;
+  // Resolves with the settlement of one roll (immediately if it already arrived)
+  waitFor(sequenceNumber: bigint, options?: { signal?: AbortSignal }): Promise<RollResult>;
+  // Async iterator over settled rolls, ends when the source closes or the signal aborts
+  results(options?: { signal?: AbortSignal }): AsyncIterableIterator<RollResult>;
+  close(): void;
+}
+
+// Backends push decoded results into the hub; `retract` handles logs removed by a reorg
+interface RollResultSink {
+  ingest: (result: RollResult) => void;
+  retract: (sequenceNumber: bigint, blockHash?: `0x${string}`) => void;
+}
+
+// Keep this many settled rolls around for late waitFor calls
+const MAX_REMEMBERED_RESULTS = 256;
+
+// Re-scan this many blocks on each poll so logs replaced by a shallow reorg are picked up
+const POLL_REORG_OVERLAP_BLOCKS = BigInt(5);
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// Optional WebSocket RPC endpoints - the polling backend is used when unset
+export function getWebSocketRpcUrl(chainId: number): string | undefined {
+  if (chainId === CHAIN_ID.BASE_MAINNET) return process.env.NEXT_PUBLIC_BASE_WS_RPC_URL || undefined;
+  if (chainId === CHAIN_ID.BASE_SEPOLIA) return process.env.NEXT_PUBLIC_BASE_SEPOLIA_WS_RPC_URL || undefined;
+  return undefined;
+}
+
+// Sequence number from the RollRequested event in a tx or UserOp receipt
+export function parseRollSequenceNumber(
+  logs: Log[],
+  contractAddress: `0x${string}`
+): bigint | undefined {
+  const events = parseEventLogs({ abi: SEVEN_ELEVEN_ABI, eventName: 'RollRequested', logs });
+  const event = events.find(e => e.address.toLowerCase() === contractAddress.toLowerCase());
+  return event?.args.sequenceNumber;
+}
+
+type RollSettledLog = Log & {
+  args: Partial<Omit<RollSettledArgs, 'rollOutcome'> & { rollOutcome: number }>;
+};
+
+function toRollResult(log: RollSettledLog): RollResult | undefined {
+  const { args } = log;
+  if (
+    args.sequenceNumber === undefined ||
+    args.player === undefined ||
+    args.die1 === undefined ||
+    args.die2 === undefined ||
+    args.rollOutcome === undefined ||
+    args.mferPayout === undefined ||
+    args.bnkrPayout === undefined ||
+    args.drbPayout === undefined ||
+    args.mferSkimmed === undefined ||
+    args.playerBalance === undefined
+  ) {
+    return undefined;
+  }
+
+  return {
+    sequenceNumber: args.sequenceNumber,
+    player: args.player,
+    die1: args.die1,
+    die2: args.die2,
+    rollOutcome: args.rollOutcome as RollOutcome,
+    mferPayout: args.mferPayout,
+    bnkrPayout: args.bnkrPayout,
+    drbPayout: args.drbPayout,
+    mferSkimmed: args.mferSkimmed,
+    playerBalance: args.playerBalance,
+    blockNumber: log.blockNumber ?? undefined,
+    blockHash: log.blockHash ?? undefined,
+    transactionHash: log.transactionHash ?? undefined,
+  };
+}
+
+function abortError(): Error {
+  return new Error('Roll result wait aborted');
+}
+
+function closedError(): Error {
+  return new Error('Roll result source closed');
+}
+
+interface Waiter {
+  resolve: (result: RollResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Shared bookkeeping for every backend: dedup by sequence number, waiters, listeners, iterators
+function createRollResultHub(
+  kind: RollResultSourceKind,
+  start: (sink: RollResultSink) => () => void
+): RollResultSource {
+  const results = new Map<string, RollResult>();
+  const notified = new Set<string>();
+  const listeners: Set<(result: RollResult) => void> = new Set();
+  const waiters = new Map<string, Set<Waiter>>();
+  const closeListeners: Set<() => void> = new Set();
+  let closed = false;
+
+  const remember = (key: string, result: RollResult) => {
+    results.delete(key);
+    results.set(key, result);
+    if (results.size > MAX_REMEMBERED_RESULTS) {
+      const oldest = results.keys().next().value;
+      if (oldest !== undefined) {
+        results.delete(oldest);
+        notified.delete(oldest);
+      }
+    }
+  };
+
+  const sink: RollResultSink = {
+    ingest: (result) => {
+      if (closed) return;
+      const key = result.sequenceNumber.toString();
+      remember(key, result);
+
+      // A roll settles once - a reorg that re-includes the callback must not replay it
+      if (notified.has(key)) return;
+      notified.add(key);
+
+      listeners.forEach(listener => listener(result));
+      const pending = waiters.get(key);
+      if (pending) {
+        waiters.delete(key);
+        pending.forEach(waiter => waiter.resolve(result));
+      }
+    },
+    retract: (sequenceNumber, blockHash) => {
+      const key = sequenceNumber.toString();
+      const existing = results.get(key);
+      if (existing && (!blockHash || existing.blockHash === blockHash)) {
+        debugLog.warn(`Roll #${sequenceNumber} settlement removed by reorg`);
+        results.delete(key);
+      }
+    },
+  };
+
+  const stop = start(sink);
+
+  const subscribe = (listener: (result: RollResult) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const waitFor = (sequenceNumber: bigint, options: { signal?: AbortSignal } = {}) => {
+    const key = sequenceNumber.toString();
+    const existing = results.get(key);
+    if (existing) return Promise.resolve(existing);
+    if (closed) return Promise.reject(closedError());
+
+    return new Promise<RollResult>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const set = waiters.get(key) ?? new Set<Waiter>();
+      const waiter: Waiter = {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      const onAbort = () => {
+        set.delete(waiter);
+        reject(abortError());
+      };
+
+      set.add(waiter);
+      waiters.set(key, set);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const iterate = (options: { signal?: AbortSignal } = {}): AsyncIterableIterator<RollResult> => {
+    const queue: RollResult[] = [];
+    let pull: ((value: IteratorResult<RollResult>) => void) | null = null;
+    let done = closed || !!options.signal?.aborted;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      closeListeners.delete(finish);
+      options.signal?.removeEventListener('abort', finish);
+      if (pull) {
+        pull({ value: undefined, done: true });
+        pull = null;
+      }
+    };
+
+    const unsubscribe = subscribe((result) => {
+      if (pull) {
+        pull({ value: result, done: false });
+        pull = null;
+      } else {
+        queue.push(result);
+      }
+    });
+
+    if (done) {
+      unsubscribe();
+    } else {
+      closeListeners.add(finish);
+      options.signal?.addEventListener('abort', finish, { once: true });
+    }
+
+    return {
+      next: () => {
+        const queued = queue.shift();
+        if (queued) return Promise.resolve({ value: queued, done: false });
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise(resolve => {
+          pull = resolve;
+        });
+      },
+      return: () => {
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    stop();
+    listeners.clear();
+    // Pending waitFor calls would otherwise never settle
+    waiters.forEach(set => set.forEach(waiter => waiter.reject(closedError())));
+    waiters.clear();
+    closeListeners.forEach(listener => listener());
+  };
+
+  return { kind, subscribe, waitFor, results: iterate, close };
+}
+
+interface ChainSourceConfig {
+  contractAddress: `0x${string}`;
+  player: `0x${string}`;
+}
+
+// HTTP backend: getLogs every interval, overlapping a few blocks to survive shallow reorgs
+export function createPollingRollResultSource({
+  publicClient,
+  contractAddress,
+  player,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: ChainSourceConfig & { publicClient: PublicClient; intervalMs?: number }): RollResultSource {
+  return createRollResultHub('polling', (sink) => {
+    let lastCheckedBlock: bigint | null = null;
+    let isPolling = false;
+    // blockHash of every settlement seen so far, to spot logs that vanished in a reorg
+    const seen = new Map<string, { sequenceNumber: bigint; blockNumber: bigint; blockHash?: `0x${string}` }>();
+
+    const poll = async () => {
+      if (isPolling) return;
+      isPolling = true;
+      try {
+        const currentBlock = await publicClient.getBlockNumber();
+        if (lastCheckedBlock === null) lastCheckedBlock = currentBlock;
+
+        const fromBlock = lastCheckedBlock > POLL_REORG_OVERLAP_BLOCKS
+          ? lastCheckedBlock - POLL_REORG_OVERLAP_BLOCKS
+          : BigInt(0);
+
+        const logs = await publicClient.getContractEvents({
+          address: contractAddress,
+          abi: SEVEN_ELEVEN_ABI,
+          eventName: 'RollSettled',
+          args: { player },
+          fromBlock,
+          toBlock: currentBlock,
+        });
+
+        // Anything we saw inside the re-scanned window that is gone now was reorged out
+        const present = new Set(logs.map(log => `${log.args.sequenceNumber}:${log.blockHash}`));
+        seen.forEach((entry, key) => {
+          if (entry.blockNumber >= fromBlock && !present.has(key)) {
+            seen.delete(key);
+            sink.retract(entry.sequenceNumber, entry.blockHash);
+          }
+        });
+
+        for (const log of logs) {
+          const result = toRollResult(log);
+          if (!result) continue;
+          const key = `${result.sequenceNumber}:${result.blockHash}`;
+          if (!seen.has(key)) {
+            seen.set(key, {
+              sequenceNumber: result.sequenceNumber,
+              blockNumber: log.blockNumber,
+              blockHash: result.blockHash,
+            });
+          }
+          sink.ingest(result);
+        }
+
+        // Forget settlements that are now deeper than any reorg we re-scan for
+        seen.forEach((entry, key) => {
+          if (entry.blockNumber < fromBlock) seen.delete(key);
+        });
+
+        lastCheckedBlock = currentBlock;
+      } catch (err) {
+        debugLog.error(`Roll result poll error: ${err}`);
+      } finally {
+        isPolling = false;
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, intervalMs);
+    return () => clearInterval(interval);
+  });
+}
+
+// WebSocket backend: eth_subscribe logs, removed logs are retracted
+export function createWebSocketRollResultSource({
+  url,
+  contractAddress,
+  player,
+}: ChainSourceConfig & { url: string }): RollResultSource {
+  return createRollResultHub('websocket', (sink) => {
+    const wsClient = createPublicClient({ transport: webSocket(url) });
+
+    const unwatch = wsClient.watchContractEvent({
+      address: contractAddress,
+      abi: SEVEN_ELEVEN_ABI,
+      eventName: 'RollSettled',
+      args: { player },
+      onLogs: (logs) => {
+        for (const log of logs) {
+          const result = toRollResult(log);
+          if (!result) continue;
+          if (log.removed) {
+            sink.retract(result.sequenceNumber, result.blockHash);
+          } else {
+            sink.ingest(result);
+          }
+        }
+      },
+      onError: (err) => debugLog.error(`Roll result subscription error: ${err.message}`),
+    });
+
+    return () => {
+      unwatch();
+      // The socket belongs to this source alone, so drop it with the subscription
+      wsClient.transport.getRpcClient()
+        .then(rpcClient => rpcClient.close())
+        .catch(err => console.warn('Failed to close roll result socket:', err));
+    };
+  });
+}
+
+// Test mode backend: settlements come straight from the local engine
+export function createMockRollResultSource({ player }: { player: `0x${string}` }): RollResultSource {
+  return createRollResultHub('mock', (sink) =>
+    testModeEngine.onRollSettled((result) => {
+      if (result.player.toLowerCase() !== player.toLowerCase()) return;
+      sink.ingest(result);
+    })
+  );
+}
+
+// Shared sources, one per chain/contract/player, reference counted across hooks
+const sharedSources = new Map<string, { source: RollResultSource; refs: number }>();
+
+export function acquireRollResultSource(
+  key: string,
+  create: () => RollResultSource
+): { source: RollResultSource; release: () => void } {
+  let entry = sharedSources.get(key);
+  if (!entry) {
+    entry = { source: create(), refs: 0 };
+    sharedSources.set(key, entry);
+  }
+  entry.refs++;
+
+  const acquired = entry;
+  let released = false;
+  return {
+    source: acquired.source,
+    release: () => {
+      if (released) return;
+      released = true;
+      acquired.refs--;
+      if (acquired.refs === 0) {
+        acquired.source.close();
+        sharedSources.delete(key);
+      }
+    },
+  };
+}
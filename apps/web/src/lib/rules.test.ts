@@ -0,0 +1,55 @@
+// lib/rules against the vectors asserted by test_SettlementVectors in SevenEleven.t.sol
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RollOutcome } from './contracts';
+import { MOCK_PAYOUT_PRICING, THEORETICAL_WIN_RATE, centsToTokenAmount, settleRoll } from './rules';
+import { SETTLEMENT_VECTORS, WETH_PRICING_VECTOR } from './rulesVectors';
+
+for (const vector of SETTLEMENT_VECTORS) {
+  test(`settles ${vector.randomNumber.slice(0, 10)} like the contract`, () => {
+    const result = settleRoll({ randomNumber: vector.randomNumber, pricing: MOCK_PAYOUT_PRICING });
+    assert.deepEqual(
+      {
+        die1: result.die1,
+        die2: result.die2,
+        rollOutcome: result.rollOutcome,
+        mferPayout: result.mferPayout,
+        bnkrPayout: result.bnkrPayout,
+        drbPayout: result.drbPayout,
+        mferSkimmed: result.mferSkimmed,
+      },
+      {
+        die1: vector.die1,
+        die2: vector.die2,
+        rollOutcome: vector.rollOutcome,
+        mferPayout: vector.mferPayout,
+        bnkrPayout: vector.bnkrPayout,
+        drbPayout: vector.drbPayout,
+        mferSkimmed: vector.mferSkimmed,
+      }
+    );
+  });
+}
+
+test('prices the WETH bet through the oracle path like the contract', () => {
+  assert.equal(
+    centsToTokenAmount(WETH_PRICING_VECTOR.cents, WETH_PRICING_VECTOR.pricing),
+    WETH_PRICING_VECTOR.amount
+  );
+});
+
+test('wins on 14 of the 36 dice faces', () => {
+  let wins = 0;
+  for (let die1 = 1; die1 <= 6; die1++) {
+    for (let die2 = 1; die2 <= 6; die2++) {
+      // die2 comes from the high 128 bits; 2^128 = 4 (mod 6), so the low bits offset that for die1
+      const high = BigInt(die2 - 1) << BigInt(128);
+      const randomNumber = high + ((BigInt(die1 - 1) - high % BigInt(6) + BigInt(6)) % BigInt(6));
+      const result = settleRoll({ randomNumber, pricing: MOCK_PAYOUT_PRICING });
+      assert.deepEqual([result.die1, result.die2], [die1, die2]);
+      if (result.rollOutcome !== RollOutcome.Loss) wins++;
+    }
+  }
+  assert.equal(wins, 14);
+  assert.equal(THEORETICAL_WIN_RATE, 14 / 36);
+});
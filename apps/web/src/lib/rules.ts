@@ -0,0 +1,199 @@
+// SevenEleven settlement rules - a pure port of SevenEleven.sol
+// Given the Pyth Entropy random number and token prices, reproduces the RollSettled values exactly
+import { parseUnits } from 'viem';
+import { RollOutcome, WinType, type MemeWinnings } from './contracts';
+
+// Contract constants (SevenEleven.sol)
+export const BET_USD_CENTS = BigInt(40);              // $0.40
+export const MIN_DEPOSIT_CENTS = BigInt(400);         // $4.00
+export const LOSS_SKIM_CENTS = BigInt(2);             // $0.02
+export const WIN_7_11_BPS = BigInt(5000);             // 0.5x profit
+export const WIN_DOUBLES_BPS = BigInt(20000);         // 2x profit
+export const BPS_DENOMINATOR = BigInt(10000);
+
+// Max payout checked against reserves before every roll (doubles)
+export const MAX_PAYOUT_CENTS = (BET_USD_CENTS * WIN_DOUBLES_BPS) / BPS_DENOMINATOR;
+
+// A payout reserve counts as low below its third of this (~100 max payouts)
+export const RESERVE_WARNING_THRESHOLD_CENTS = BigInt(100) * BET_USD_CENTS * BigInt(2);
+
+const Q96 = BigInt(1) << BigInt(96);
+const CHAINLINK_PRICE_UNIT = BigInt(1e8);
+
+// How the contract prices a payout token in _centsToTokenAmount
+export type TokenPricing =
+  | { kind: 'mock' }  // isMockToken: 1 cent = 10 tokens
+  | {
+      kind: 'oracle';
+      decimals: number;
+      tokenEthPriceX96: bigint;  // getTokenEthPrice(token)
+      ethUsdPrice: bigint;       // getEthUsdPrice() (8 decimals)
+    };
+
+export interface PayoutPricing {
+  mfer: TokenPricing;
+  bnkr: TokenPricing;
+  drb: TokenPricing;
+}
+
+export const MOCK_PAYOUT_PRICING: PayoutPricing = {
+  mfer: { kind: 'mock' },
+  bnkr: { kind: 'mock' },
+  drb: { kind: 'mock' },
+};
+
+export interface DiceResult {
+  die1: number;
+  die2: number;
+  sum: number;
+}
+
+export interface SettlementInput {
+  randomNumber: `0x${string}` | bigint;  // bytes32 from the entropy callback
+  pricing: PayoutPricing;
+  betUsdCents?: bigint;                   // pendingRoll.betUsdCents (defaults to BET_USD_CENTS)
+  mferReserves?: bigint;                  // payoutReserves[MFER]; skim is 0 when it can't cover it
+}
+
+export interface SettlementResult extends DiceResult {
+  winType: WinType;
+  rollOutcome: RollOutcome;
+  profitCents: bigint;
+  mferPayout: bigint;
+  bnkrPayout: bigint;
+  drbPayout: bigint;
+  mferSkimmed: bigint;
+}
+
+// entropyCallback: die1 from the low bits, die2 from the high 128 bits
+export function deriveDice(randomNumber: `0x${string}` | bigint): DiceResult {
+  const rand = typeof randomNumber === 'bigint' ? randomNumber : BigInt(randomNumber);
+  const die1 = Number(rand % BigInt(6)) + 1;
+  const die2 = Number((rand >> BigInt(128)) % BigInt(6)) + 1;
+  return { die1, die2, sum: die1 + die2 };
+}
+
+// _determineWinType: doubles are checked first (higher payout)
+export function determineWinType(die1: number, die2: number): WinType {
+  if (die1 === die2) return WinType.Doubles;
+  const sum = die1 + die2;
+  if (sum === 7 || sum === 11) return WinType.SevenOrEleven;
+  return WinType.None;
+}
+
+export function winTypeToRollOutcome(winType: WinType): RollOutcome {
+  return winType === WinType.Doubles ? RollOutcome.Doubles
+    : winType === WinType.SevenOrEleven ? RollOutcome.Win
+    : RollOutcome.Loss;
+}
+
+export function isWinningOutcome(rollOutcome: RollOutcome | number): boolean {
+  return Number(rollOutcome) !== RollOutcome.Loss;
+}
+
+// Winning faces out of 36, by enumeration: 6 doubles + 6 sevens + 2 elevens = 14
+export function countWinningCombinations(): { doubles: number; sevenOrEleven: number; total: number } {
+  let doubles = 0;
+  let sevenOrEleven = 0;
+  for (let die1 = 1; die1 <= 6; die1++) {
+    for (let die2 = 1; die2 <= 6; die2++) {
+      const winType = determineWinType(die1, die2);
+      if (winType === WinType.Doubles) doubles++;
+      else if (winType === WinType.SevenOrEleven) sevenOrEleven++;
+    }
+  }
+  return { doubles, sevenOrEleven, total: 36 };
+}
+
+export const WINNING_COMBINATIONS = countWinningCombinations();
+// 14/36 (38.9%), not 13/36: 11 comes up two ways (5+6 and 6+5). Pinned against settleRoll in rules.test.ts
+export const THEORETICAL_WIN_RATE = (WINNING_COMBINATIONS.doubles + WINNING_COMBINATIONS.sevenOrEleven) / WINNING_COMBINATIONS.total;
+
+// Profit in USD cents paid in meme tokens (the bet itself is returned on any win)
+export function getProfitCents(winType: WinType, betUsdCents: bigint = BET_USD_CENTS): bigint {
+  if (winType === WinType.Doubles) return (betUsdCents * WIN_DOUBLES_BPS) / BPS_DENOMINATOR;
+  if (winType === WinType.SevenOrEleven) return (betUsdCents * WIN_7_11_BPS) / BPS_DENOMINATOR;
+  return BigInt(0);
+}
+
+// _centsToTokenAmount
+export function centsToTokenAmount(cents: bigint, pricing: TokenPricing): bigint {
+  if (pricing.kind === 'mock') {
+    return cents * BigInt(10) * parseUnits('1', 18);
+  }
+  const numerator = cents * parseUnits('1', pricing.decimals) * CHAINLINK_PRICE_UNIT * Q96;
+  const denominator = BigInt(100) * pricing.tokenEthPriceX96 * pricing.ethUsdPrice;
+  return numerator / denominator;
+}
+
+// _sendMemeTokenPayout: thirds in cents, DRB gets the remainder
+export function splitPayoutCents(totalUsdCents: bigint): MemeWinnings {
+  const thirdCents = totalUsdCents / BigInt(3);
+  return {
+    mfer: thirdCents,
+    bnkr: thirdCents,
+    drb: totalUsdCents - thirdCents * BigInt(2),
+  };
+}
+
+export function getMemePayout(totalUsdCents: bigint, pricing: PayoutPricing): MemeWinnings {
+  const cents = splitPayoutCents(totalUsdCents);
+  return {
+    mfer: centsToTokenAmount(cents.mfer, pricing.mfer),
+    bnkr: centsToTokenAmount(cents.bnkr, pricing.bnkr),
+    drb: centsToTokenAmount(cents.drb, pricing.drb),
+  };
+}
+
+// _checkPayoutReserves: tokens each reserve must hold for one max (doubles) payout
+export function getMaxPayoutNeeds(pricing: PayoutPricing): MemeWinnings {
+  return getMemePayout(MAX_PAYOUT_CENTS, pricing);
+}
+
+// RESERVE_WARNING_THRESHOLD split per token, as the /house dashboard flags it
+export function getReserveWarningAmount(pricing: TokenPricing, thresholdCents: bigint = RESERVE_WARNING_THRESHOLD_CENTS): bigint {
+  return centsToTokenAmount(thresholdCents / BigInt(3), pricing);
+}
+
+// _handleLoss: $0.02 of MFER to Grok, skipped if reserves can't cover it
+export function getLossSkim(mferPricing: TokenPricing, mferReserves?: bigint): bigint {
+  const skimAmount = centsToTokenAmount(LOSS_SKIM_CENTS, mferPricing);
+  if (mferReserves !== undefined && mferReserves < skimAmount) return BigInt(0);
+  return skimAmount;
+}
+
+// Stablecoin branch of getBetAmount / getMinDeposit
+export function getStablecoinBetAmount(decimals: number): bigint {
+  return (BET_USD_CENTS * parseUnits('1', decimals)) / BigInt(100);
+}
+
+export function getMinDepositAmount(betAmount: bigint): bigint {
+  return (betAmount * MIN_DEPOSIT_CENTS) / BET_USD_CENTS;
+}
+
+// Full entropyCallback settlement, minus the state changes
+export function settleRoll({
+  randomNumber,
+  pricing,
+  betUsdCents = BET_USD_CENTS,
+  mferReserves,
+}: SettlementInput): SettlementResult {
+  const dice = deriveDice(randomNumber);
+  const winType = determineWinType(dice.die1, dice.die2);
+  const profitCents = getProfitCents(winType, betUsdCents);
+
+  const payout = winType === WinType.None
+    ? { mfer: BigInt(0), bnkr: BigInt(0), drb: BigInt(0) }
+    : getMemePayout(profitCents, pricing);
+
+  return {
+    ...dice,
+    winType,
+    rollOutcome: winTypeToRollOutcome(winType),
+    profitCents,
+    mferPayout: payout.mfer,
+    bnkrPayout: payout.bnkr,
+    drbPayout: payout.drb,
+    mferSkimmed: winType === WinType.None ? getLossSkim(pricing.mfer, mferReserves) : BigInt(0),
+  };
+}
@@ -0,0 +1,63 @@
+// Settlement vectors exported from test_SettlementVectors in packages/contracts/test/SevenEleven.t.sol
+// Keep both lists in sync - the contract test asserts the exact RollSettled values below
+import { RollOutcome } from './contracts';
+import type { TokenPricing } from './rules';
+
+export interface SettlementVector {
+  randomNumber: `0x${string}`;
+  die1: number;
+  die2: number;
+  rollOutcome: RollOutcome;
+  mferPayout: bigint;
+  bnkrPayout: bigint;
+  drbPayout: bigint;
+  mferSkimmed: bigint;
+}
+
+const E18 = BigInt('1000000000000000000');
+
+// Mock meme tokens (test setUp marks MFER/BNKR/DRB as mock)
+export const SETTLEMENT_VECTORS: SettlementVector[] = [
+  {
+    randomNumber: '0xa7a78919ce149ef850f574ed62e97533917b2de497c934dd8e8fb4999a0eddb0',
+    die1: 5, die2: 2, rollOutcome: RollOutcome.Win,
+    mferPayout: BigInt(60) * E18, bnkrPayout: BigInt(60) * E18, drbPayout: BigInt(80) * E18, mferSkimmed: BigInt(0),
+  },
+  {
+    randomNumber: '0x550da783b46e777e59144e5ee2883465de24a4e5c2342227359ad6418124df3c',
+    die1: 5, die2: 6, rollOutcome: RollOutcome.Win,
+    mferPayout: BigInt(60) * E18, bnkrPayout: BigInt(60) * E18, drbPayout: BigInt(80) * E18, mferSkimmed: BigInt(0),
+  },
+  {
+    randomNumber: '0xd2070118888eac4cc6f049c8a24d60a02f6f7bf051b52d6b365feab3da07a3e6',
+    die1: 1, die2: 1, rollOutcome: RollOutcome.Doubles,
+    mferPayout: BigInt(260) * E18, bnkrPayout: BigInt(260) * E18, drbPayout: BigInt(280) * E18, mferSkimmed: BigInt(0),
+  },
+  {
+    randomNumber: '0x410dbc16c411076e777568b869b3f439cfe8dc6ab9867c4a71f62797ac972c55',
+    die1: 6, die2: 6, rollOutcome: RollOutcome.Doubles,
+    mferPayout: BigInt(260) * E18, bnkrPayout: BigInt(260) * E18, drbPayout: BigInt(280) * E18, mferSkimmed: BigInt(0),
+  },
+  {
+    randomNumber: '0x1a6ad24b55551d89bd531e1a6a56e9b713ef093ceb417b21a8b8dfbbf8682096',
+    die1: 1, die2: 4, rollOutcome: RollOutcome.Loss,
+    mferPayout: BigInt(0), bnkrPayout: BigInt(0), drbPayout: BigInt(0), mferSkimmed: BigInt(20) * E18,
+  },
+  {
+    randomNumber: '0xafcefade7dcb1b58e41ecdc3f371a5e390ff4524b8167c102acb87cb05472af7',
+    die1: 4, die2: 6, rollOutcome: RollOutcome.Loss,
+    mferPayout: BigInt(0), bnkrPayout: BigInt(0), drbPayout: BigInt(0), mferSkimmed: BigInt(20) * E18,
+  },
+];
+
+// Oracle pricing path: getBetAmount(WETH) at $2000 ETH (test_GetBetAmountWeth)
+export const WETH_PRICING_VECTOR: { pricing: TokenPricing; cents: bigint; amount: bigint } = {
+  pricing: {
+    kind: 'oracle',
+    decimals: 18,
+    tokenEthPriceX96: BigInt(1) << BigInt(96),
+    ethUsdPrice: BigInt(2000e8),
+  },
+  cents: BigInt(40),
+  amount: BigInt(2e14),
+};
@@ -0,0 +1,197 @@
+// Session key keystores: encrypt session key material before it touches localStorage
+// WebCrypto keeps a non-extractable AES-GCM key in IndexedDB; the passkey keystore derives
+// the AES key from a WebAuthn PRF evaluation, so decrypting also needs the authenticator.
+import { bytesToHex, hexToBytes, type Hex } from 'viem';
+
+export type KeystoreKind = 'webcrypto' | 'passkey';
+
+// Ciphertext plus what the keystore needs to decrypt it
+export interface EncryptedSecret {
+  keystore: KeystoreKind;
+  iv: Hex;
+  ciphertext: Hex;
+  credentialId?: Hex;    // Passkey keystore: the credential whose PRF output is the key
+}
+
+export interface SessionKeystore {
+  kind: KeystoreKind;
+  isAvailable: () => boolean;
+  encrypt: (plaintext: string) => Promise<EncryptedSecret>;
+  decrypt: (secret: EncryptedSecret) => Promise<string>;
+}
+
+const DB_NAME = 'mferroll_keystore';
+const DB_VERSION = 1;
+const KEYS_STORE = 'keys';
+const WEBCRYPTO_KEY_ID = 'session_key_aes_v1';
+const PASSKEY_CREDENTIAL_STORAGE_KEY = 'mferroll_passkey_credential_v1';
+const KEYSTORE_STORAGE_KEY = 'mferroll_keystore_v1';
+
+// Fixed PRF input: the same passkey always derives the same AES key
+const PRF_SALT = new TextEncoder().encode('mferroll session key encryption v1');
+
+// Copies into a fresh ArrayBuffer, which is what the WebCrypto and WebAuthn typings accept
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(KEYS_STORE)) {
+          request.result.createObjectStore(KEYS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<{ iv: Hex; ciphertext: Hex }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: bytesToHex(iv), ciphertext: bytesToHex(new Uint8Array(ciphertext)) };
+}
+
+async function decryptWithKey(key: CryptoKey, secret: EncryptedSecret): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: toBuffer(hexToBytes(secret.iv)) },
+    key,
+    toBuffer(hexToBytes(secret.ciphertext))
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// The AES key is generated non-extractable, so script can use it but never read its bytes
+async function getWebCryptoKey(): Promise<CryptoKey> {
+  const db = await openDb();
+  const existing = await requestToPromise<CryptoKey | undefined>(
+    db.transaction(KEYS_STORE, 'readonly').objectStore(KEYS_STORE).get(WEBCRYPTO_KEY_ID)
+  );
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await requestToPromise(db.transaction(KEYS_STORE, 'readwrite').objectStore(KEYS_STORE).put(key, WEBCRYPTO_KEY_ID));
+  return key;
+}
+
+export const webCryptoKeystore: SessionKeystore = {
+  kind: 'webcrypto',
+  isAvailable: () => typeof crypto !== 'undefined' && !!crypto.subtle && typeof indexedDB !== 'undefined',
+  encrypt: async (plaintext) => ({ keystore: 'webcrypto', ...(await encryptWithKey(await getWebCryptoKey(), plaintext)) }),
+  decrypt: async (secret) => decryptWithKey(await getWebCryptoKey(), secret),
+};
+
+// Registers a passkey that supports the PRF extension and remembers its credential id
+async function createPasskeyCredential(): Promise<Hex> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: 'mferROLL' },
+      user: {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        name: 'mferROLL session keys',
+        displayName: 'mferROLL session keys',
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      authenticatorSelection: { userVerification: 'required', residentKey: 'preferred' },
+      extensions: { prf: {} },
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) throw new Error('Passkey creation was cancelled');
+  if (!credential.getClientExtensionResults().prf?.enabled) {
+    throw new Error('This passkey does not support the PRF extension');
+  }
+
+  const credentialId = bytesToHex(new Uint8Array(credential.rawId));
+  localStorage.setItem(PASSKEY_CREDENTIAL_STORAGE_KEY, credentialId);
+  return credentialId;
+}
+
+// Evaluates the PRF with the fixed salt and stretches the output into an AES-GCM key
+async function getPasskeyKey(credentialId: Hex): Promise<CryptoKey> {
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      allowCredentials: [{ type: 'public-key', id: toBuffer(hexToBytes(credentialId)) }],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: PRF_SALT } } },
+    },
+  }) as PublicKeyCredential | null;
+
+  const prfOutput = assertion?.getClientExtensionResults().prf?.results?.first;
+  if (!prfOutput) throw new Error('Passkey did not return a PRF result');
+
+  const keyMaterial = await crypto.subtle.importKey('raw', prfOutput as BufferSource, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: PRF_SALT },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export const passkeyKeystore: SessionKeystore = {
+  kind: 'passkey',
+  isAvailable: () => typeof window !== 'undefined' && !!window.PublicKeyCredential && !!crypto.subtle,
+  encrypt: async (plaintext) => {
+    const credentialId = (localStorage.getItem(PASSKEY_CREDENTIAL_STORAGE_KEY) as Hex | null) ?? await createPasskeyCredential();
+    const encrypted = await encryptWithKey(await getPasskeyKey(credentialId), plaintext);
+    return { keystore: 'passkey', credentialId, ...encrypted };
+  },
+  decrypt: async (secret) => {
+    if (!secret.credentialId) throw new Error('Encrypted session key has no passkey credential');
+    return decryptWithKey(await getPasskeyKey(secret.credentialId), secret);
+  },
+};
+
+export function getKeystore(kind: KeystoreKind): SessionKeystore {
+  return kind === 'passkey' ? passkeyKeystore : webCryptoKeystore;
+}
+
+// The keystore new session keys are encrypted with; existing entries keep the one they were written with
+export function loadKeystorePreference(): KeystoreKind {
+  if (typeof window === 'undefined') return 'webcrypto';
+
+  try {
+    return localStorage.getItem(KEYSTORE_STORAGE_KEY) === 'passkey' ? 'passkey' : 'webcrypto';
+  } catch (e) {
+    console.warn('Failed to load keystore preference:', e);
+  }
+  return 'webcrypto';
+}
+
+export function saveKeystorePreference(kind: KeystoreKind): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(KEYSTORE_STORAGE_KEY, kind);
+  } catch (e) {
+    console.warn('Failed to save keystore preference:', e);
+  }
+}
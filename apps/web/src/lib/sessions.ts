@@ -0,0 +1,118 @@
+// Session analytics: SessionEnded/NewSession events joined with the rolls made in each session
+import { RollOutcome } from './contracts';
+import { getStablecoinBetAmount } from './rules';
+import type { RollHistoryEntry, SessionHistoryEntry } from './rollHistory';
+
+// A deposit token a roll can be placed with
+export interface SessionToken {
+  address: `0x${string}`;
+  decimals: number;
+  isStablecoin?: boolean;     // Bet is a fixed amount, so it can be filled in when missing
+}
+
+export interface SessionSummary {
+  sessionNumber: bigint;
+  isCurrent: boolean;          // No SessionEnded yet
+  startedAt?: number;          // ms
+  endedAt?: number;            // ms, last roll of the session
+  durationMs?: number;
+  rolls: number;
+  wins: number;                // Includes doubles
+  losses: number;
+  doubles: number;
+  winRate: number;             // 0-1
+  netDeltas: Record<string, bigint>;  // Bets lost per deposit token (lowercased address), in its own units
+  untrackedLosses: number;     // Losses whose token or bet isn't in local history
+  memeWinnings: { mfer: bigint; bnkr: bigint; drb: bigint };
+  cumulativeWinRate: number;   // 0-1, over this and every earlier session
+}
+
+export function buildSessionSummaries(
+  sessions: SessionHistoryEntry[],
+  rolls: RollHistoryEntry[],
+  depositTokens: SessionToken[]
+): SessionSummary[] {
+  const ordered = [...sessions].sort((a, b) => (a.sessionNumber < b.sessionNumber ? -1 : 1));
+  const tokens = new Map(depositTokens.map(token => [token.address.toLowerCase(), token]));
+
+  // Bet taken by a roll, from its own token when the request wasn't synced with it
+  const betOf = (roll: RollHistoryEntry): bigint | undefined => {
+    if (roll.betAmount !== undefined) return roll.betAmount;
+    const token = roll.token && tokens.get(roll.token.toLowerCase());
+    return token && token.isStablecoin ? getStablecoinBetAmount(token.decimals) : undefined;
+  };
+
+  let cumulativeWins = 0;
+  let cumulativeRolls = 0;
+
+  return ordered.map((session, i) => {
+    const next = ordered[i + 1];
+    const start = session.startedAt;
+    const end = next?.startedAt;
+
+    // Rolls requested between this session's first roll and the next session's first roll
+    const inSession = start === undefined ? [] : rolls.filter(roll =>
+      roll.requestedAt !== undefined && roll.requestedAt >= start && (end === undefined || roll.requestedAt < end)
+    );
+
+    let wins = 0;
+    let losses = 0;
+    let doubles = 0;
+    const netDeltas: Record<string, bigint> = {};
+    let untrackedLosses = 0;
+    const memeWinnings = { mfer: BigInt(0), bnkr: BigInt(0), drb: BigInt(0) };
+    let lastRollAt: number | undefined;
+
+    for (const roll of inSession) {
+      lastRollAt = Math.max(lastRollAt ?? 0, roll.requestedAt ?? 0);
+      if (!roll.settled) continue;
+      if (roll.settled.rollOutcome === RollOutcome.Loss) {
+        losses++;
+        const bet = betOf(roll);
+        if (roll.token && bet !== undefined) {
+          const key = roll.token.toLowerCase();
+          netDeltas[key] = (netDeltas[key] ?? BigInt(0)) - bet;
+        } else {
+          untrackedLosses++;
+        }
+      } else {
+        wins++;
+        if (roll.settled.rollOutcome === RollOutcome.Doubles) doubles++;
+        memeWinnings.mfer += roll.settled.mferPayout;
+        memeWinnings.bnkr += roll.settled.bnkrPayout;
+        memeWinnings.drb += roll.settled.drbPayout;
+      }
+    }
+
+    // SessionEnded counters are authoritative (local history may not reach back far enough)
+    if (session.ended) {
+      const missingLosses = Number(session.ended.losses) - losses;
+      if (missingLosses > 0) untrackedLosses += missingLosses;
+      wins = Number(session.ended.wins);
+      losses = Number(session.ended.losses);
+      doubles = Number(session.ended.doublesWon);
+    }
+
+    const rollCount = wins + losses;
+    cumulativeWins += wins;
+    cumulativeRolls += rollCount;
+
+    const endedAt = session.ended?.lastRollTime ?? lastRollAt;
+    return {
+      sessionNumber: session.sessionNumber,
+      isCurrent: !session.ended,
+      startedAt: start,
+      endedAt,
+      durationMs: start !== undefined && endedAt !== undefined ? Math.max(0, endedAt - start) : undefined,
+      rolls: rollCount,
+      wins,
+      losses,
+      doubles,
+      winRate: rollCount > 0 ? wins / rollCount : 0,
+      netDeltas,
+      untrackedLosses,
+      memeWinnings,
+      cumulativeWinRate: cumulativeRolls > 0 ? cumulativeWins / cumulativeRolls : 0,
+    };
+  });
+}
@@ -0,0 +1,359 @@
+// Test mode: a local SevenEleven game engine with virtual balances
+// Mirrors the contract's deposit/roll/settle rules so the full UI works without a deployment
+import { parseUnits } from 'viem';
+import {
+  SEVEN_ELEVEN_CONSTANTS,
+  WinType,
+  type MemeWinnings,
+  type PlayerStats,
+  type RollSettledArgs,
+} from './contracts';
+import {
+  BET_USD_CENTS,
+  MIN_DEPOSIT_CENTS,
+  MOCK_PAYOUT_PRICING,
+  getMinDepositAmount,
+  getStablecoinBetAmount,
+  settleRoll,
+} from './rules';
+
+// Enabled with NEXT_PUBLIC_TEST_MODE=true (see .env.example)
+export const IS_TEST_MODE = process.env.NEXT_PUBLIC_TEST_MODE === 'true';
+
+const TEST_MODE_STORAGE_PREFIX = 'mferroll_testmode_v1_' as const;
+const GLOBAL_STORAGE_KEY = `${TEST_MODE_STORAGE_PREFIX}global`;
+
+// Virtual USDC every new test player starts with in their wallet
+const INITIAL_WALLET_USD_CENTS = 10000; // $100.00
+
+// Simulated Pyth Entropy callback delay
+const VRF_DELAY_MS = 1500;
+
+// Deposit token as seen by the engine. It has no price feeds, so only $1 stablecoins can be played
+export interface TestModeToken {
+  address: `0x${string}`;
+  decimals: number;
+  isStablecoin?: boolean;
+}
+
+interface TestModePlayerState {
+  walletBalances: Record<string, bigint>;  // token address (lowercase) => virtual wallet balance
+  gameBalances: Record<string, bigint>;    // token address (lowercase) => game balance
+  stats: PlayerStats;
+  memeWinnings: MemeWinnings;              // Meme payouts land in the virtual wallet
+  skimPaid: bigint;
+}
+
+interface TestModeGlobalState {
+  nextSequenceNumber: bigint;
+  grokSkimAmount: bigint;
+  grokSkimCount: bigint;
+}
+
+// Serialize bigints as tagged strings so state survives a JSON round trip
+function stringifyState(state: unknown): string {
+  return JSON.stringify(state, (_, value) =>
+    typeof value === 'bigint' ? { $bigint: value.toString() } : value
+  );
+}
+
+function parseState<T>(json: string): T {
+  return JSON.parse(json, (_, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+  ) as T;
+}
+
+function emptyPlayerState(): TestModePlayerState {
+  return {
+    walletBalances: {},
+    gameBalances: {},
+    stats: {
+      totalWins: BigInt(0),
+      totalLosses: BigInt(0),
+      totalDoublesWon: BigInt(0),
+      firstPlayTime: BigInt(0),
+      lastPlayTime: BigInt(0),
+      totalSessions: BigInt(0),
+      sessionWins: BigInt(0),
+      sessionLosses: BigInt(0),
+      sessionDoublesWon: BigInt(0),
+    },
+    memeWinnings: { mfer: BigInt(0), bnkr: BigInt(0), drb: BigInt(0) },
+    skimPaid: BigInt(0),
+  };
+}
+
+function emptyGlobalState(): TestModeGlobalState {
+  return {
+    nextSequenceNumber: BigInt(1),
+    grokSkimAmount: BigInt(0),
+    grokSkimCount: BigInt(0),
+  };
+}
+
+function getPlayerStorageKey(player: string): string {
+  return `${TEST_MODE_STORAGE_PREFIX}${player.toLowerCase()}`;
+}
+
+function loadPlayerState(player: string): TestModePlayerState {
+  if (typeof window === 'undefined') return emptyPlayerState();
+
+  try {
+    const stored = localStorage.getItem(getPlayerStorageKey(player));
+    if (stored) {
+      return parseState<TestModePlayerState>(stored);
+    }
+  } catch (e) {
+    console.warn('Failed to load test mode state:', e);
+  }
+  return emptyPlayerState();
+}
+
+function savePlayerState(player: string, state: TestModePlayerState): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(getPlayerStorageKey(player), stringifyState(state));
+}
+
+function loadGlobalState(): TestModeGlobalState {
+  if (typeof window === 'undefined') return emptyGlobalState();
+
+  try {
+    const stored = localStorage.getItem(GLOBAL_STORAGE_KEY);
+    if (stored) {
+      return parseState<TestModeGlobalState>(stored);
+    }
+  } catch (e) {
+    console.warn('Failed to load test mode state:', e);
+  }
+  return emptyGlobalState();
+}
+
+function saveGlobalState(state: TestModeGlobalState): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(GLOBAL_STORAGE_KEY, stringifyState(state));
+}
+
+// State change and settlement listeners
+const stateListeners: Set<() => void> = new Set();
+const settledListeners: Set<(result: RollSettledArgs) => void> = new Set();
+
+function notifyStateListeners() {
+  stateListeners.forEach(listener => listener());
+}
+
+// Token amount helpers (stablecoin pricing: 1 token = $1)
+function assertStablecoin(token: TestModeToken): void {
+  if (!token.isStablecoin) throw new Error('TokenNotSupported: test mode only prices stablecoin deposits');
+}
+
+function centsToDepositAmount(token: TestModeToken, cents: number): bigint {
+  assertStablecoin(token);
+  return (BigInt(cents) * parseUnits('1', token.decimals)) / BigInt(100);
+}
+
+function depositAmountToCents(token: TestModeToken, amount: bigint): bigint {
+  assertStablecoin(token);
+  return (amount * BigInt(100)) / parseUnits('1', token.decimals);
+}
+
+// _updateSession: a gap longer than SESSION_GAP starts a new session
+function updateSession(stats: PlayerStats, now: bigint): void {
+  if (stats.firstPlayTime === BigInt(0)) {
+    stats.firstPlayTime = now;
+    stats.totalSessions = BigInt(1);
+    stats.sessionWins = BigInt(0);
+    stats.sessionLosses = BigInt(0);
+    stats.sessionDoublesWon = BigInt(0);
+  } else if (now - stats.lastPlayTime > BigInt(SEVEN_ELEVEN_CONSTANTS.SESSION_GAP_SECONDS)) {
+    stats.totalSessions++;
+    stats.sessionWins = BigInt(0);
+    stats.sessionLosses = BigInt(0);
+    stats.sessionDoublesWon = BigInt(0);
+  }
+  stats.lastPlayTime = now;
+}
+
+function randomBytes32(): bigint {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return bytes.reduce((acc, byte) => (acc << BigInt(8)) | BigInt(byte), BigInt(0));
+}
+
+function getWalletBalance(player: string, token: TestModeToken): bigint {
+  const state = loadPlayerState(player);
+  const key = token.address.toLowerCase();
+  return state.walletBalances[key] ?? centsToDepositAmount(token, INITIAL_WALLET_USD_CENTS);
+}
+
+function getGameBalance(player: string, token: TestModeToken): bigint {
+  const state = loadPlayerState(player);
+  return state.gameBalances[token.address.toLowerCase()] ?? BigInt(0);
+}
+
+function getBetAmount(token: TestModeToken): bigint {
+  assertStablecoin(token);
+  return getStablecoinBetAmount(token.decimals);
+}
+
+function getMinDeposit(token: TestModeToken): bigint {
+  return getMinDepositAmount(getBetAmount(token));
+}
+
+function deposit(player: string, token: TestModeToken, amount: bigint): void {
+  if (amount <= BigInt(0)) throw new Error('InvalidAmount');
+  if (depositAmountToCents(token, amount) < MIN_DEPOSIT_CENTS) throw new Error('InsufficientDeposit');
+
+  const walletBalance = getWalletBalance(player, token);
+  if (walletBalance < amount) throw new Error('Insufficient virtual wallet balance');
+
+  const state = loadPlayerState(player);
+  const key = token.address.toLowerCase();
+  state.walletBalances[key] = walletBalance - amount;
+  state.gameBalances[key] = (state.gameBalances[key] ?? BigInt(0)) + amount;
+  savePlayerState(player, state);
+  notifyStateListeners();
+}
+
+function withdraw(player: string, token: TestModeToken, amount: bigint): void {
+  if (amount <= BigInt(0)) throw new Error('InvalidAmount');
+
+  const state = loadPlayerState(player);
+  const key = token.address.toLowerCase();
+  const gameBalance = state.gameBalances[key] ?? BigInt(0);
+  if (gameBalance < amount) throw new Error('InsufficientBalance');
+
+  state.walletBalances[key] = getWalletBalance(player, token) + amount;
+  state.gameBalances[key] = gameBalance - amount;
+  savePlayerState(player, state);
+  notifyStateListeners();
+}
+
+function withdrawAll(player: string, tokens: TestModeToken[]): void {
+  const state = loadPlayerState(player);
+  for (const token of tokens) {
+    const key = token.address.toLowerCase();
+    const gameBalance = state.gameBalances[key] ?? BigInt(0);
+    if (gameBalance > BigInt(0)) {
+      state.walletBalances[key] = getWalletBalance(player, token) + gameBalance;
+      state.gameBalances[key] = BigInt(0);
+    }
+  }
+  savePlayerState(player, state);
+  notifyStateListeners();
+}
+
+// Request a roll: deducts the bet now, settles after the simulated VRF delay
+function roll(player: `0x${string}`, token: TestModeToken): bigint {
+  const state = loadPlayerState(player);
+  const key = token.address.toLowerCase();
+  const betAmount = getBetAmount(token);
+  const gameBalance = state.gameBalances[key] ?? BigInt(0);
+  if (gameBalance < betAmount) throw new Error('InsufficientBalance');
+
+  state.gameBalances[key] = gameBalance - betAmount;
+  updateSession(state.stats, BigInt(Math.floor(Date.now() / 1000)));
+  savePlayerState(player, state);
+
+  const global = loadGlobalState();
+  const sequenceNumber = global.nextSequenceNumber;
+  global.nextSequenceNumber = sequenceNumber + BigInt(1);
+  saveGlobalState(global);
+
+  notifyStateListeners();
+
+  setTimeout(() => settle(sequenceNumber, player, token, betAmount), VRF_DELAY_MS);
+
+  return sequenceNumber;
+}
+
+// entropyCallback equivalent
+function settle(sequenceNumber: bigint, player: `0x${string}`, token: TestModeToken, betAmount: bigint): void {
+  const settlement = settleRoll({
+    randomNumber: randomBytes32(),
+    pricing: MOCK_PAYOUT_PRICING,
+    betUsdCents: BET_USD_CENTS,
+  });
+  const { die1, die2, rollOutcome, winType } = settlement;
+
+  const state = loadPlayerState(player);
+  const key = token.address.toLowerCase();
+  const payout: MemeWinnings = {
+    mfer: settlement.mferPayout,
+    bnkr: settlement.bnkrPayout,
+    drb: settlement.drbPayout,
+  };
+  const skimAmount = settlement.mferSkimmed;
+
+  if (winType === WinType.None) {
+    // House keeps the bet, $0.02 of MFER goes to Grok
+    state.skimPaid += skimAmount;
+    state.stats.totalLosses++;
+    state.stats.sessionLosses++;
+
+    const global = loadGlobalState();
+    global.grokSkimAmount += skimAmount;
+    global.grokSkimCount++;
+    saveGlobalState(global);
+  } else {
+    // Bet is returned, profit is paid in meme tokens
+    state.gameBalances[key] = (state.gameBalances[key] ?? BigInt(0)) + betAmount;
+    state.memeWinnings.mfer += payout.mfer;
+    state.memeWinnings.bnkr += payout.bnkr;
+    state.memeWinnings.drb += payout.drb;
+    state.stats.totalWins++;
+    state.stats.sessionWins++;
+    if (winType === WinType.Doubles) {
+      state.stats.totalDoublesWon++;
+      state.stats.sessionDoublesWon++;
+    }
+  }
+
+  savePlayerState(player, state);
+  notifyStateListeners();
+
+  const result: RollSettledArgs = {
+    sequenceNumber,
+    player,
+    die1,
+    die2,
+    rollOutcome,
+    mferPayout: payout.mfer,
+    bnkrPayout: payout.bnkr,
+    drbPayout: payout.drb,
+    mferSkimmed: skimAmount,
+    playerBalance: state.gameBalances[key] ?? BigInt(0),
+  };
+  settledListeners.forEach(listener => listener(result));
+}
+
+function resetPlayer(player: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(getPlayerStorageKey(player));
+  notifyStateListeners();
+}
+
+export const testModeEngine = {
+  getPlayerState: loadPlayerState,
+  getGlobalState: loadGlobalState,
+  getWalletBalance,
+  getGameBalance,
+  getBetAmount,
+  getMinDeposit,
+  deposit,
+  withdraw,
+  withdrawAll,
+  roll,
+  resetPlayer,
+  subscribe: (listener: () => void) => {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  },
+  onRollSettled: (listener: (result: RollSettledArgs) => void) => {
+    settledListeners.add(listener);
+    return () => {
+      settledListeners.delete(listener);
+    };
+  },
+};
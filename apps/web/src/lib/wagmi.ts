@@ -7,7 +7,8 @@ import {
   injectedWallet,
 } from '@rainbow-me/rainbowkit/wallets';
 import { createConfig, http } from 'wagmi';
-import { base, baseSepolia } from 'wagmi/chains';
+import { base, baseSepolia, foundry } from 'wagmi/chains';
+import { IS_LOCAL_CHAIN_ENABLED, LOCAL_RPC_URL } from './localDevnet';
 
 const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo-project-id';
 
@@ -32,21 +33,24 @@ const connectors = connectorsForWallets(
   }
 );
 
-export const wagmiConfig = createConfig({
-  connectors,
-  chains: [base, baseSepolia],
-  transports: {
-    [base.id]: http(),
-    [baseSepolia.id]: http(),
-  },
-  ssr: true,
-});
-
-// Contract addresses
-export const MFERCOIN_ADDRESS = '0xe3086852a4b125803c815a158249ae468a3254ca' as const;
-
-// Contract will be deployed - placeholder for now
-export const DICE_BETTING_ADDRESS = {
-  [base.id]: '0x0000000000000000000000000000000000000000' as const,
-  [baseSepolia.id]: '0x0000000000000000000000000000000000000000' as const,
-} as const;
+// anvil (31337) is only offered when the local devnet profile is enabled
+export const wagmiConfig = IS_LOCAL_CHAIN_ENABLED
+  ? createConfig({
+      connectors,
+      chains: [base, baseSepolia, foundry],
+      transports: {
+        [base.id]: http(),
+        [baseSepolia.id]: http(),
+        [foundry.id]: http(LOCAL_RPC_URL),
+      },
+      ssr: true,
+    })
+  : createConfig({
+      connectors,
+      chains: [base, baseSepolia],
+      transports: {
+        [base.id]: http(),
+        [baseSepolia.id]: http(),
+      },
+      ssr: true,
+    });
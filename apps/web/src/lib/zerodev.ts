@@ -4,10 +4,6 @@ import { CHAIN_ID } from './contracts';
 // ZeroDev Project ID - get this from https://dashboard.zerodev.app
 const ZERODEV_PROJECT_ID = process.env.NEXT_PUBLIC_ZERODEV_PROJECT_ID;
 
-if (!ZERODEV_PROJECT_ID) {
-  console.warn('NEXT_PUBLIC_ZERODEV_PROJECT_ID not set - session keys will not work');
-}
-
 // ZeroDev RPC endpoints by chain (v3 API with /chain/ path format)
 export const ZERODEV_CONFIG = {
   [CHAIN_ID.BASE_SEPOLIA]: {
@@ -43,3 +39,29 @@ export const SESSION_KEY_STORAGE_PREFIX = 'zerodev_session_' as const;
 
 // Session key expiry duration (24 hours in seconds)
 export const SESSION_KEY_EXPIRY_SECONDS = 24 * 60 * 60;
+
+// How long before expiry the app offers to rotate to a fresh session key
+export const SESSION_KEY_RENEWAL_WINDOW_SECONDS = 10 * 60;
+
+// Limits installed on-chain with each session key's permission validator.
+// Expiry is a timestamp policy, maxRolls a usage-count policy and rollsPerMinute a rate-limit policy,
+// so a leaked key stops working without any help from the browser that created it.
+export interface SessionKeyPreset {
+  id: string;
+  label: string;
+  durationSeconds: number;
+  maxRolls: number;
+  rollsPerMinute: number;
+}
+
+export const SESSION_KEY_PRESETS: SessionKeyPreset[] = [
+  { id: '1h', label: '1 hour / 100 rolls', durationSeconds: 60 * 60, maxRolls: 100, rollsPerMinute: 20 },
+  { id: '8h', label: '8 hours / 500 rolls', durationSeconds: 8 * 60 * 60, maxRolls: 500, rollsPerMinute: 20 },
+  { id: '24h', label: '24 hours / 1000 rolls', durationSeconds: SESSION_KEY_EXPIRY_SECONDS, maxRolls: 1000, rollsPerMinute: 20 },
+];
+
+export const DEFAULT_SESSION_KEY_PRESET = SESSION_KEY_PRESETS[0];
+
+export function getSessionKeyPreset(id: string | undefined): SessionKeyPreset {
+  return SESSION_KEY_PRESETS.find(p => p.id === id) ?? DEFAULT_SESSION_KEY_PRESET;
+}
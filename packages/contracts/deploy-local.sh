@@ -0,0 +1,58 @@
+#!/bin/bash
+# Deploy SevenEleven with mock Entropy, price feed and tokens to a local anvil node
+# Usage: ./deploy-local.sh   (start `anvil` in another terminal first)
+
+set -e
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+BLUE='\033[0;34m'
+NC='\033[0m' # No Color
+
+print_header() {
+    echo ""
+    echo -e "${BLUE}══════════════════════════════════════════════════════════════${NC}"
+    echo -e "${BLUE}  $1${NC}"
+    echo -e "${BLUE}══════════════════════════════════════════════════════════════${NC}"
+    echo ""
+}
+
+print_success() {
+    echo -e "${GREEN}  ✓ $1${NC}"
+}
+
+print_info() {
+    echo -e "  $1"
+}
+
+print_error() {
+    echo -e "${RED}  ✗ Error: $1${NC}"
+}
+
+LOCAL_RPC_URL="${LOCAL_RPC_URL:-http://127.0.0.1:8545}"
+BROADCAST_FILE="broadcast/DeployLocal.s.sol/31337/run-latest.json"
+
+print_header "SevenEleven Local Deployment"
+
+if ! cast chain-id --rpc-url "$LOCAL_RPC_URL" > /dev/null 2>&1; then
+    print_error "No node at $LOCAL_RPC_URL"
+    print_info "Start one with: anvil"
+    exit 1
+fi
+
+CHAIN_ID=$(cast chain-id --rpc-url "$LOCAL_RPC_URL")
+if [ "$CHAIN_ID" != "31337" ]; then
+    print_error "Expected chain id 31337, got $CHAIN_ID"
+    exit 1
+fi
+
+# PRIVATE_KEY is optional here: the script falls back to anvil's first account
+forge script script/DeployLocal.s.sol:DeployLocalScript \
+    --rpc-url "$LOCAL_RPC_URL" \
+    --broadcast
+
+echo ""
+print_success "Addresses written to $BROADCAST_FILE"
+print_info "Start the web app with NEXT_PUBLIC_ENABLE_LOCAL_CHAIN=true (apps/web/.env.local)"
+print_info "and restart it after every redeploy: next.config.js reads the broadcast at startup."
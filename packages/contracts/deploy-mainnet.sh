@@ -130,6 +130,16 @@ else
     exit 1
 fi
 
+# Block the contract was created in; the app scans its full log history from here
+SEVEN_ELEVEN_BLOCK=$(jq -r --arg addr "$SEVEN_ELEVEN_ADDR" \
+    '.receipts[] | select((.contractAddress // "") | ascii_downcase == ($addr | ascii_downcase)) | .blockNumber' \
+    "broadcast/DeployMainnet.s.sol/8453/run-latest.json" 2>/dev/null | head -n 1)
+if [ -n "$SEVEN_ELEVEN_BLOCK" ]; then
+    SEVEN_ELEVEN_BLOCK=$((SEVEN_ELEVEN_BLOCK))
+else
+    SEVEN_ELEVEN_BLOCK=null
+fi
+
 # ═══════════════════════════════════════════════════════════════
 # Step 2: Update .env
 # ═══════════════════════════════════════════════════════════════
@@ -145,23 +155,31 @@ fi
 print_success "SEVEN_ELEVEN_MAINNET_ADDRESS=$SEVEN_ELEVEN_ADDR"
 
 # ═══════════════════════════════════════════════════════════════
-# Step 3: Update frontend contracts.ts
+# Step 3: Update frontend deployment manifest
 # ═══════════════════════════════════════════════════════════════
 echo ""
 print_divider
-print_step "3" "Update frontend contracts.ts"
-
-CONTRACTS_TS="../../apps/web/src/lib/contracts.ts"
-
-if [ -f "$CONTRACTS_TS" ]; then
-    # Update SEVEN_ELEVEN_ADDRESS_BY_CHAIN for Base Mainnet (8453)
-    sed -i.bak "s|\[CHAIN_ID.BASE_MAINNET\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// TODO: Deploy to mainnet|\[CHAIN_ID.BASE_MAINNET\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed|" "$CONTRACTS_TS"
-    sed -i.bak "s|\[CHAIN_ID.BASE_MAINNET\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// Deployed|\[CHAIN_ID.BASE_MAINNET\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed|" "$CONTRACTS_TS"
-
-    rm -f "$CONTRACTS_TS.bak"
-    print_success "Updated SEVEN_ELEVEN_ADDRESS_BY_CHAIN[BASE_MAINNET]"
+print_step "3" "Update frontend deployment manifest"
+
+DEPLOYMENTS_JSON="../../apps/web/public/deployments.json"
+
+if [ -f "$DEPLOYMENTS_JSON" ]; then
+    # Update the Base (8453) entry; the app loads this file at startup
+    awk -v addr="$SEVEN_ELEVEN_ADDR" -v block="$SEVEN_ELEVEN_BLOCK" '
+    /^  "8453": \{/ { in_chain=1 }
+    in_chain && /"sevenEleven":/ {
+        sub(/"sevenEleven": [^,]*/, "\"sevenEleven\": \"" addr "\"")
+    }
+    in_chain && /"sevenElevenDeployBlock":/ {
+        sub(/"sevenElevenDeployBlock": [^,]*/, "\"sevenElevenDeployBlock\": " block)
+    }
+    in_chain && /^  \},?$/ { in_chain=0 }
+    { print }
+    ' "$DEPLOYMENTS_JSON" > "$DEPLOYMENTS_JSON.tmp" && mv "$DEPLOYMENTS_JSON.tmp" "$DEPLOYMENTS_JSON"
+
+    print_success "Updated Base sevenEleven in deployments.json"
 else
-    print_warn "contracts.ts not found at $CONTRACTS_TS"
+    print_warn "deployments.json not found at $DEPLOYMENTS_JSON"
 fi
 
 # ═══════════════════════════════════════════════════════════════
@@ -128,34 +128,34 @@ print_success "MOCK_DRB_ADDRESS=$MOCK_DRB_ADDR"
 rm -f .env.bak
 
 # ═══════════════════════════════════════════════════════════════
-# Step 3: Update frontend contracts.ts
+# Step 3: Update frontend deployment manifest
 # ═══════════════════════════════════════════════════════════════
 echo ""
 print_divider
-print_step "3" "Update frontend contracts.ts"
+print_step "3" "Update frontend deployment manifest"
 
-CONTRACTS_TS="../../apps/web/src/lib/contracts.ts"
+DEPLOYMENTS_JSON="../../apps/web/public/deployments.json"
 
-if [ -f "$CONTRACTS_TS" ]; then
-    # Use awk to update token addresses in BASE_SEPOLIA section
+if [ -f "$DEPLOYMENTS_JSON" ]; then
+    # Update the Base Sepolia (84532) entry; the app loads this file at startup
     awk -v mfer="$MOCK_MFER_ADDR" -v drb="$MOCK_DRB_ADDR" -v bnkr="$MOCK_BNKR_ADDR" '
-    /\[CHAIN_ID.BASE_SEPOLIA\]: \{/ { in_sepolia=1 }
-    in_sepolia && /MFERCOIN:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, mfer)
+    /^  "84532": \{/ { in_chain=1 }
+    in_chain && /"MFERCOIN":/ {
+        gsub(/0x[a-fA-F0-9]+/, mfer)
     }
-    in_sepolia && /DRB:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, drb)
+    in_chain && /"DRB":/ {
+        gsub(/0x[a-fA-F0-9]+/, drb)
     }
-    in_sepolia && /BANKR:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, bnkr)
+    in_chain && /"BANKR":/ {
+        gsub(/0x[a-fA-F0-9]+/, bnkr)
     }
-    in_sepolia && /^\s*\},\s*$/ { in_sepolia=0 }
+    in_chain && /^  \},?$/ { in_chain=0 }
     { print }
-    ' "$CONTRACTS_TS" > "$CONTRACTS_TS.tmp" && mv "$CONTRACTS_TS.tmp" "$CONTRACTS_TS"
+    ' "$DEPLOYMENTS_JSON" > "$DEPLOYMENTS_JSON.tmp" && mv "$DEPLOYMENTS_JSON.tmp" "$DEPLOYMENTS_JSON"
 
-    print_success "Updated TOKEN_ADDRESSES_BY_CHAIN[BASE_SEPOLIA]"
+    print_success "Updated Base Sepolia tokens in deployments.json"
 else
-    print_info "contracts.ts not found at $CONTRACTS_TS"
+    print_info "deployments.json not found at $DEPLOYMENTS_JSON"
     print_info "Manual update required for frontend"
 fi
 
@@ -269,6 +269,16 @@ fi
 
 print_success "SevenEleven V2 deployed: $SEVEN_ELEVEN_ADDR"
 
+# Block the contract was created in; the app scans its full log history from here
+SEVEN_ELEVEN_BLOCK=$(jq -r --arg addr "$SEVEN_ELEVEN_ADDR" \
+    '.receipts[] | select((.contractAddress // "") | ascii_downcase == ($addr | ascii_downcase)) | .blockNumber' \
+    "broadcast/DeployTestnetGame.s.sol/84532/run-latest.json" 2>/dev/null | head -n 1)
+if [ -n "$SEVEN_ELEVEN_BLOCK" ]; then
+    SEVEN_ELEVEN_BLOCK=$((SEVEN_ELEVEN_BLOCK))
+else
+    SEVEN_ELEVEN_BLOCK=null
+fi
+
 # ═══════════════════════════════════════════════════════════════
 # Step 4: Update .env file
 # ═══════════════════════════════════════════════════════════════
@@ -286,27 +296,31 @@ print_success "SEVEN_ELEVEN_ADDRESS=$SEVEN_ELEVEN_ADDR"
 rm -f .env.bak
 
 # ═══════════════════════════════════════════════════════════════
-# Step 5: Update frontend contracts.ts
+# Step 5: Update frontend deployment manifest
 # ═══════════════════════════════════════════════════════════════
 echo ""
 print_divider
-print_step "5" "Update frontend contracts.ts"
-
-CONTRACTS_TS="../../apps/web/src/lib/contracts.ts"
-
-if [ -f "$CONTRACTS_TS" ]; then
-    # Update SEVEN_ELEVEN_ADDRESS_BY_CHAIN for Base Sepolia (84532)
-    sed -i.bak "s|\[CHAIN_ID.BASE_SEPOLIA\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// TODO: Deploy V2|\[CHAIN_ID.BASE_SEPOLIA\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed by script|" "$CONTRACTS_TS"
-    sed -i.bak "s|\[CHAIN_ID.BASE_SEPOLIA\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// Deployed by script|\[CHAIN_ID.BASE_SEPOLIA\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed by script|" "$CONTRACTS_TS"
-
-    # Update legacy SEVEN_ELEVEN_ADDRESS export
-    sed -i.bak "s|export const SEVEN_ELEVEN_ADDRESS = '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`;|export const SEVEN_ELEVEN_ADDRESS = '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`;|" "$CONTRACTS_TS"
-
-    rm -f "$CONTRACTS_TS.bak"
-
-    print_success "Updated SEVEN_ELEVEN_ADDRESS_BY_CHAIN[BASE_SEPOLIA]"
+print_step "5" "Update frontend deployment manifest"
+
+DEPLOYMENTS_JSON="../../apps/web/public/deployments.json"
+
+if [ -f "$DEPLOYMENTS_JSON" ]; then
+    # Update the Base Sepolia (84532) entry; the app loads this file at startup
+    awk -v addr="$SEVEN_ELEVEN_ADDR" -v block="$SEVEN_ELEVEN_BLOCK" '
+    /^  "84532": \{/ { in_chain=1 }
+    in_chain && /"sevenEleven":/ {
+        sub(/"sevenEleven": [^,]*/, "\"sevenEleven\": \"" addr "\"")
+    }
+    in_chain && /"sevenElevenDeployBlock":/ {
+        sub(/"sevenElevenDeployBlock": [^,]*/, "\"sevenElevenDeployBlock\": " block)
+    }
+    in_chain && /^  \},?$/ { in_chain=0 }
+    { print }
+    ' "$DEPLOYMENTS_JSON" > "$DEPLOYMENTS_JSON.tmp" && mv "$DEPLOYMENTS_JSON.tmp" "$DEPLOYMENTS_JSON"
+
+    print_success "Updated Base Sepolia sevenEleven in deployments.json"
 else
-    print_warn "contracts.ts not found at $CONTRACTS_TS"
+    print_warn "deployments.json not found at $DEPLOYMENTS_JSON"
     print_info "Manual update required for frontend"
 fi
 
@@ -256,6 +256,16 @@ if [ -z "$SEVEN_ELEVEN_ADDR" ]; then
     exit 1
 fi
 
+# Block the contract was created in; the app scans its full log history from here
+SEVEN_ELEVEN_BLOCK=$(jq -r --arg addr "$SEVEN_ELEVEN_ADDR" \
+    '.receipts[] | select((.contractAddress // "") | ascii_downcase == ($addr | ascii_downcase)) | .blockNumber' \
+    "broadcast/DeployTestnetV2.s.sol/84532/run-latest.json" 2>/dev/null | head -n 1)
+if [ -n "$SEVEN_ELEVEN_BLOCK" ]; then
+    SEVEN_ELEVEN_BLOCK=$((SEVEN_ELEVEN_BLOCK))
+else
+    SEVEN_ELEVEN_BLOCK=null
+fi
+
 print_success "MockMFER deployed:     $MOCK_MFER_ADDR"
 print_success "MockBNKR deployed:     $MOCK_BNKR_ADDR"
 print_success "MockDRB deployed:      $MOCK_DRB_ADDR"
@@ -302,45 +312,40 @@ print_success "MOCK_DRB_ADDRESS=$MOCK_DRB_ADDR"
 rm -f .env.bak
 
 # ═══════════════════════════════════════════════════════════════
-# Step 5: Update frontend contracts.ts
+# Step 5: Update frontend deployment manifest
 # ═══════════════════════════════════════════════════════════════
 echo ""
 print_divider
-print_step "5" "Update frontend contracts.ts"
-
-CONTRACTS_TS="../../apps/web/src/lib/contracts.ts"
+print_step "5" "Update frontend deployment manifest"
 
-if [ -f "$CONTRACTS_TS" ]; then
-    # Update SEVEN_ELEVEN_ADDRESS_BY_CHAIN for Base Sepolia (84532)
-    sed -i.bak "s|\[CHAIN_ID.BASE_SEPOLIA\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// TODO: Deploy V2|\[CHAIN_ID.BASE_SEPOLIA\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed by script|" "$CONTRACTS_TS"
-    sed -i.bak "s|\[CHAIN_ID.BASE_SEPOLIA\]: '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`,.*// Deployed by script|\[CHAIN_ID.BASE_SEPOLIA\]: '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`, // Deployed by script|" "$CONTRACTS_TS"
+DEPLOYMENTS_JSON="../../apps/web/public/deployments.json"
 
-    # Update legacy SEVEN_ELEVEN_ADDRESS export
-    sed -i.bak "s|export const SEVEN_ELEVEN_ADDRESS = '0x[a-fA-F0-9]\{40\}' as \`0x\${string}\`;|export const SEVEN_ELEVEN_ADDRESS = '$SEVEN_ELEVEN_ADDR' as \`0x\${string}\`;|" "$CONTRACTS_TS"
-
-    # Use awk to update token addresses in BASE_SEPOLIA section
-    awk -v mfer="$MOCK_MFER_ADDR" -v drb="$MOCK_DRB_ADDR" -v bnkr="$MOCK_BNKR_ADDR" '
-    /\[CHAIN_ID.BASE_SEPOLIA\]: \{/ { in_sepolia=1 }
-    in_sepolia && /MFERCOIN:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, mfer)
+if [ -f "$DEPLOYMENTS_JSON" ]; then
+    # Update the Base Sepolia (84532) entry; the app loads this file at startup
+    awk -v addr="$SEVEN_ELEVEN_ADDR" -v block="$SEVEN_ELEVEN_BLOCK" -v mfer="$MOCK_MFER_ADDR" -v drb="$MOCK_DRB_ADDR" -v bnkr="$MOCK_BNKR_ADDR" '
+    /^  "84532": \{/ { in_chain=1 }
+    in_chain && /"sevenEleven":/ {
+        sub(/"sevenEleven": [^,]*/, "\"sevenEleven\": \"" addr "\"")
+    }
+    in_chain && /"sevenElevenDeployBlock":/ {
+        sub(/"sevenElevenDeployBlock": [^,]*/, "\"sevenElevenDeployBlock\": " block)
     }
-    in_sepolia && /DRB:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, drb)
+    in_chain && /"MFERCOIN":/ {
+        gsub(/0x[a-fA-F0-9]+/, mfer)
     }
-    in_sepolia && /BANKR:/ {
-        gsub(/0x[a-fA-F0-9]{40}/, bnkr)
+    in_chain && /"DRB":/ {
+        gsub(/0x[a-fA-F0-9]+/, drb)
     }
-    in_sepolia && /^\s*\},\s*$/ { in_sepolia=0 }
+    in_chain && /"BANKR":/ {
+        gsub(/0x[a-fA-F0-9]+/, bnkr)
+    }
+    in_chain && /^  \},?$/ { in_chain=0 }
     { print }
-    ' "$CONTRACTS_TS" > "$CONTRACTS_TS.tmp" && mv "$CONTRACTS_TS.tmp" "$CONTRACTS_TS"
-
-    # Clean up backup files
-    rm -f "$CONTRACTS_TS.bak"
+    ' "$DEPLOYMENTS_JSON" > "$DEPLOYMENTS_JSON.tmp" && mv "$DEPLOYMENTS_JSON.tmp" "$DEPLOYMENTS_JSON"
 
-    print_success "Updated SEVEN_ELEVEN_ADDRESS_BY_CHAIN[BASE_SEPOLIA]"
-    print_success "Updated TOKEN_ADDRESSES_BY_CHAIN[BASE_SEPOLIA]"
+    print_success "Updated Base Sepolia sevenEleven and tokens in deployments.json"
 else
-    print_warn "contracts.ts not found at $CONTRACTS_TS"
+    print_warn "deployments.json not found at $DEPLOYMENTS_JSON"
     print_info "Manual update required for frontend"
 fi
 
@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {Script, console} from "forge-std/Script.sol";
+import {SevenEleven} from "../src/SevenEleven.sol";
+import {MockMemeToken} from "../src/mocks/MockMemeToken.sol";
+import {MockWETH} from "../src/mocks/MockWETH.sol";
+import {ERC20Mock} from "../test/mocks/ERC20Mock.sol";
+import {MockChainlinkAggregator} from "../test/mocks/MockChainlinkAggregator.sol";
+import {MockEntropy} from "../test/mocks/MockEntropy.sol";
+
+/**
+ * @title DeployLocalScript
+ * @notice Deploy SevenEleven with mock Entropy, price feed and tokens to a local anvil node
+ * @dev Run with: ./deploy-local.sh (or forge script script/DeployLocal.s.sol:DeployLocalScript --rpc-url local --broadcast)
+ *
+ * The web app reads addresses from broadcast/DeployLocal.s.sol/31337/run-latest.json, so contract
+ * names and token symbols here are part of its contract. Rolls settle when someone calls
+ * MockEntropy.fulfillRandomness - the app's dev reveal control does that.
+ *
+ * Defaults to anvil's first account; set PRIVATE_KEY to deploy from another.
+ */
+contract DeployLocalScript is Script {
+    // anvil's default account #0
+    uint256 constant ANVIL_DEFAULT_KEY = 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
+
+    // ETH price: $2000 (8 decimals)
+    int256 constant ETH_USD_PRICE = 2000e8;
+
+    uint256 constant INITIAL_RESERVE = 1_000_000 * 1e18;
+    uint256 constant PLAYER_USDC = 1_000 * 1e6;
+    uint256 constant ENTROPY_FUNDS = 10 ether;
+
+    function run() external {
+        uint256 deployerPrivateKey = vm.envOr("PRIVATE_KEY", ANVIL_DEFAULT_KEY);
+        address deployer = vm.addr(deployerPrivateKey);
+
+        console.log("=== SevenEleven Local Deployment ===");
+        console.log("Deployer:", deployer);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // 1. Mocks for everything Base provides
+        MockEntropy entropy = new MockEntropy();
+        MockChainlinkAggregator ethUsdFeed = new MockChainlinkAggregator(ETH_USD_PRICE, 8);
+        MockWETH weth = new MockWETH();
+        ERC20Mock usdc = new ERC20Mock("USD Coin", "USDC", 6);
+        MockMemeToken mfer = new MockMemeToken("Mock MFER", "mMFER", 18);
+        MockMemeToken bnkr = new MockMemeToken("Mock BNKR", "mBNKR", 18);
+        MockMemeToken drb = new MockMemeToken("Mock DRB", "mDRB", 18);
+
+        // 2. Game contract; the deployer doubles as the Grok wallet
+        SevenEleven sevenEleven = new SevenEleven(
+            address(entropy),
+            address(ethUsdFeed),
+            address(weth),
+            address(usdc),
+            address(mfer),
+            address(bnkr),
+            address(drb),
+            deployer
+        );
+
+        sevenEleven.addWeth();
+        sevenEleven.addStablecoin(address(usdc));
+        sevenEleven.setMockToken(address(mfer), true);
+        sevenEleven.setMockToken(address(bnkr), true);
+        sevenEleven.setMockToken(address(drb), true);
+
+        // 3. Payout reserves and entropy fees
+        mfer.mint(deployer, INITIAL_RESERVE);
+        bnkr.mint(deployer, INITIAL_RESERVE);
+        drb.mint(deployer, INITIAL_RESERVE);
+        mfer.approve(address(sevenEleven), INITIAL_RESERVE);
+        bnkr.approve(address(sevenEleven), INITIAL_RESERVE);
+        drb.approve(address(sevenEleven), INITIAL_RESERVE);
+        sevenEleven.depositPayoutReserves(address(mfer), INITIAL_RESERVE);
+        sevenEleven.depositPayoutReserves(address(bnkr), INITIAL_RESERVE);
+        sevenEleven.depositPayoutReserves(address(drb), INITIAL_RESERVE);
+        sevenEleven.depositEntropyFunds{value: ENTROPY_FUNDS}();
+
+        // 4. Something to deposit
+        usdc.mint(deployer, PLAYER_USDC);
+
+        vm.stopBroadcast();
+
+        console.log("");
+        console.log("=== Local Deployment Complete ===");
+        console.log("  SevenEleven:", address(sevenEleven));
+        console.log("  MockEntropy:", address(entropy));
+        console.log("  ETH/USD feed:", address(ethUsdFeed));
+        console.log("  WETH:", address(weth));
+        console.log("  USDC:", address(usdc));
+        console.log("  mMFER:", address(mfer));
+        console.log("  mBNKR:", address(bnkr));
+        console.log("  mDRB:", address(drb));
+        console.log("");
+        console.log("Start the web app with NEXT_PUBLIC_ENABLE_LOCAL_CHAIN=true to pick these up.");
+    }
+}
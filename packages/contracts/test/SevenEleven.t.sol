@@ -369,6 +369,73 @@ contract SevenElevenTest is Test {
         assertEq(totalLosses, 1);
     }
 
+    // Vectors mirrored in apps/web/src/lib/rulesVectors.ts - keep both in sync
+    function test_SettlementVectors() public {
+        vm.prank(player);
+        sevenEleven.deposit(address(usdcToken), 10e6);
+
+        // 7 (5 + 2): $0.20 profit split 6/6/8 cents, mock pricing 1 cent = 10 tokens
+        _assertSettlementVector(
+            0xa7a78919ce149ef850f574ed62e97533917b2de497c934dd8e8fb4999a0eddb0,
+            5, 2, SevenEleven.RollOutcome.Win, 60e18, 60e18, 80e18, 0, 10e6
+        );
+        // 11 (5 + 6)
+        _assertSettlementVector(
+            0x550da783b46e777e59144e5ee2883465de24a4e5c2342227359ad6418124df3c,
+            5, 6, SevenEleven.RollOutcome.Win, 60e18, 60e18, 80e18, 0, 10e6
+        );
+        // Doubles (1 + 1): $0.80 profit split 26/26/28 cents
+        _assertSettlementVector(
+            0xd2070118888eac4cc6f049c8a24d60a02f6f7bf051b52d6b365feab3da07a3e6,
+            1, 1, SevenEleven.RollOutcome.Doubles, 260e18, 260e18, 280e18, 0, 10e6
+        );
+        // Doubles (6 + 6) - doubles win even though 12 is not 7 or 11
+        _assertSettlementVector(
+            0x410dbc16c411076e777568b869b3f439cfe8dc6ab9867c4a71f62797ac972c55,
+            6, 6, SevenEleven.RollOutcome.Doubles, 260e18, 260e18, 280e18, 0, 10e6
+        );
+        // Loss (1 + 4): bet kept, $0.02 MFER skim
+        _assertSettlementVector(
+            0x1a6ad24b55551d89bd531e1a6a56e9b713ef093ceb417b21a8b8dfbbf8682096,
+            1, 4, SevenEleven.RollOutcome.Loss, 0, 0, 0, 20e18, 9.6e6
+        );
+        // Loss (4 + 6)
+        _assertSettlementVector(
+            0xafcefade7dcb1b58e41ecdc3f371a5e390ff4524b8167c102acb87cb05472af7,
+            4, 6, SevenEleven.RollOutcome.Loss, 0, 0, 0, 20e18, 9.2e6
+        );
+    }
+
+    function _assertSettlementVector(
+        bytes32 randomness,
+        uint8 die1,
+        uint8 die2,
+        SevenEleven.RollOutcome rollOutcome,
+        uint256 mferPayout,
+        uint256 bnkrPayout,
+        uint256 drbPayout,
+        uint256 mferSkimmed,
+        uint256 playerBalance
+    ) internal {
+        vm.prank(player);
+        uint64 sequenceNumber = sevenEleven.roll(address(usdcToken));
+
+        vm.expectEmit(true, true, false, true, address(sevenEleven));
+        emit SevenEleven.RollSettled(
+            sequenceNumber,
+            player,
+            die1,
+            die2,
+            rollOutcome,
+            mferPayout,
+            bnkrPayout,
+            drbPayout,
+            mferSkimmed,
+            playerBalance
+        );
+        _fulfillPythEntropy(sequenceNumber, randomness);
+    }
+
     // ============ Session Tracking Tests ============
 
     function test_SessionTracking_FirstRoll() public {
@@ -468,6 +535,12 @@ contract SevenElevenTest is Test {
         assertEq(betAmount, 400000, "Bet amount should be $0.40 in USDC");
     }
 
+    function test_GetBetAmountWeth() public view {
+        // $0.40 at $2000 ETH = 0.0002 ETH (oracle pricing vector in rulesVectors.ts)
+        uint256 betAmount = sevenEleven.getBetAmount(address(weth));
+        assertEq(betAmount, 2e14, "Bet amount should be $0.40 in WETH");
+    }
+
     function test_GetMinDeposit() public view {
         uint256 minDeposit = sevenEleven.getMinDeposit(address(usdcToken));
         // $4.00 with 6 decimals = 4000000